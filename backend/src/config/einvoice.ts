@@ -0,0 +1,15 @@
+// Issuer data for the electronic invoices the platform emits for its fees
+export const einvoiceConfig = {
+  // 1 = pruebas, 2 = producción
+  environment: process.env.SRI_ENVIRONMENT === '2' ? '2' : '1',
+  ruc: process.env.SRI_RUC || '1790000000001',
+  businessName: process.env.SRI_BUSINESS_NAME || 'AUTOMARKET QUITO S.A.',
+  tradeName: process.env.SRI_TRADE_NAME || 'AutoMarket Quito',
+  headOfficeAddress: process.env.SRI_HEAD_OFFICE_ADDRESS || 'Av. República del Salvador N34-183, Quito',
+  establishment: (process.env.SRI_ESTABLISHMENT || '001').padStart(3, '0'),
+  emissionPoint: (process.env.SRI_EMISSION_POINT || '001').padStart(3, '0'),
+  establishmentAddress: process.env.SRI_ESTABLISHMENT_ADDRESS || process.env.SRI_HEAD_OFFICE_ADDRESS
+    || 'Av. República del Salvador N34-183, Quito',
+  keepsAccounting: process.env.SRI_KEEPS_ACCOUNTING !== 'false',
+  provider: process.env.EINVOICE_PROVIDER || 'local',
+};
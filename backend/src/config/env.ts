@@ -0,0 +1,5 @@
+// Numeric setting from the environment; unset or unparsable values fall back
+export const envNumber = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) ? value : fallback;
+};
@@ -0,0 +1,25 @@
+import { envNumber } from './env';
+
+// Processing of uploaded vehicle photos
+
+// Longest side of each generated size, in pixels; smaller originals are not enlarged
+export const IMAGE_VARIANTS = {
+  thumbnail: 320,
+  card: 800,
+  full: 1920,
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+
+export const imageConfig = {
+  maxUploadBytes: envNumber('IMAGE_MAX_UPLOAD_MB', 15) * 1024 * 1024,
+  maxPerVehicle: envNumber('IMAGE_MAX_PER_VEHICLE', 20),
+  // Photos whose perceptual hashes differ in at most this many of 64 bits are
+  // treated as the same photo
+  duplicateDistance: envNumber('IMAGE_DUPLICATE_DISTANCE', 8),
+  quality: {
+    avif: envNumber('IMAGE_AVIF_QUALITY', 50),
+    webp: envNumber('IMAGE_WEBP_QUALITY', 80),
+    jpeg: envNumber('IMAGE_JPEG_QUALITY', 82),
+  },
+};
@@ -0,0 +1,15 @@
+import { envNumber } from './env';
+
+// Lifecycle of marketplace listings
+export const listingConfig = {
+  // Days a published listing stays up before it goes inactive and needs renewing
+  ttlDays: envNumber('LISTING_TTL_DAYS', 60),
+  // Submissions without quality flags skip the moderation queue
+  autoApproveClean: process.env.LISTING_AUTO_APPROVE !== 'false',
+  // Flag prices below this share of the median for the same model and year (±1)
+  priceFlagRatio: envNumber('LISTING_PRICE_FLAG_RATIO', 0.6),
+  // Published listings needed before the median means anything
+  priceMinSamples: envNumber('LISTING_PRICE_MIN_SAMPLES', 5),
+  // Above this yearly average the mileage is implausible
+  maxKmPerYear: envNumber('LISTING_MAX_KM_PER_YEAR', 40000),
+};
@@ -0,0 +1,12 @@
+// Outgoing mail. Without SMTP_HOST messages are only logged, which is what local
+// development wants unless the mailhog container is used.
+export const mailConfig = {
+  host: process.env.SMTP_HOST,
+  port: parseInt(process.env.SMTP_PORT || '587', 10),
+  secure: process.env.SMTP_SECURE === 'true',
+  user: process.env.SMTP_USER,
+  password: process.env.SMTP_PASSWORD,
+  from: process.env.MAIL_FROM || 'AutoMarket Quito <no-reply@automarket.ec>',
+  // Base URL for links in emails
+  frontendUrl: (process.env.FRONTEND_URL || 'http://localhost:3001').replace(/\/$/, ''),
+};
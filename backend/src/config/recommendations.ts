@@ -0,0 +1,47 @@
+import { envNumber } from './env';
+
+// Ranking parameters for recommendations. Weights are relative points per factor:
+// a listing that matches on everything scores their sum.
+
+// "Similar vehicles" block on the listing page
+export const similarVehiclesConfig = {
+  weights: {
+    model: envNumber('SIMILAR_WEIGHT_MODEL', 30),
+    brand: envNumber('SIMILAR_WEIGHT_BRAND', 15),
+    year: envNumber('SIMILAR_WEIGHT_YEAR', 15),
+    price: envNumber('SIMILAR_WEIGHT_PRICE', 20),
+    fuelType: envNumber('SIMILAR_WEIGHT_FUEL_TYPE', 5),
+    transmission: envNumber('SIMILAR_WEIGHT_TRANSMISSION', 5),
+    distance: envNumber('SIMILAR_WEIGHT_DISTANCE', 10),
+  },
+  // Years apart at which the year factor reaches zero
+  yearWindow: envNumber('SIMILAR_YEAR_WINDOW', 3),
+  // Price difference, as a fraction of the listing's price, at which the price factor reaches zero
+  priceBand: envNumber('SIMILAR_PRICE_BAND', 0.25),
+  // Distance in km at which the proximity factor reaches zero
+  maxDistanceKm: envNumber('SIMILAR_MAX_DISTANCE_KM', 100),
+};
+
+export type SimilarityWeights = typeof similarVehiclesConfig.weights;
+
+// Personalized home feed. Each interaction with a listing adds its signal weight to
+// the listing's brand, model, city and price, decaying with age (half-life in days).
+export const feedConfig = {
+  signals: {
+    view: 1,
+    search: 2,
+    favorite: 3,
+    conversation: 4,
+  },
+  weights: {
+    model: envNumber('FEED_WEIGHT_MODEL', 30),
+    brand: envNumber('FEED_WEIGHT_BRAND', 20),
+    price: envNumber('FEED_WEIGHT_PRICE', 20),
+    location: envNumber('FEED_WEIGHT_LOCATION', 10),
+    popularity: envNumber('FEED_WEIGHT_POPULARITY', 20),
+  },
+  lookbackDays: envNumber('FEED_LOOKBACK_DAYS', 90),
+  halfLifeDays: envNumber('FEED_HALF_LIFE_DAYS', 14),
+  // Ranked listings precomputed per user
+  size: envNumber('FEED_SIZE', 100),
+};
@@ -204,6 +204,7 @@ export const cacheKeys = {
   favorites: (userId: string) => `favorites:${userId}`,
   searchResults: (query: string) => `search:${query}`,
   popularVehicles: () => 'vehicles:popular',
+  feed: (userId: string) => `feed:${userId}`,
   brands: () => 'brands:all',
   models: (brandId: string) => `models:${brandId}`,
   statistics: {
@@ -0,0 +1,9 @@
+import { envNumber } from './env';
+
+// Holds buyers place on a vehicle before buying it
+export const reservationConfig = {
+  // Longest hold a buyer can ask for
+  maxHours: envNumber('RESERVATION_MAX_HOURS', 72),
+  // Smallest deposit (USD) a buyer must have authorized to hold a vehicle
+  minDeposit: envNumber('RESERVATION_MIN_DEPOSIT', 100),
+};
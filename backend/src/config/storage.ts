@@ -0,0 +1,42 @@
+import { Client } from 'minio';
+
+// Object storage for vehicle photos: the MinIO container locally, any S3-compatible
+// service in production. Objects are served straight from `publicUrl`.
+export const storageConfig = {
+  endPoint: process.env.MINIO_ENDPOINT || 'localhost',
+  port: parseInt(process.env.MINIO_PORT || '9000', 10),
+  useSSL: process.env.MINIO_USE_SSL === 'true',
+  accessKey: process.env.MINIO_ACCESS_KEY || 'automarket',
+  secretKey: process.env.MINIO_SECRET_KEY || 'automarket_pass',
+  bucket: process.env.MINIO_BUCKET || 'vehicle-images',
+  publicUrl: (process.env.STORAGE_PUBLIC_URL || 'http://localhost:9000/vehicle-images').replace(/\/$/, ''),
+};
+
+export const storageClient = new Client({
+  endPoint: storageConfig.endPoint,
+  port: storageConfig.port,
+  useSSL: storageConfig.useSSL,
+  accessKey: storageConfig.accessKey,
+  secretKey: storageConfig.secretKey,
+});
+
+// Creates the bucket on first start and lets anyone read it, since listing photos
+// are public
+export const ensureStorageBucket = async (): Promise<void> => {
+  const { bucket } = storageConfig;
+
+  if (await storageClient.bucketExists(bucket)) {
+    return;
+  }
+
+  await storageClient.makeBucket(bucket);
+  await storageClient.setBucketPolicy(
+    bucket,
+    JSON.stringify({
+      Version: '2012-10-17',
+      Statement: [
+        { Effect: 'Allow', Principal: { AWS: ['*'] }, Action: ['s3:GetObject'], Resource: [`arn:aws:s3:::${bucket}/*`] },
+      ],
+    })
+  );
+};
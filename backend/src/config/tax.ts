@@ -0,0 +1,15 @@
+import { envNumber } from './env';
+
+// Fiscal parameters for Ecuador. Rates are percentages and can be overridden per
+// environment when the SRI changes them.
+export const taxConfig = {
+  currency: 'USD',
+  // IVA charged on the platform fee
+  ivaRate: envNumber('TAX_IVA_RATE', 15),
+  // Withholdings applied by sellers registered with a RUC
+  withholdingEnabled: process.env.TAX_WITHHOLDING_ENABLED !== 'false',
+  // Share of the IVA withheld (retención de IVA on services)
+  ivaWithholdingRate: envNumber('TAX_IVA_WITHHOLDING_RATE', 70),
+  // Share of the fee withheld as income tax (retención en la fuente)
+  incomeTaxWithholdingRate: envNumber('TAX_INCOME_WITHHOLDING_RATE', 2.75),
+};
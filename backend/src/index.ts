@@ -30,12 +30,18 @@ import { userRoutes } from './routes/user.routes';
 import { vehicleRoutes } from './routes/vehicle.routes';
 import { transactionRoutes } from './routes/transaction.routes';
 import { commissionRoutes } from './routes/commission.routes';
+import { offerRoutes } from './routes/offer.routes';
+import { conversationRoutes } from './routes/conversation.routes';
+import { savedSearchRoutes } from './routes/savedSearch.routes';
+import { paymentWebhookRoutes } from './routes/payment.routes';
 import { searchRoutes } from './routes/search.routes';
+import { feedRoutes } from './routes/feed.routes';
+import { moderationRoutes } from './routes/moderation.routes';
 import { uploadRoutes } from './routes/upload.routes';
 import { healthRoutes } from './routes/health.routes';
 
 // Import services
-import { initializeServices } from './services';
+import { initializeServices, stopServices } from './services';
 import { swaggerSpec } from './config/swagger';
 
 // Create Express app
@@ -68,6 +74,13 @@ app.use(cors({
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
 }));
 
+// Payment webhooks need the untouched body to verify signatures, so they go before the JSON parser
+app.use(
+  `${process.env.API_PREFIX || '/api/v1'}/payments/webhooks`,
+  express.raw({ type: 'application/json', limit: '1mb' }),
+  paymentWebhookRoutes
+);
+
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -105,12 +118,17 @@ const apiPrefix = process.env.API_PREFIX || '/api/v1';
 // Public routes
 app.use(`${apiPrefix}/auth`, authRoutes);
 app.use(`${apiPrefix}/search`, searchRoutes);
+app.use(`${apiPrefix}/feed`, feedRoutes); // Personalized when signed in
 
 // Protected routes
 app.use(`${apiPrefix}/users`, authMiddleware, userRoutes);
 app.use(`${apiPrefix}/vehicles`, vehicleRoutes); // Mixed auth - some endpoints public
 app.use(`${apiPrefix}/transactions`, authMiddleware, transactionRoutes);
 app.use(`${apiPrefix}/commissions`, authMiddleware, commissionRoutes);
+app.use(`${apiPrefix}/offers`, authMiddleware, offerRoutes);
+app.use(`${apiPrefix}/conversations`, authMiddleware, conversationRoutes);
+app.use(`${apiPrefix}/saved-searches`, authMiddleware, savedSearchRoutes);
+app.use(`${apiPrefix}/moderation`, authMiddleware, moderationRoutes); // Admins only
 app.use(`${apiPrefix}/upload`, authMiddleware, uploadRoutes);
 
 // Socket.IO setup for real-time features
@@ -153,6 +171,9 @@ const gracefulShutdown = async (signal: string) => {
     logger.info('HTTP server closed');
   });
 
+  // Stop background jobs before their connections go away
+  stopServices();
+
   // Close database connections
   try {
     await dbConfig.destroy();
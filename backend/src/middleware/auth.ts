@@ -4,9 +4,14 @@ import { User } from '../models/User';
 import { UnauthorizedError, ForbiddenError } from './errorHandler';
 import { cache, cacheKeys } from '../config/redis';
 
-// Extend Express Request interface
+// Extend Express Request interface. Inside the namespace `User` is passport's empty
+// Express.User, so it is widened to the model.
+type UserModel = User;
+
 declare global {
   namespace Express {
+    interface User extends UserModel {}
+
     interface Request {
       user?: User;
       token?: string;
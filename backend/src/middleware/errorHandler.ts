@@ -24,6 +24,12 @@ export class BadRequestError extends AppError {
   }
 }
 
+export class PaymentError extends AppError {
+  constructor(message: string = 'Payment failed', code?: string) {
+    super(message, 402, true, { code });
+  }
+}
+
 export class UnauthorizedError extends AppError {
   constructor(message: string = 'Unauthorized') {
     super(message, 401, true);
@@ -48,6 +54,12 @@ export class ConflictError extends AppError {
   }
 }
 
+export class InvalidStateTransitionError extends AppError {
+  constructor(entity: string, from: string, to: string) {
+    super(`Cannot move ${entity} from '${from}' to '${to}'`, 409, true, { entity, from, to });
+  }
+}
+
 export class ValidationErrorClass extends AppError {
   constructor(message: string = 'Validation failed', details?: any) {
     super(message, 422, true, details);
@@ -65,7 +77,8 @@ export const errorHandler = (
   err: Error | AppError,
   req: Request,
   res: Response,
-  next: NextFunction
+  // Express tells error handlers apart by their four parameters
+  _next: NextFunction
 ): void => {
   // Log error
   logger.error('Error occurred:', {
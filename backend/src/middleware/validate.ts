@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { ValidationChain, validationResult } from 'express-validator';
+import { ValidationErrorClass } from './errorHandler';
+
+// Runs express-validator chains and rejects the request with a 422 listing every failed field
+export const validate = (chains: ValidationChain[]) => {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    await Promise.all(chains.map((chain) => chain.run(req)));
+
+    const result = validationResult(req);
+
+    if (!result.isEmpty()) {
+      return next(
+        new ValidationErrorClass(
+          'Validation failed',
+          result.array().map((error) => ({
+            field: error.type === 'field' ? error.path : error.type,
+            message: error.msg,
+          }))
+        )
+      );
+    }
+
+    next();
+  };
+};
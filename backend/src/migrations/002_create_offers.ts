@@ -0,0 +1,43 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`
+    CREATE TYPE offer_status AS ENUM ('pending', 'countered', 'accepted', 'rejected', 'expired', 'withdrawn');
+  `);
+
+  // Offers and counter-offers on negotiable vehicles
+  await knex.schema.createTable('offers', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('vehicle_id').notNullable().references('id').inTable('vehicles').onDelete('CASCADE');
+    table.uuid('buyer_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('seller_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('conversation_id').references('id').inTable('conversations').onDelete('SET NULL');
+    table.uuid('parent_offer_id').references('id').inTable('offers').onDelete('SET NULL');
+    table.uuid('proposed_by').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.decimal('amount', 12, 2).notNullable();
+    table.text('message');
+    table.enum('status', null, { useNative: true, enumName: 'offer_status' }).defaultTo('pending');
+    table.timestamp('expires_at', { useTz: true }).notNullable();
+    table.timestamp('responded_at', { useTz: true });
+    table.uuid('transaction_id').references('id').inTable('transactions');
+    table.timestamps(true, true);
+
+    table.index('vehicle_id');
+    table.index('buyer_id');
+    table.index('seller_id');
+    table.index('conversation_id');
+    table.index('parent_offer_id');
+    table.index(['status', 'expires_at']);
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_offers_updated_at
+    BEFORE UPDATE ON offers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('offers');
+  await knex.raw('DROP TYPE IF EXISTS offer_status');
+}
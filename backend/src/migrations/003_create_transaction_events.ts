@@ -0,0 +1,27 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Status transition history of transactions
+  await knex.schema.createTable('transaction_events', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('transaction_id').notNullable().references('id').inTable('transactions').onDelete('CASCADE');
+    table.enum('from_status', null, { useNative: true, enumName: 'transaction_status', existingType: true });
+    table.enum('to_status', null, { useNative: true, enumName: 'transaction_status', existingType: true }).notNullable();
+    table.uuid('actor_id').references('id').inTable('users').onDelete('SET NULL');
+    table.text('reason');
+    table.jsonb('metadata').defaultTo('{}');
+    table.timestamps(true, true);
+
+    table.index(['transaction_id', 'created_at']);
+  });
+
+  // Existing transactions get a single event describing their current status
+  await knex.raw(`
+    INSERT INTO transaction_events (transaction_id, to_status, reason, created_at, updated_at)
+    SELECT id, status, 'backfill', created_at, created_at FROM transactions
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('transaction_events');
+}
@@ -0,0 +1,50 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`CREATE TYPE clawback_status AS ENUM ('pending', 'recovered')`);
+
+  // Refund data lives next to the original amounts, which are never rewritten
+  await knex.schema.alterTable('transactions', (table) => {
+    table.decimal('refunded_amount', 12, 2).notNullable().defaultTo(0);
+    table.timestamp('refunded_at', { useTz: true });
+    table.text('refund_reason');
+  });
+
+  await knex.schema.alterTable('commissions', (table) => {
+    table.uuid('reversal_of_id').references('id').inTable('commissions');
+    table.decimal('clawback_amount', 10, 2);
+    table.enum('clawback_status', null, { useNative: true, enumName: 'clawback_status', existingType: true });
+    table.text('clawback_reason');
+    // Commissions are patched (payments, clawbacks) through BaseModel, which maintains updated_at
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.index('reversal_of_id');
+    table.index('clawback_status');
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_commissions_updated_at
+    BEFORE UPDATE ON commissions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP TRIGGER IF EXISTS update_commissions_updated_at ON commissions');
+
+  await knex.schema.alterTable('commissions', (table) => {
+    table.dropColumn('updated_at');
+    table.dropColumn('clawback_reason');
+    table.dropColumn('clawback_status');
+    table.dropColumn('clawback_amount');
+    table.dropColumn('reversal_of_id');
+  });
+
+  await knex.schema.alterTable('transactions', (table) => {
+    table.dropColumn('refund_reason');
+    table.dropColumn('refunded_at');
+    table.dropColumn('refunded_amount');
+  });
+
+  await knex.raw('DROP TYPE IF EXISTS clawback_status');
+}
@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`CREATE TYPE escrow_status AS ENUM ('held', 'released', 'voided', 'refunded')`);
+
+  await knex.schema.alterTable('transactions', (table) => {
+    table.string('payment_provider', 50);
+    table.enum('escrow_status', null, { useNative: true, enumName: 'escrow_status', existingType: true });
+    table.timestamp('escrow_held_at', { useTz: true });
+    table.timestamp('escrow_released_at', { useTz: true });
+
+    table.index(['payment_provider', 'payment_reference']);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions', (table) => {
+    table.dropIndex(['payment_provider', 'payment_reference']);
+    table.dropColumn('escrow_released_at');
+    table.dropColumn('escrow_held_at');
+    table.dropColumn('escrow_status');
+    table.dropColumn('payment_provider');
+  });
+
+  await knex.raw('DROP TYPE IF EXISTS escrow_status');
+}
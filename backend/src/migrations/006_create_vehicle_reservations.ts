@@ -0,0 +1,58 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`CREATE TYPE reservation_status AS ENUM ('active', 'released', 'expired', 'converted')`);
+
+  // Time-boxed holds on a vehicle, swept back to available once they expire
+  await knex.schema.createTable('vehicle_reservations', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('vehicle_id').notNullable().references('id').inTable('vehicles').onDelete('CASCADE');
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.uuid('transaction_id').references('id').inTable('transactions').onDelete('SET NULL');
+    table.decimal('deposit_amount', 12, 2).notNullable().defaultTo(0);
+    table.enum('status', null, { useNative: true, enumName: 'reservation_status', existingType: true }).defaultTo('active');
+    table.timestamp('expires_at', { useTz: true }).notNullable();
+    table.timestamp('released_at', { useTz: true });
+    table.text('release_reason');
+    table.timestamps(true, true);
+
+    table.index('user_id');
+    table.index('transaction_id');
+    table.index(['status', 'expires_at']);
+  });
+
+  // At most one active hold per vehicle
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_vehicle_reservations_active
+    ON vehicle_reservations(vehicle_id)
+    WHERE status = 'active';
+  `);
+
+  await knex.raw(`
+    CREATE TRIGGER update_vehicle_reservations_updated_at
+    BEFORE UPDATE ON vehicle_reservations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+
+  // Notifications are now written (and marked as read) through BaseModel, which maintains updated_at
+  await knex.schema.alterTable('notifications', (table) => {
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_notifications_updated_at
+    BEFORE UPDATE ON notifications
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP TRIGGER IF EXISTS update_notifications_updated_at ON notifications');
+
+  await knex.schema.alterTable('notifications', (table) => {
+    table.dropColumn('updated_at');
+  });
+
+  await knex.schema.dropTableIfExists('vehicle_reservations');
+  await knex.raw('DROP TYPE IF EXISTS reservation_status');
+}
@@ -0,0 +1,43 @@
+import { Knex } from 'knex';
+
+// ALTER TYPE ... ADD VALUE cannot run inside a transaction block (before PostgreSQL 12),
+// so knex must not wrap this migration in one; the table changes get their own below
+export const config = { transaction: false };
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`ALTER TYPE commission_type ADD VALUE IF NOT EXISTS 'tiered'`);
+
+  // Extra match conditions, validity window and marginal bands for commission rules
+  await knex.transaction(async (trx) => {
+    await trx.schema.alterTable('commission_settings', (table) => {
+      table.uuid('brand_id').references('id').inTable('brands').onDelete('CASCADE');
+      table.string('location_province', 100);
+      table.enum('vehicle_condition', null, { useNative: true, enumName: 'vehicle_condition', existingType: true });
+      table.integer('min_seller_tenure_days');
+      table.integer('max_seller_tenure_days');
+      table.timestamp('valid_from', { useTz: true });
+      table.timestamp('valid_to', { useTz: true });
+      table.jsonb('tiers');
+
+      table.index(['is_active', 'priority']);
+    });
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.transaction(async (trx) => {
+    await trx.schema.alterTable('commission_settings', (table) => {
+      table.dropIndex(['is_active', 'priority']);
+      table.dropColumn('tiers');
+      table.dropColumn('valid_to');
+      table.dropColumn('valid_from');
+      table.dropColumn('max_seller_tenure_days');
+      table.dropColumn('min_seller_tenure_days');
+      table.dropColumn('vehicle_condition');
+      table.dropColumn('location_province');
+      table.dropColumn('brand_id');
+    });
+  });
+
+  // Postgres cannot drop a value from an enum; 'tiered' stays on commission_type
+}
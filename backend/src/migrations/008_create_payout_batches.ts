@@ -0,0 +1,48 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`CREATE TYPE payout_batch_status AS ENUM ('open', 'paid', 'cancelled')`);
+
+  // Commissions settled together for one seller and period
+  await knex.schema.createTable('payout_batches', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.string('reference', 50).notNullable().unique();
+    table.uuid('seller_id').notNullable().references('id').inTable('users');
+    table.date('period_start').notNullable();
+    table.date('period_end').notNullable();
+    table.enum('status', null, { useNative: true, enumName: 'payout_batch_status', existingType: true }).defaultTo('open');
+    table.integer('commission_count').notNullable().defaultTo(0);
+    table.decimal('total_sales', 14, 2).notNullable().defaultTo(0);
+    table.decimal('total_amount', 12, 2).notNullable().defaultTo(0);
+    table.string('bank_reference', 255);
+    table.timestamp('paid_at', { useTz: true });
+    table.timestamp('reconciled_at', { useTz: true });
+    table.uuid('created_by').references('id').inTable('users').onDelete('SET NULL');
+    table.timestamps(true, true);
+
+    table.index('seller_id');
+    table.index('status');
+    table.index(['period_start', 'period_end']);
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_payout_batches_updated_at
+    BEFORE UPDATE ON payout_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+
+  await knex.schema.alterTable('commissions', (table) => {
+    table.uuid('payout_batch_id').references('id').inTable('payout_batches').onDelete('SET NULL');
+
+    table.index('payout_batch_id');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('commissions', (table) => {
+    table.dropColumn('payout_batch_id');
+  });
+
+  await knex.schema.dropTableIfExists('payout_batches');
+  await knex.raw('DROP TYPE IF EXISTS payout_batch_status');
+}
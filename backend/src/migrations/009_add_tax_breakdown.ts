@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // IVA on the platform fee and the withholdings applied by the seller
+  await knex.schema.alterTable('transactions', (table) => {
+    table.decimal('commission_tax_amount', 10, 2).notNullable().defaultTo(0);
+    table.decimal('withholding_amount', 10, 2).notNullable().defaultTo(0);
+    table.jsonb('tax_breakdown');
+  });
+
+  await knex.schema.alterTable('commissions', (table) => {
+    table.decimal('tax_amount', 10, 2).notNullable().defaultTo(0);
+    table.decimal('withholding_amount', 10, 2).notNullable().defaultTo(0);
+    table.jsonb('tax_breakdown');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('commissions', (table) => {
+    table.dropColumn('tax_breakdown');
+    table.dropColumn('withholding_amount');
+    table.dropColumn('tax_amount');
+  });
+
+  await knex.schema.alterTable('transactions', (table) => {
+    table.dropColumn('tax_breakdown');
+    table.dropColumn('withholding_amount');
+    table.dropColumn('commission_tax_amount');
+  });
+}
@@ -0,0 +1,57 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`CREATE TYPE invoice_status AS ENUM ('generated', 'signed', 'in_process', 'authorized', 'rejected')`);
+
+  // Last sequential issued per establishment, emission point and document type
+  await knex.schema.createTable('invoice_sequences', (table) => {
+    table.string('establishment', 3).notNullable();
+    table.string('emission_point', 3).notNullable();
+    table.string('document_type', 2).notNullable();
+    table.integer('last_value').notNullable().defaultTo(0);
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+
+    table.primary(['establishment', 'emission_point', 'document_type']);
+  });
+
+  // SRI electronic invoices for the platform fee charged on each sale
+  await knex.schema.createTable('electronic_invoices', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('commission_id').notNullable().unique().references('id').inTable('commissions');
+    table.uuid('transaction_id').notNullable().references('id').inTable('transactions');
+    table.uuid('customer_id').notNullable().references('id').inTable('users');
+    table.specificType('environment', 'CHAR(1)').notNullable();
+    table.specificType('establishment', 'CHAR(3)').notNullable();
+    table.specificType('emission_point', 'CHAR(3)').notNullable();
+    table.specificType('sequential', 'CHAR(9)').notNullable();
+    table.string('access_key', 49).notNullable().unique();
+    table.timestamp('issue_date', { useTz: true }).notNullable();
+    table.decimal('subtotal', 12, 2).notNullable();
+    table.decimal('tax_amount', 12, 2).notNullable().defaultTo(0);
+    table.decimal('total', 12, 2).notNullable();
+    table.enum('status', null, { useNative: true, enumName: 'invoice_status', existingType: true }).defaultTo('generated');
+    table.text('xml').notNullable();
+    table.text('signed_xml');
+    table.string('authorization_number', 49);
+    table.timestamp('authorized_at', { useTz: true });
+    table.jsonb('messages').notNullable().defaultTo('[]');
+    table.timestamps(true, true);
+
+    table.unique(['establishment', 'emission_point', 'sequential']);
+    table.index('transaction_id');
+    table.index('customer_id');
+    table.index('status');
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_electronic_invoices_updated_at
+    BEFORE UPDATE ON electronic_invoices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('electronic_invoices');
+  await knex.schema.dropTableIfExists('invoice_sequences');
+  await knex.raw('DROP TYPE IF EXISTS invoice_status');
+}
@@ -0,0 +1,93 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw('CREATE EXTENSION IF NOT EXISTS "unaccent"');
+
+  // Spanish stemming on accent-stripped words, so "automático" matches "automatico"
+  await knex.raw(`
+    CREATE TEXT SEARCH CONFIGURATION es_unaccent (COPY = spanish);
+    ALTER TEXT SEARCH CONFIGURATION es_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+  `);
+
+  // Weighted search document: title (A), brand and model names (B), description (C).
+  // Brand and model names live in other tables, which a generated column cannot
+  // read, so the column is kept up to date by triggers instead.
+  await knex.raw(`
+    CREATE FUNCTION vehicle_search_document(p_title TEXT, p_description TEXT, p_brand_id UUID, p_model_id UUID)
+    RETURNS tsvector AS $$
+      SELECT setweight(to_tsvector('es_unaccent', COALESCE(p_title, '')), 'A')
+        || setweight(to_tsvector('es_unaccent',
+             COALESCE((SELECT name FROM brands WHERE id = p_brand_id), '') || ' ' ||
+             COALESCE((SELECT name FROM models WHERE id = p_model_id), '')), 'B')
+        || setweight(to_tsvector('es_unaccent', COALESCE(p_description, '')), 'C');
+    $$ LANGUAGE sql STABLE;
+
+    CREATE FUNCTION update_vehicle_search_vector()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.search_vector = vehicle_search_document(NEW.title, NEW.description, NEW.brand_id, NEW.model_id);
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    CREATE FUNCTION refresh_vehicle_search_vectors()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_TABLE_NAME = 'brands' THEN
+        UPDATE vehicles SET search_vector = vehicle_search_document(title, description, brand_id, model_id)
+        WHERE brand_id = NEW.id;
+      ELSE
+        UPDATE vehicles SET search_vector = vehicle_search_document(title, description, brand_id, model_id)
+        WHERE model_id = NEW.id;
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+  `);
+
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.specificType('search_vector', 'tsvector');
+  });
+
+  await knex.raw(`
+    UPDATE vehicles SET search_vector = vehicle_search_document(title, description, brand_id, model_id);
+
+    CREATE TRIGGER update_vehicles_search_vector
+    BEFORE INSERT OR UPDATE OF title, description, brand_id, model_id ON vehicles
+    FOR EACH ROW EXECUTE FUNCTION update_vehicle_search_vector();
+
+    CREATE TRIGGER refresh_brand_vehicle_search_vectors
+    AFTER UPDATE OF name ON brands
+    FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name)
+    EXECUTE FUNCTION refresh_vehicle_search_vectors();
+
+    CREATE TRIGGER refresh_model_vehicle_search_vectors
+    AFTER UPDATE OF name ON models
+    FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name)
+    EXECUTE FUNCTION refresh_vehicle_search_vectors();
+
+    DROP INDEX IF EXISTS idx_vehicles_search;
+    CREATE INDEX idx_vehicles_search ON vehicles USING gin(search_vector);
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    DROP TRIGGER IF EXISTS refresh_model_vehicle_search_vectors ON models;
+    DROP TRIGGER IF EXISTS refresh_brand_vehicle_search_vectors ON brands;
+    DROP TRIGGER IF EXISTS update_vehicles_search_vector ON vehicles;
+    DROP INDEX IF EXISTS idx_vehicles_search;
+  `);
+
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.dropColumn('search_vector');
+  });
+
+  await knex.raw(`
+    DROP FUNCTION IF EXISTS refresh_vehicle_search_vectors();
+    DROP FUNCTION IF EXISTS update_vehicle_search_vector();
+    DROP FUNCTION IF EXISTS vehicle_search_document(TEXT, TEXT, UUID, UUID);
+    DROP TEXT SEARCH CONFIGURATION IF EXISTS es_unaccent;
+  `);
+}
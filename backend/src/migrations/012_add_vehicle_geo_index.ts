@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Bounding-box prefilter for radius searches (see Vehicle.search)
+  await knex.raw(`
+    CREATE INDEX idx_vehicles_geo ON vehicles
+    USING gist (point(location_lng::float8, location_lat::float8))
+    WHERE location_lat IS NOT NULL AND location_lng IS NOT NULL
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP INDEX IF EXISTS idx_vehicles_geo');
+}
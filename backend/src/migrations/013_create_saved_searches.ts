@@ -0,0 +1,89 @@
+import { Knex } from 'knex';
+
+// Keys of Vehicle.search() filters at the time of this migration
+const SEARCH_FILTER_KEYS = [
+  'q', 'lat', 'lng', 'radius_km', 'brand_id', 'model_id', 'year_min', 'year_max', 'price_min', 'price_max',
+  'mileage_max', 'condition', 'transmission', 'fuel_type', 'drivetrain', 'color', 'city', 'province',
+];
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`CREATE TYPE alert_frequency AS ENUM ('instant', 'daily', 'weekly')`);
+
+  // Named vehicle searches with new-match alerts
+  await knex.schema.createTable('saved_searches', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+    table.string('name', 100).notNullable();
+    table.jsonb('filters').notNullable().defaultTo('{}');
+    table.enum('alert_frequency', null, { useNative: true, enumName: 'alert_frequency', existingType: true })
+      .notNullable()
+      .defaultTo('daily');
+    table.boolean('alerts_enabled').notNullable().defaultTo(true);
+    table.timestamp('last_notified_at', { useTz: true });
+    table.timestamps(true, true);
+
+    table.index('user_id');
+    table.index(['alerts_enabled', 'alert_frequency']);
+  });
+
+  // Vehicles that matched a saved search; notified_at stays empty until an alert covers it
+  await knex.schema.createTable('saved_search_matches', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('saved_search_id').notNullable().references('id').inTable('saved_searches').onDelete('CASCADE');
+    table.uuid('vehicle_id').notNullable().references('id').inTable('vehicles').onDelete('CASCADE');
+    table.timestamp('notified_at', { useTz: true });
+    table.timestamps(true, true);
+
+    table.unique(['saved_search_id', 'vehicle_id']);
+    table.index('vehicle_id');
+  });
+
+  await knex.raw(`
+    CREATE INDEX idx_saved_search_matches_pending ON saved_search_matches(saved_search_id) WHERE notified_at IS NULL;
+
+    CREATE TRIGGER update_saved_searches_updated_at
+    BEFORE UPDATE ON saved_searches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+    CREATE TRIGGER update_saved_search_matches_updated_at
+    BEFORE UPDATE ON saved_search_matches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+
+  // Move the filters kept in user_profiles.preferences.search.savedFilters. They never
+  // sent alerts, so they arrive with alerts turned off.
+  await knex.raw(
+    `
+    INSERT INTO saved_searches (user_id, name, filters, alerts_enabled)
+    SELECT
+      p.user_id,
+      LEFT(COALESCE(NULLIF(f->>'name', ''), 'Búsqueda guardada'), 100),
+      COALESCE(
+        (SELECT jsonb_object_agg(e.key, e.value)
+         FROM jsonb_each(CASE WHEN jsonb_typeof(f->'filters') = 'object' THEN f->'filters' ELSE f END) e
+         WHERE e.key = ANY(?::text[])),
+        '{}'
+      ),
+      FALSE
+    FROM user_profiles p
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE WHEN jsonb_typeof(p.preferences->'search'->'savedFilters') = 'array'
+        THEN p.preferences->'search'->'savedFilters' ELSE '[]'::jsonb END
+    ) f
+    WHERE jsonb_typeof(f) = 'object'
+    `,
+    [SEARCH_FILTER_KEYS]
+  );
+
+  await knex.raw(`
+    UPDATE user_profiles
+    SET preferences = preferences #- '{search,savedFilters}'
+    WHERE preferences->'search'->'savedFilters' IS NOT NULL
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTableIfExists('saved_search_matches');
+  await knex.schema.dropTableIfExists('saved_searches');
+  await knex.raw('DROP TYPE IF EXISTS alert_frequency');
+}
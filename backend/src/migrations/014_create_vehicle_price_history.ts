@@ -0,0 +1,50 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // One row per asking price a listing has had; old_price is empty for the first one
+  await knex.schema.createTable('vehicle_price_history', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('uuid_generate_v4()'));
+    table.uuid('vehicle_id').notNullable().references('id').inTable('vehicles').onDelete('CASCADE');
+    table.decimal('old_price', 12, 2);
+    table.decimal('new_price', 12, 2).notNullable();
+    table.timestamps(true, true);
+
+    table.index(['vehicle_id', 'created_at']);
+  });
+
+  // Recorded by the database so that every write path is covered, not only the ORM
+  await knex.raw(`
+    CREATE FUNCTION record_vehicle_price_change()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'INSERT' THEN
+        INSERT INTO vehicle_price_history (vehicle_id, old_price, new_price)
+        VALUES (NEW.id, NULL, NEW.price);
+      ELSIF OLD.price IS DISTINCT FROM NEW.price THEN
+        INSERT INTO vehicle_price_history (vehicle_id, old_price, new_price)
+        VALUES (NEW.id, OLD.price, NEW.price);
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    INSERT INTO vehicle_price_history (vehicle_id, old_price, new_price, created_at, updated_at)
+    SELECT id, NULL, price, created_at, created_at FROM vehicles;
+
+    CREATE TRIGGER record_vehicles_price_history
+    AFTER INSERT OR UPDATE OF price ON vehicles
+    FOR EACH ROW EXECUTE FUNCTION record_vehicle_price_change();
+
+    CREATE TRIGGER update_vehicle_price_history_updated_at
+    BEFORE UPDATE ON vehicle_price_history
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    DROP TRIGGER IF EXISTS record_vehicles_price_history ON vehicles;
+    DROP FUNCTION IF EXISTS record_vehicle_price_change();
+  `);
+  await knex.schema.dropTableIfExists('vehicle_price_history');
+}
@@ -0,0 +1,27 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // unaccent() is only STABLE, so it cannot appear in an index expression. This
+  // wrapper pins the dictionary, which makes it safe to declare IMMUTABLE.
+  await knex.raw(`
+    CREATE FUNCTION search_normalize(value TEXT)
+    RETURNS TEXT AS $$
+      SELECT lower(public.unaccent('public.unaccent'::regdictionary, value));
+    $$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+  `);
+
+  // Trigram indexes for typo-tolerant autocomplete (see services/searchSuggestions).
+  // Brands and models are small enough to scan.
+  await knex.raw(`
+    CREATE INDEX idx_vehicles_title_trgm ON vehicles USING gin(search_normalize(title) gin_trgm_ops);
+    CREATE INDEX idx_search_history_query_trgm ON search_history USING gin(search_normalize(search_query) gin_trgm_ops);
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    DROP INDEX IF EXISTS idx_search_history_query_trgm;
+    DROP INDEX IF EXISTS idx_vehicles_title_trgm;
+    DROP FUNCTION IF EXISTS search_normalize(TEXT);
+  `);
+}
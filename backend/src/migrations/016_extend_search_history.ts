@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('search_history', (table) => {
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  // Zero-result searches are the catalogue gaps shown to admins
+  await knex.raw(`
+    CREATE INDEX idx_search_history_zero_results ON search_history(created_at) WHERE results_count = 0;
+
+    CREATE TRIGGER update_search_history_updated_at
+    BEFORE UPDATE ON search_history
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    DROP TRIGGER IF EXISTS update_search_history_updated_at ON search_history;
+    DROP INDEX IF EXISTS idx_search_history_zero_results;
+  `);
+  await knex.schema.alterTable('search_history', (table) => {
+    table.dropColumn('updated_at');
+  });
+}
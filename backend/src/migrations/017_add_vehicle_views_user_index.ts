@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Per-user view history feeds the personalized home feed
+  await knex.raw(`
+    CREATE INDEX idx_vehicle_views_user ON vehicle_views(user_id, viewed_at) WHERE user_id IS NOT NULL;
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    DROP INDEX IF EXISTS idx_vehicle_views_user;
+  `);
+}
@@ -0,0 +1,55 @@
+import { Knex } from 'knex';
+
+// Listing lifetime (LISTING_TTL_DAYS default) at the time of this migration
+const LISTING_TTL_DAYS = 60;
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(`CREATE TYPE listing_status AS ENUM ('draft', 'pending_review', 'scheduled', 'published', 'rejected')`);
+
+  // Editorial state of a listing, next to the sale state kept in `status`
+  await knex.schema.alterTable('vehicles', (table) => {
+    table
+      .enum('listing_status', null, { useNative: true, enumName: 'listing_status', existingType: true })
+      .notNullable()
+      .defaultTo('draft');
+    table.timestamp('submitted_at', { useTz: true });
+    table.timestamp('reviewed_at', { useTz: true });
+    table.uuid('reviewed_by').references('id').inTable('users').onDelete('SET NULL');
+    table.text('moderation_notes');
+    table.timestamp('scheduled_publish_at', { useTz: true });
+    table.timestamp('expires_at', { useTz: true });
+  });
+
+  // Listings already live count as published; they get a full period before they
+  // expire rather than expiring on the first sweep
+  await knex.raw(
+    `UPDATE vehicles
+    SET listing_status = 'published', expires_at = CURRENT_TIMESTAMP + make_interval(days => ?)
+    WHERE published_at IS NOT NULL`,
+    [LISTING_TTL_DAYS]
+  );
+
+  await knex.raw(`
+    CREATE INDEX idx_vehicles_moderation_queue ON vehicles(submitted_at) WHERE listing_status = 'pending_review';
+    CREATE INDEX idx_vehicles_scheduled ON vehicles(scheduled_publish_at) WHERE listing_status = 'scheduled';
+    CREATE INDEX idx_vehicles_expiry ON vehicles(expires_at) WHERE listing_status = 'published' AND status = 'available';
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    DROP INDEX IF EXISTS idx_vehicles_expiry;
+    DROP INDEX IF EXISTS idx_vehicles_scheduled;
+    DROP INDEX IF EXISTS idx_vehicles_moderation_queue;
+  `);
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.dropColumn('expires_at');
+    table.dropColumn('scheduled_publish_at');
+    table.dropColumn('moderation_notes');
+    table.dropColumn('reviewed_by');
+    table.dropColumn('reviewed_at');
+    table.dropColumn('submitted_at');
+    table.dropColumn('listing_status');
+  });
+  await knex.raw('DROP TYPE IF EXISTS listing_status');
+}
@@ -0,0 +1,40 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Result of the automated checks run when a listing is submitted
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.integer('quality_score');
+    table.jsonb('quality_flags').notNullable().defaultTo('[]');
+    table.timestamp('quality_checked_at', { useTz: true });
+  });
+
+  // A car is legitimately listed again by its next owner, so the VIN can no longer be
+  // unique; the quality checks flag a VIN that is live under another seller instead.
+  // The lookups below compare normalized values and must match these expressions.
+  await knex.raw(`
+    ALTER TABLE vehicles DROP CONSTRAINT IF EXISTS vehicles_vin_unique;
+    ALTER TABLE vehicles DROP CONSTRAINT IF EXISTS vehicles_vin_key;
+
+    CREATE INDEX idx_vehicles_vin ON vehicles(upper(vin)) WHERE vin IS NOT NULL;
+    CREATE INDEX idx_vehicles_license_plate ON vehicles(regexp_replace(upper(license_plate), '[^A-Z0-9]', '', 'g'))
+      WHERE license_plate IS NOT NULL;
+    CREATE INDEX idx_vehicles_description_hash ON vehicles(md5(lower(regexp_replace(description, '\\s+', ' ', 'g'))))
+      WHERE description IS NOT NULL;
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(`
+    DROP INDEX IF EXISTS idx_vehicles_description_hash;
+    DROP INDEX IF EXISTS idx_vehicles_license_plate;
+    DROP INDEX IF EXISTS idx_vehicles_vin;
+  `);
+  // Relisted cars may share a VIN by now, so the unique constraint is not restored; a
+  // plain index keeps the VIN lookups fast
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.index(['vin']);
+    table.dropColumn('quality_checked_at');
+    table.dropColumn('quality_flags');
+    table.dropColumn('quality_score');
+  });
+}
@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // ISO 3166 code of the country the car was built in, decoded from the VIN when known
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.specificType('manufacture_country', 'CHAR(2)');
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.dropColumn('manufacture_country');
+  });
+}
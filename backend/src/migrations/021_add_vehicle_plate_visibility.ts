@@ -0,0 +1,14 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Public listings show the plate masked (P**-***4) unless the seller opts in
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.boolean('show_license_plate').notNullable().defaultTo(false);
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('vehicles', (table) => {
+    table.dropColumn('show_license_plate');
+  });
+}
@@ -0,0 +1,33 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Output of the upload pipeline: the generated sizes and formats, the placeholder
+  // shown while they load and the perceptual hash used to spot duplicate photos.
+  // updated_at was missing and BaseModel writes it on insert.
+  await knex.schema.alterTable('vehicle_images', (table) => {
+    table.integer('width');
+    table.integer('height');
+    table.jsonb('variants').notNullable().defaultTo('{}');
+    table.string('blurhash', 100);
+    table.specificType('phash', 'CHAR(16)');
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.raw(`
+    CREATE TRIGGER update_vehicle_images_updated_at
+    BEFORE UPDATE ON vehicle_images
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw('DROP TRIGGER IF EXISTS update_vehicle_images_updated_at ON vehicle_images');
+  await knex.schema.alterTable('vehicle_images', (table) => {
+    table.dropColumn('updated_at');
+    table.dropColumn('phash');
+    table.dropColumn('blurhash');
+    table.dropColumn('variants');
+    table.dropColumn('height');
+    table.dropColumn('width');
+  });
+}
@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  // Deposits are authorized at the payment processor while the hold lasts
+  await knex.schema.alterTable('vehicle_reservations', (table) => {
+    table.string('deposit_provider', 50);
+    table.string('deposit_reference', 255);
+    table.enum('deposit_status', null, { useNative: true, enumName: 'escrow_status', existingType: true });
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('vehicle_reservations', (table) => {
+    table.dropColumn('deposit_status');
+    table.dropColumn('deposit_reference');
+    table.dropColumn('deposit_provider');
+  });
+}
@@ -0,0 +1,32 @@
+import { Knex } from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('payout_batches', (table) => {
+    table.decimal('total_tax_amount', 12, 2).notNullable().defaultTo(0);
+    table.decimal('total_withholding_amount', 12, 2).notNullable().defaultTo(0);
+    table.decimal('total_payable', 12, 2).notNullable().defaultTo(0);
+  });
+
+  // Existing batches take their taxes from the commissions they group
+  await knex.raw(`
+    UPDATE payout_batches pb
+    SET total_tax_amount = totals.tax_amount,
+        total_withholding_amount = totals.withholding_amount,
+        total_payable = pb.total_amount + totals.tax_amount - totals.withholding_amount
+    FROM (
+      SELECT payout_batch_id, SUM(tax_amount) AS tax_amount, SUM(withholding_amount) AS withholding_amount
+      FROM commissions
+      WHERE payout_batch_id IS NOT NULL
+      GROUP BY payout_batch_id
+    ) totals
+    WHERE totals.payout_batch_id = pb.id
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('payout_batches', (table) => {
+    table.dropColumn('total_payable');
+    table.dropColumn('total_withholding_amount');
+    table.dropColumn('total_tax_amount');
+  });
+}
@@ -0,0 +1,26 @@
+import { Knex } from 'knex';
+
+// search_normalize() also collapses runs of whitespace and trims, like normalizeSearchText()
+// in utils/textSearch, so "toyota  hilux " groups with "toyota hilux". The expression
+// indexes built on it have to be rebuilt whenever its definition changes.
+const defineSearchNormalize = (body: string): string => `
+  CREATE OR REPLACE FUNCTION search_normalize(value TEXT)
+  RETURNS TEXT AS $$
+    SELECT ${body};
+  $$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+
+  REINDEX INDEX idx_vehicles_title_trgm;
+  REINDEX INDEX idx_search_history_query_trgm;
+`;
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.raw(
+    defineSearchNormalize(
+      `btrim(regexp_replace(lower(public.unaccent('public.unaccent'::regdictionary, value)), '\\s+', ' ', 'g'))`
+    )
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.raw(defineSearchNormalize(`lower(public.unaccent('public.unaccent'::regdictionary, value))`));
+}
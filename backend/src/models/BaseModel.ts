@@ -1,5 +1,7 @@
-import { Model, ModelOptions, QueryContext } from 'objection';
+import crypto from 'crypto';
+import { Constructor, Model, ModelOptions, QueryBuilderType, QueryContext, TransactionOrKnex, raw } from 'objection';
 import { v4 as uuidv4 } from 'uuid';
+import { BadRequestError } from '../middleware/errorHandler';
 
 export class BaseModel extends Model {
   id!: string;
@@ -41,8 +43,8 @@ export class BaseModel extends Model {
   }
 
   // Common query modifiers
-  static query(...args: any[]) {
-    return super.query(...args);
+  static query<M extends Model>(this: Constructor<M>, trxOrKnex?: TransactionOrKnex): QueryBuilderType<M> {
+    return super.query(trxOrKnex) as QueryBuilderType<M>;
   }
 
   // Soft delete support (if needed)
@@ -73,17 +75,91 @@ export interface PaginatedResult<T> {
   hasPreviousPage: boolean;
 }
 
-// Pagination helper
+// Order of a keyset-paginated query: a column or SQL expression, with the row id
+// breaking ties. Both go in the same direction. Nullable keys must be wrapped in
+// COALESCE, since a NULL never compares as greater or smaller than the cursor.
+export interface KeysetOrder {
+  key: string;
+  bindings?: any[];
+  id: string;
+  order: 'asc' | 'desc';
+}
+
+export interface CursorPaginationParams {
+  keyset: KeysetOrder;
+  // nextCursor of the previous page; empty for the first page
+  cursor?: string;
+  limit?: number;
+  // Adds the planner's row estimate, which is cheap, instead of an exact count(*)
+  estimateTotal?: boolean;
+}
+
+export interface CursorPaginatedResult<T> {
+  data: T[];
+  limit: number;
+  nextCursor: string | null;
+  hasNextPage: boolean;
+  estimatedTotal?: number;
+}
+
+// Sort value of each row, read back as text so that timestamps keep their
+// microseconds and floats round-trip exactly into the next page's condition
+const CURSOR_COLUMN = 'pagination_cursor';
+
+const clampLimit = (limit?: number): number => Math.min(100, Math.max(1, limit || 20));
+
+// Ties a cursor to the ordering it was issued for
+const keysetSignature = (keyset: KeysetOrder): string =>
+  crypto
+    .createHash('sha1')
+    .update(JSON.stringify([keyset.key, keyset.bindings || [], keyset.id, keyset.order]))
+    .digest('hex')
+    .slice(0, 8);
+
+const encodeCursor = (keyset: KeysetOrder, value: string, id: string): string =>
+  Buffer.from(JSON.stringify([keysetSignature(keyset), value, id])).toString('base64url');
+
+const decodeCursor = (keyset: KeysetOrder, cursor: string): [string, string] => {
+  try {
+    const [signature, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (signature === keysetSignature(keyset) && typeof value === 'string' && typeof id === 'string') {
+      return [value, id];
+    }
+  } catch (error) {
+    // Falls through to the error below
+  }
+
+  throw new BadRequestError('Invalid cursor; it does not belong to this listing or sort order');
+};
+
+// Row count estimated by the query planner for the query without paging
+export async function estimateCount(query: any): Promise<number> {
+  const { sql, bindings } = query.clone().clearSelect().clearOrder().select(raw('1')).toKnexQuery().toSQL();
+  const result = await query.modelClass().knex().raw(`EXPLAIN (FORMAT JSON) ${sql}`, bindings);
+
+  return Math.round(result.rows[0]['QUERY PLAN'][0].Plan['Plan Rows']);
+}
+
+// Pagination helper. Offset mode (page/limit) returns exact totals; keyset mode
+// (with `keyset`) follows opaque cursors, which stays fast on deep pages and does
+// not skip or repeat rows while new ones are being inserted.
+export async function paginate<T extends Model>(query: any, params: CursorPaginationParams): Promise<CursorPaginatedResult<T>>;
+export async function paginate<T extends Model>(query: any, params: PaginationParams): Promise<PaginatedResult<T>>;
 export async function paginate<T extends Model>(
   query: any,
-  params: PaginationParams
-): Promise<PaginatedResult<T>> {
+  params: PaginationParams | CursorPaginationParams
+): Promise<PaginatedResult<T> | CursorPaginatedResult<T>> {
+  if ('keyset' in params) {
+    return paginateByCursor<T>(query, params);
+  }
+
   const page = Math.max(1, params.page || 1);
-  const limit = Math.min(100, Math.max(1, params.limit || 20));
+  const limit = clampLimit(params.limit);
   const offset = (page - 1) * limit;
 
-  // Get total count
-  const totalResult = await query.clone().count('* as total').first();
+  // Get total count (computed columns and ordering don't apply to the count)
+  const totalResult = await query.clone().clearSelect().clearOrder().count('* as total').first();
   const total = parseInt(totalResult.total);
 
   // Apply ordering
@@ -106,3 +182,50 @@ export async function paginate<T extends Model>(
     hasPreviousPage: page > 1,
   };
 }
+
+async function paginateByCursor<T extends Model>(
+  query: any,
+  params: CursorPaginationParams
+): Promise<CursorPaginatedResult<T>> {
+  const { keyset } = params;
+  const limit = clampLimit(params.limit);
+  const bindings = keyset.bindings || [];
+
+  let page = query.clone().clearOrder();
+
+  if (!page.hasSelects()) {
+    page = page.select(`${page.modelClass().tableName}.*`);
+  }
+
+  page = page
+    .select(raw(`(${keyset.key})::text AS ${CURSOR_COLUMN}`, bindings))
+    .orderByRaw(`${keyset.key} ${keyset.order}`, bindings)
+    .orderBy(keyset.id, keyset.order)
+    .limit(limit + 1);
+
+  if (params.cursor) {
+    const [value, id] = decodeCursor(keyset, params.cursor);
+    const comparator = keyset.order === 'asc' ? '>' : '<';
+
+    page = page.whereRaw(`(${keyset.key}, ${keyset.id}) ${comparator} (?, ?)`, [...bindings, value, id]);
+  }
+
+  const [rows, estimatedTotal]: [any[], number | undefined] = await Promise.all([
+    page,
+    params.estimateTotal ? estimateCount(query) : undefined,
+  ]);
+  const hasNextPage = rows.length > limit;
+  const data = rows.slice(0, limit);
+  const last = data[data.length - 1];
+  const nextCursor = hasNextPage ? encodeCursor(keyset, last[CURSOR_COLUMN], last.id) : null;
+
+  data.forEach((row) => delete row[CURSOR_COLUMN]);
+
+  return {
+    data,
+    limit,
+    nextCursor,
+    hasNextPage,
+    ...(estimatedTotal !== undefined && { estimatedTotal }),
+  };
+}
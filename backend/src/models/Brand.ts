@@ -1,5 +1,6 @@
 import { BaseModel } from './BaseModel';
-import { RelationMappings, Model } from 'objection';
+import { RelationMappings, Model, raw } from 'objection';
+import { NAME_SIMILARITY_THRESHOLD, nameSimilaritySql } from '../utils/textSearch';
 
 export class Brand extends BaseModel {
   // Properties
@@ -60,4 +61,16 @@ export class Brand extends BaseModel {
       .orderBy('vehicle_count', 'desc')
       .limit(limit);
   }
+
+  // Typo-tolerant name match for autocomplete; `q` comes normalized (normalizeSearchText)
+  static async findSimilar(q: string, limit: number = 5): Promise<Brand[]> {
+    const score = raw(nameSimilaritySql('brands.name'), [q, q]);
+
+    return this.query()
+      .where('is_active', true)
+      .whereRaw('? >= ?', [score, NAME_SIMILARITY_THRESHOLD])
+      .orderByRaw('? DESC', [score])
+      .orderBy('name')
+      .limit(limit);
+  }
 }
@@ -1,7 +1,15 @@
 import { BaseModel } from './BaseModel';
-import { RelationMappings, Model } from 'objection';
+import { RelationMappings, Model, TransactionOrKnex } from 'objection';
 import { Transaction } from './Transaction';
-import { CommissionSetting } from './CommissionSetting';
+import { CommissionSetting, CommissionContext, DEFAULT_COMMISSION_PERCENTAGE } from './CommissionSetting';
+import { PayoutBatch } from './PayoutBatch';
+import { refundShare } from '../services/refunds';
+import { TaxBreakdown, calculateCommissionTax, scaleTaxBreakdown } from '../services/tax';
+
+export enum ClawbackStatus {
+  PENDING = 'pending',
+  RECOVERED = 'recovered',
+}
 
 export class Commission extends BaseModel {
   // Properties
@@ -12,10 +20,20 @@ export class Commission extends BaseModel {
   is_paid!: boolean;
   paid_at?: Date;
   payment_reference?: string;
+  reversal_of_id?: string;
+  clawback_amount?: number;
+  clawback_status?: ClawbackStatus;
+  clawback_reason?: string;
+  payout_batch_id?: string | null;
+  tax_amount!: number;
+  withholding_amount!: number;
+  tax_breakdown?: TaxBreakdown | null;
 
   // Relations
   transaction?: Transaction;
   commissionSetting?: CommissionSetting;
+  reversalOf?: Commission;
+  payoutBatch?: PayoutBatch;
 
   static tableName = 'commissions';
 
@@ -26,12 +44,23 @@ export class Commission extends BaseModel {
       id: { type: 'string', format: 'uuid' },
       transaction_id: { type: 'string', format: 'uuid' },
       commission_setting_id: { type: ['string', 'null'], format: 'uuid' },
-      amount: { type: 'number', minimum: 0 },
+      // Reversing entries carry a negative amount
+      amount: { type: 'number' },
       percentage: { type: ['number', 'null'], minimum: 0, maximum: 100 },
       is_paid: { type: 'boolean', default: false },
       paid_at: { type: ['string', 'null'], format: 'date-time' },
       payment_reference: { type: ['string', 'null'], maxLength: 255 },
+      reversal_of_id: { type: ['string', 'null'], format: 'uuid' },
+      clawback_amount: { type: ['number', 'null'], minimum: 0 },
+      clawback_status: { type: ['string', 'null'], enum: [...Object.values(ClawbackStatus), null] },
+      clawback_reason: { type: ['string', 'null'] },
+      payout_batch_id: { type: ['string', 'null'], format: 'uuid' },
+      // Reversals carry negative tax amounts too
+      tax_amount: { type: 'number', default: 0 },
+      withholding_amount: { type: 'number', default: 0 },
+      tax_breakdown: { type: ['object', 'null'] },
       created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
     },
   };
 
@@ -52,6 +81,22 @@ export class Commission extends BaseModel {
         to: 'commission_settings.id',
       },
     },
+    reversalOf: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Commission,
+      join: {
+        from: 'commissions.reversal_of_id',
+        to: 'commissions.id',
+      },
+    },
+    payoutBatch: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => PayoutBatch,
+      join: {
+        from: 'commissions.payout_batch_id',
+        to: 'payout_batches.id',
+      },
+    },
   };
 
   // Instance methods
@@ -63,6 +108,16 @@ export class Commission extends BaseModel {
     });
   }
 
+  isReversal(): boolean {
+    return !!this.reversal_of_id;
+  }
+
+  async markClawbackRecovered(): Promise<void> {
+    await this.$query().patch({
+      clawback_status: ClawbackStatus.RECOVERED,
+    });
+  }
+
   getEffectivePercentage(): number {
     if (this.percentage) {
       return this.percentage;
@@ -74,44 +129,62 @@ export class Commission extends BaseModel {
   }
 
   // Static methods
+  // Expects `seller.profile` and `vehicle` to be loaded on the transaction
   static async calculateCommission(transaction: Transaction): Promise<{
     amount: number;
     percentage: number;
     settingId?: string;
+    tax: TaxBreakdown;
   }> {
+    const context = this.buildContext(transaction);
+    const taxId = transaction.seller?.profile?.tax_id;
+
     // Get applicable commission setting
-    const setting = await CommissionSetting.findApplicable(
-      transaction.price,
-      transaction.seller?.role
-    );
+    const setting = await CommissionSetting.findApplicable(context);
     
     if (!setting) {
       // Default commission if no setting found
+      const amount = context.price * (DEFAULT_COMMISSION_PERCENTAGE / 100);
+
       return {
-        amount: transaction.price * 0.05, // 5% default
-        percentage: 5,
+        amount,
+        percentage: DEFAULT_COMMISSION_PERCENTAGE,
+        tax: calculateCommissionTax(amount, taxId),
       };
     }
     
-    const amount = setting.type === 'percentage'
-      ? transaction.price * (setting.value / 100)
-      : setting.value;
-    
-    const percentage = setting.type === 'percentage'
-      ? setting.value
-      : (amount / transaction.price) * 100;
-    
+    const amount = setting.calculateAmount(context.price);
+
     return {
       amount,
-      percentage,
+      percentage: setting.calculatePercentage(context.price),
       settingId: setting.id,
+      tax: calculateCommissionTax(amount, taxId),
     };
   }
 
-  static async createForTransaction(transactionId: string): Promise<Commission> {
-    const transaction = await Transaction.query()
+  // Facts the commission rules match on; expects `seller` and `vehicle` to be loaded
+  static buildContext(transaction: Transaction, date: Date = new Date()): CommissionContext {
+    const seller = transaction.seller;
+    const vehicle = transaction.vehicle;
+
+    return {
+      price: Number(transaction.price),
+      userRole: seller?.role,
+      brandId: vehicle?.brand_id,
+      province: vehicle?.location_province,
+      condition: vehicle?.condition,
+      sellerTenureDays: seller?.created_at
+        ? Math.floor((date.getTime() - new Date(seller.created_at).getTime()) / (24 * 60 * 60 * 1000))
+        : undefined,
+      date,
+    };
+  }
+
+  static async createForTransaction(transactionId: string, trx?: TransactionOrKnex): Promise<Commission> {
+    const transaction = await Transaction.query(trx)
       .findById(transactionId)
-      .withGraphFetched('seller');
+      .withGraphFetched('[seller.profile, vehicle]');
     
     if (!transaction) {
       throw new Error('Transaction not found');
@@ -119,14 +192,73 @@ export class Commission extends BaseModel {
     
     const calculation = await this.calculateCommission(transaction);
     
-    return this.query().insertAndFetch({
+    return this.query(trx).insertAndFetch({
       transaction_id: transactionId,
       commission_setting_id: calculation.settingId,
       amount: calculation.amount,
       percentage: calculation.percentage,
+      tax_amount: calculation.tax.iva_amount,
+      withholding_amount: calculation.tax.total_withholding,
+      tax_breakdown: calculation.tax,
     });
   }
 
+  // Reverses the share of the commission that matches the refunded part of the price.
+  // Unpaid commissions get a negative reversing entry; paid ones are flagged for clawback.
+  // `transaction.refunded_amount` is what earlier partial refunds already gave back.
+  static async reverseForRefund(
+    transaction: Transaction,
+    refundAmount: number,
+    reason: string,
+    trx?: TransactionOrKnex
+  ): Promise<{ reversal?: Commission; clawback?: Commission; amount: number }> {
+    const original = await this.query(trx)
+      .where('transaction_id', transaction.id)
+      .whereNull('reversal_of_id')
+      .first();
+
+    if (!original) {
+      return { amount: 0 };
+    }
+
+    const price = Number(transaction.price);
+    const amount = refundShare(Number(original.amount), price, Number(transaction.refunded_amount) || 0, refundAmount);
+    const ratio = Math.min(1, refundAmount / price);
+
+    if (original.is_paid) {
+      const outstanding = original.clawback_status === ClawbackStatus.PENDING ? Number(original.clawback_amount) : 0;
+      const clawback = await original.$query(trx).patchAndFetch({
+        clawback_amount: Math.round((outstanding + amount) * 100) / 100,
+        clawback_status: ClawbackStatus.PENDING,
+        clawback_reason: reason,
+      });
+
+      return { clawback, amount };
+    }
+
+    const tax = original.tax_breakdown ? scaleTaxBreakdown(original.tax_breakdown, -ratio) : null;
+
+    const reversal = await this.query(trx).insertAndFetch({
+      transaction_id: transaction.id,
+      commission_setting_id: original.commission_setting_id,
+      amount: -amount,
+      percentage: original.percentage,
+      reversal_of_id: original.id,
+      tax_amount: tax ? tax.iva_amount : 0,
+      withholding_amount: tax ? tax.total_withholding : 0,
+      tax_breakdown: tax,
+    });
+
+    return { reversal, amount };
+  }
+
+  static async findPendingClawbacks(): Promise<Commission[]> {
+    return this.query()
+      .where('clawback_status', ClawbackStatus.PENDING)
+      .withGraphFetched('[transaction.[seller, vehicle]]')
+      .orderBy('updated_at', 'asc');
+  }
+
   static async findUnpaid(): Promise<Commission[]> {
     return this.query()
       .where('is_paid', false)
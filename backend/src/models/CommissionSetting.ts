@@ -1,12 +1,41 @@
 import { BaseModel } from './BaseModel';
-import { RelationMappings, Model } from 'objection';
+import { RelationMappings, Model, ModelOptions, Pojo } from 'objection';
 import { UserRole } from './User';
+import { Brand } from './Brand';
+import { VehicleCondition } from './Vehicle';
+import { CommissionBand, CommissionTier, splitIntoBands, tiersError } from '../services/commissionTiers';
+
+export type { CommissionBand, CommissionTier };
 
 export enum CommissionType {
   PERCENTAGE = 'percentage',
   FIXED = 'fixed',
+  TIERED = 'tiered',
+}
+
+// The facts about a sale that rules are matched against
+export interface CommissionContext {
+  price: number;
+  userRole?: UserRole;
+  brandId?: string;
+  province?: string;
+  condition?: VehicleCondition;
+  sellerTenureDays?: number;
+  date?: Date;
+}
+
+export interface CommissionRuleCheck {
+  criterion: string;
+  expected: string;
+  actual: string | null;
+  passed: boolean;
 }
 
+// Applied when no rule matches a sale
+export const DEFAULT_COMMISSION_PERCENTAGE = 5;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
 export class CommissionSetting extends BaseModel {
   // Properties
   name!: string;
@@ -16,9 +45,20 @@ export class CommissionSetting extends BaseModel {
   min_price?: number;
   max_price?: number;
   user_role?: UserRole;
+  brand_id?: string;
+  location_province?: string;
+  vehicle_condition?: VehicleCondition;
+  min_seller_tenure_days?: number;
+  max_seller_tenure_days?: number;
+  valid_from?: Date;
+  valid_to?: Date;
+  tiers?: CommissionTier[];
   is_active!: boolean;
   priority!: number;
 
+  // Relations
+  brand?: Brand;
+
   static tableName = 'commission_settings';
 
   static jsonSchema = {
@@ -32,20 +72,67 @@ export class CommissionSetting extends BaseModel {
       value: { type: 'number', minimum: 0 },
       min_price: { type: ['number', 'null'], minimum: 0 },
       max_price: { type: ['number', 'null'], minimum: 0 },
-      user_role: { type: ['string', 'null'], enum: Object.values(UserRole) },
+      user_role: { type: ['string', 'null'], enum: [...Object.values(UserRole), null] },
+      brand_id: { type: ['string', 'null'], format: 'uuid' },
+      location_province: { type: ['string', 'null'], maxLength: 100 },
+      vehicle_condition: { type: ['string', 'null'], enum: [...Object.values(VehicleCondition), null] },
+      min_seller_tenure_days: { type: ['integer', 'null'], minimum: 0 },
+      max_seller_tenure_days: { type: ['integer', 'null'], minimum: 0 },
+      valid_from: { type: ['string', 'null'], format: 'date-time' },
+      valid_to: { type: ['string', 'null'], format: 'date-time' },
+      tiers: {
+        type: ['array', 'null'],
+        items: {
+          type: 'object',
+          required: ['rate'],
+          properties: {
+            up_to: { type: ['number', 'null'], exclusiveMinimum: 0 },
+            rate: { type: 'number', minimum: 0, maximum: 100 },
+          },
+        },
+      },
       is_active: { type: 'boolean', default: true },
       priority: { type: 'integer', default: 0 },
       created_at: { type: 'string', format: 'date-time' },
       updated_at: { type: 'string', format: 'date-time' },
     },
+    // Tiered rules take their rates from the bands, not from `value`
+    if: { properties: { type: { const: CommissionType.TIERED } } },
+    then: { required: ['tiers'], properties: { tiers: { type: 'array', minItems: 1 } } },
+  };
+
+  static relationMappings: RelationMappings = {
+    brand: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Brand,
+      join: {
+        from: 'commission_settings.brand_id',
+        to: 'brands.id',
+      },
+    },
   };
 
+  // Hooks
+  $afterValidate(json: Pojo, opt: ModelOptions) {
+    super.$afterValidate(json, opt);
+
+    const error = Array.isArray(json.tiers) ? tiersError(json.tiers) : null;
+
+    if (error) {
+      throw CommissionSetting.createValidationError({
+        type: 'ModelValidation',
+        message: error,
+        data: { tiers: [{ message: error, keyword: 'tiers', params: {} }] },
+      });
+    }
+  }
+
   // Instance methods
   appliesToPrice(price: number): boolean {
-    if (this.min_price && price < this.min_price) {
+    if (this.min_price != null && price < Number(this.min_price)) {
       return false;
     }
-    if (this.max_price && price > this.max_price) {
+    if (this.max_price != null && price > Number(this.max_price)) {
       return false;
     }
     return true;
@@ -58,11 +145,113 @@ export class CommissionSetting extends BaseModel {
     return this.user_role === role;
   }
 
+  isValidOn(date: Date = new Date()): boolean {
+    if (this.valid_from && date < new Date(this.valid_from)) {
+      return false;
+    }
+    if (this.valid_to && date > new Date(this.valid_to)) {
+      return false;
+    }
+    return true;
+  }
+
+  // Evaluates every condition of the rule against a sale. Conditions left empty on the
+  // rule match anything and are not reported.
+  explainMatch(context: CommissionContext): CommissionRuleCheck[] {
+    const checks: CommissionRuleCheck[] = [];
+    const date = context.date || new Date();
+
+    if (this.min_price != null || this.max_price != null) {
+      checks.push({
+        criterion: 'price',
+        expected: `${this.min_price ?? 0} - ${this.max_price ?? '∞'}`,
+        actual: String(context.price),
+        passed: this.appliesToPrice(context.price),
+      });
+    }
+    if (this.user_role) {
+      checks.push({
+        criterion: 'user_role',
+        expected: this.user_role,
+        actual: context.userRole || null,
+        passed: this.appliesToRole(context.userRole),
+      });
+    }
+    if (this.brand_id) {
+      checks.push({
+        criterion: 'brand_id',
+        expected: this.brand_id,
+        actual: context.brandId || null,
+        passed: this.brand_id === context.brandId,
+      });
+    }
+    if (this.location_province) {
+      checks.push({
+        criterion: 'location_province',
+        expected: this.location_province,
+        actual: context.province || null,
+        passed: !!context.province &&
+          this.location_province.localeCompare(context.province, 'es', { sensitivity: 'base' }) === 0,
+      });
+    }
+    if (this.vehicle_condition) {
+      checks.push({
+        criterion: 'vehicle_condition',
+        expected: this.vehicle_condition,
+        actual: context.condition || null,
+        passed: this.vehicle_condition === context.condition,
+      });
+    }
+    if (this.min_seller_tenure_days != null || this.max_seller_tenure_days != null) {
+      const tenure = context.sellerTenureDays;
+      checks.push({
+        criterion: 'seller_tenure_days',
+        expected: `${this.min_seller_tenure_days ?? 0} - ${this.max_seller_tenure_days ?? '∞'}`,
+        actual: tenure == null ? null : String(tenure),
+        passed: tenure != null &&
+          (this.min_seller_tenure_days == null || tenure >= this.min_seller_tenure_days) &&
+          (this.max_seller_tenure_days == null || tenure <= this.max_seller_tenure_days),
+      });
+    }
+    if (this.valid_from || this.valid_to) {
+      checks.push({
+        criterion: 'validity',
+        expected: `${this.valid_from ? new Date(this.valid_from).toISOString() : '-∞'} - ${
+          this.valid_to ? new Date(this.valid_to).toISOString() : '∞'
+        }`,
+        actual: date.toISOString(),
+        passed: this.isValidOn(date),
+      });
+    }
+
+    return checks;
+  }
+
+  matches(context: CommissionContext): boolean {
+    return this.explainMatch(context).every((check) => check.passed);
+  }
+
+  // Splits a price across the marginal bands of a tiered rule
+  calculateBands(price: number): CommissionBand[] {
+    return splitIntoBands(this.tiers || [], price);
+  }
+
   calculateAmount(price: number): number {
+    if (this.type === CommissionType.TIERED) {
+      return round2(this.calculateBands(price).reduce((sum, band) => sum + band.amount, 0));
+    }
+    if (this.type === CommissionType.PERCENTAGE) {
+      return price * (Number(this.value) / 100);
+    }
+    return Number(this.value);
+  }
+
+  // Effective rate of the rule on a given price, in percent
+  calculatePercentage(price: number): number {
     if (this.type === CommissionType.PERCENTAGE) {
-      return price * (this.value / 100);
+      return Number(this.value);
     }
-    return this.value;
+    return price > 0 ? round2((this.calculateAmount(price) / price) * 100) : 0;
   }
 
   getDescription(): string {
@@ -72,7 +261,11 @@ export class CommissionSetting extends BaseModel {
     
     let desc = this.name + ': ';
     
-    if (this.type === CommissionType.PERCENTAGE) {
+    if (this.type === CommissionType.TIERED) {
+      desc += 'tramos ' + (this.tiers || [])
+        .map((tier) => `${tier.rate}% hasta ${tier.up_to != null ? `$${tier.up_to}` : 'el resto'}`)
+        .join(', ');
+    } else if (this.type === CommissionType.PERCENTAGE) {
       desc += `${this.value}% del precio`;
     } else {
       desc += `$${this.value} fijo`;
@@ -93,6 +286,18 @@ export class CommissionSetting extends BaseModel {
     if (this.user_role) {
       desc += ` - Solo para ${this.user_role}`;
     }
+
+    if (this.location_province) {
+      desc += ` - Provincia ${this.location_province}`;
+    }
+
+    if (this.vehicle_condition) {
+      desc += ` - Vehículos ${this.vehicle_condition}`;
+    }
+
+    if (this.min_seller_tenure_days != null) {
+      desc += ` - Vendedores con ${this.min_seller_tenure_days}+ días`;
+    }
     
     return desc;
   }
@@ -105,19 +310,63 @@ export class CommissionSetting extends BaseModel {
       .orderBy('created_at', 'asc');
   }
 
-  static async findApplicable(price: number, userRole?: UserRole): Promise<CommissionSetting | undefined> {
-    const settings = await this.query()
-      .where('is_active', true)
-      .orderBy('priority', 'desc')
-      .orderBy('created_at', 'asc');
+  static async findApplicable(context: CommissionContext): Promise<CommissionSetting | undefined> {
+    const settings = await this.findActive();
     
-    for (const setting of settings) {
-      if (setting.appliesToPrice(price) && setting.appliesToRole(userRole)) {
-        return setting;
+    return settings.find((setting) => setting.matches(context));
+  }
+
+  // Dry run of the rule engine: which rule wins for a sale, how much it charges and
+  // why every other active rule was skipped
+  static async explain(context: CommissionContext): Promise<{
+    matched?: CommissionSetting;
+    amount: number;
+    percentage: number;
+    bands: CommissionBand[];
+    evaluated: Array<{
+      setting_id: string;
+      name: string;
+      priority: number;
+      matched: boolean;
+      checks: CommissionRuleCheck[];
+    }>;
+  }> {
+    const settings = await this.findActive();
+    let matched: CommissionSetting | undefined;
+
+    const evaluated = settings.map((setting) => {
+      const checks = setting.explainMatch(context);
+      const passed = checks.every((check) => check.passed);
+
+      if (passed && !matched) {
+        matched = setting;
       }
+
+      return {
+        setting_id: setting.id,
+        name: setting.name,
+        priority: setting.priority,
+        matched: passed && matched === setting,
+        checks,
+      };
+    });
+
+    if (!matched) {
+      return {
+        amount: round2(context.price * (DEFAULT_COMMISSION_PERCENTAGE / 100)),
+        percentage: DEFAULT_COMMISSION_PERCENTAGE,
+        bands: [],
+        evaluated,
+      };
     }
-    
-    return undefined;
+
+    return {
+      matched,
+      amount: round2(matched.calculateAmount(context.price)),
+      percentage: matched.calculatePercentage(context.price),
+      bands: matched.type === CommissionType.TIERED ? matched.calculateBands(context.price) : [],
+      evaluated,
+    };
   }
 
   static async createDefault(): Promise<void> {
@@ -1,8 +1,13 @@
 import { BaseModel } from './BaseModel';
-import { RelationMappings, Model } from 'objection';
+import { RelationMappings, Model, TransactionOrKnex } from 'objection';
 import { User } from './User';
 import { Vehicle } from './Vehicle';
 import { Message } from './Message';
+import { Offer } from './Offer';
+
+export type ConversationTimelineItem =
+  | { type: 'message'; created_at: Date; message: Message }
+  | { type: 'offer'; created_at: Date; offer: Offer };
 
 export class Conversation extends BaseModel {
   // Properties
@@ -18,6 +23,7 @@ export class Conversation extends BaseModel {
   buyer?: User;
   seller?: User;
   messages?: Message[];
+  offers?: Offer[];
 
   static tableName = 'conversations';
 
@@ -71,6 +77,15 @@ export class Conversation extends BaseModel {
       },
       modify: (query) => query.orderBy('created_at', 'desc'),
     },
+    offers: {
+      relation: Model.HasManyRelation,
+      modelClass: () => Offer,
+      join: {
+        from: 'conversations.id',
+        to: 'offers.conversation_id',
+      },
+      modify: (query) => query.orderBy('created_at', 'desc'),
+    },
   };
 
   // Instance methods
@@ -119,7 +134,7 @@ export class Conversation extends BaseModel {
       });
   }
 
-  async incrementUnreadCount(senderId: string): Promise<void> {
+  async incrementUnreadCount(senderId: string, trx?: TransactionOrKnex): Promise<void> {
     const update: any = {};
     
     if (this.isBuyer(senderId)) {
@@ -130,7 +145,7 @@ export class Conversation extends BaseModel {
     
     update.last_message_at = new Date();
     
-    await this.$query().patch(update);
+    await this.$query(trx).patch(update);
   }
 
   // Static methods
@@ -177,6 +192,26 @@ export class Conversation extends BaseModel {
       .withGraphFetched('[vehicle, buyer, seller]');
   }
 
+  // Messages and offers merged in chronological order, so offers render inline in the chat
+  static async getTimeline(conversationId: string): Promise<ConversationTimelineItem[]> {
+    const [messages, offers]: [Message[], Offer[]] = await Promise.all([
+      Message.query()
+        .where('conversation_id', conversationId)
+        .withGraphFetched('sender')
+        .orderBy('created_at', 'asc'),
+      Offer.findByConversation(conversationId),
+    ]);
+
+    const timeline: ConversationTimelineItem[] = [
+      ...messages.map((message) => ({ type: 'message' as const, created_at: message.created_at, message })),
+      ...offers.map((offer) => ({ type: 'offer' as const, created_at: offer.created_at, offer })),
+    ];
+
+    return timeline.sort(
+      (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+  }
+
   static async countUnread(userId: string): Promise<number> {
     const result = await this.query()
       .where((builder) => {
@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model, Pojo, TransactionOrKnex } from 'objection';
+import { User } from './User';
+import { Commission } from './Commission';
+import { Transaction } from './Transaction';
+import { einvoiceConfig } from '../config/einvoice';
+import { taxConfig } from '../config/tax';
+import {
+  buildAccessKey,
+  buildInvoiceXml,
+  calculateInvoiceTotals,
+  CustomerIdType,
+  EMISSION_TYPE,
+  FINAL_CONSUMER_ID,
+  getInvoiceProvider,
+  INVOICE_DOCUMENT_TYPE,
+  InvoiceAuthorizationStatus,
+  InvoiceDocument,
+  validateInvoiceXml,
+} from '../services/einvoice';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+export enum InvoiceStatus {
+  GENERATED = 'generated',
+  SIGNED = 'signed',
+  IN_PROCESS = 'in_process',
+  AUTHORIZED = 'authorized',
+  REJECTED = 'rejected',
+}
+
+export class ElectronicInvoice extends BaseModel {
+  // Properties
+  commission_id!: string;
+  transaction_id!: string;
+  customer_id!: string;
+  environment!: string;
+  establishment!: string;
+  emission_point!: string;
+  sequential!: string;
+  access_key!: string;
+  issue_date!: Date;
+  subtotal!: number;
+  tax_amount!: number;
+  total!: number;
+  status!: InvoiceStatus;
+  xml!: string;
+  signed_xml?: string;
+  authorization_number?: string;
+  authorized_at?: Date;
+  messages!: string[];
+
+  // Relations
+  commission?: Commission;
+  transaction?: Transaction;
+  customer?: User;
+
+  static tableName = 'electronic_invoices';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['commission_id', 'transaction_id', 'customer_id', 'sequential', 'access_key', 'xml'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      commission_id: { type: 'string', format: 'uuid' },
+      transaction_id: { type: 'string', format: 'uuid' },
+      customer_id: { type: 'string', format: 'uuid' },
+      environment: { type: 'string', enum: ['1', '2'] },
+      establishment: { type: 'string', pattern: '^[0-9]{3}$' },
+      emission_point: { type: 'string', pattern: '^[0-9]{3}$' },
+      sequential: { type: 'string', pattern: '^[0-9]{9}$' },
+      access_key: { type: 'string', pattern: '^[0-9]{49}$' },
+      issue_date: { type: 'string', format: 'date-time' },
+      subtotal: { type: 'number' },
+      tax_amount: { type: 'number' },
+      total: { type: 'number' },
+      status: { type: 'string', enum: Object.values(InvoiceStatus), default: InvoiceStatus.GENERATED },
+      xml: { type: 'string' },
+      signed_xml: { type: ['string', 'null'] },
+      authorization_number: { type: ['string', 'null'], maxLength: 49 },
+      authorized_at: { type: ['string', 'null'], format: 'date-time' },
+      messages: { type: 'array', items: { type: 'string' }, default: [] },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    commission: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Commission,
+      join: {
+        from: 'electronic_invoices.commission_id',
+        to: 'commissions.id',
+      },
+    },
+    transaction: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Transaction,
+      join: {
+        from: 'electronic_invoices.transaction_id',
+        to: 'transactions.id',
+      },
+    },
+    customer: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'electronic_invoices.customer_id',
+        to: 'users.id',
+      },
+    },
+  };
+
+  // Hide the document bodies from list payloads; they are served as files
+  $formatJson(json: Pojo): Pojo {
+    json = super.$formatJson(json);
+    delete json.xml;
+    delete json.signed_xml;
+    return json;
+  }
+
+  // Instance methods
+  getNumber(): string {
+    return `${this.establishment}-${this.emission_point}-${this.sequential}`;
+  }
+
+  // Signs and submits the invoice through the configured provider. Safe to retry:
+  // it resumes from whatever step the invoice reached.
+  async submit(): Promise<ElectronicInvoice> {
+    if (this.status === InvoiceStatus.AUTHORIZED) {
+      return this;
+    }
+
+    const provider = getInvoiceProvider();
+
+    if (!this.signed_xml || this.status === InvoiceStatus.REJECTED) {
+      const signedXml = await provider.sign(this.xml);
+      await this.$query().patch({ signed_xml: signedXml, status: InvoiceStatus.SIGNED });
+      this.$set({ signed_xml: signedXml, status: InvoiceStatus.SIGNED });
+    }
+
+    const result = await provider.submit(this.signed_xml!, this.access_key);
+    const status = {
+      [InvoiceAuthorizationStatus.AUTHORIZED]: InvoiceStatus.AUTHORIZED,
+      [InvoiceAuthorizationStatus.REJECTED]: InvoiceStatus.REJECTED,
+      [InvoiceAuthorizationStatus.IN_PROCESS]: InvoiceStatus.IN_PROCESS,
+    }[result.status];
+
+    const patch = {
+      status,
+      authorization_number: result.authorizationNumber,
+      authorized_at: result.authorizedAt,
+      messages: result.messages,
+    };
+
+    await this.$query().patch(patch);
+    this.$set(patch);
+
+    if (status === InvoiceStatus.REJECTED) {
+      logger.warn(`Invoice ${this.getNumber()} rejected: ${result.messages.join('; ')}`);
+    }
+
+    return this;
+  }
+
+  // Static methods
+  // Next number for a document type at an establishment and emission point. The
+  // upsert takes a row lock, so concurrent issuers never get the same number.
+  static async nextSequential(
+    establishment: string,
+    emissionPoint: string,
+    trx: TransactionOrKnex
+  ): Promise<string> {
+    const result = await trx.raw(
+      `INSERT INTO invoice_sequences (establishment, emission_point, document_type, last_value)
+       VALUES (?, ?, ?, 1)
+       ON CONFLICT (establishment, emission_point, document_type)
+       DO UPDATE SET last_value = invoice_sequences.last_value + 1, updated_at = CURRENT_TIMESTAMP
+       RETURNING last_value`,
+      [establishment, emissionPoint, INVOICE_DOCUMENT_TYPE]
+    );
+
+    return String(result.rows[0].last_value).padStart(9, '0');
+  }
+
+  static customerFor(seller: User): InvoiceDocument['customer'] {
+    const profile = seller.profile;
+    const taxId = profile?.tax_id?.trim();
+    const address = [profile?.address_line1, profile?.address_line2, profile?.city, profile?.province]
+      .filter(Boolean)
+      .join(', ');
+    const name = profile?.company_name || seller.getFullName();
+
+    if (!taxId) {
+      return { idType: CustomerIdType.FINAL_CONSUMER, id: FINAL_CONSUMER_ID, name: 'CONSUMIDOR FINAL' };
+    }
+
+    const idType = /^\d{13}$/.test(taxId)
+      ? CustomerIdType.RUC
+      : /^\d{10}$/.test(taxId)
+        ? CustomerIdType.CEDULA
+        : CustomerIdType.PASSPORT;
+
+    return { idType, id: taxId, name, address: address || undefined };
+  }
+
+  // Generates, validates and stores the invoice for a commission, then hands it to
+  // the signing/submission provider. Issuing twice returns the existing invoice.
+  static async issueForCommission(commissionId: string): Promise<ElectronicInvoice> {
+    const existing = await this.query().findOne({ commission_id: commissionId });
+    if (existing) {
+      return existing;
+    }
+
+    const commission = (await Commission.query()
+      .findById(commissionId)
+      .withGraphFetched('transaction.[seller.profile, vehicle]')) as Commission | undefined;
+
+    if (!commission || !commission.transaction) {
+      throw new NotFoundError('Commission not found');
+    }
+    if (commission.isReversal() || Number(commission.amount) <= 0) {
+      throw new BadRequestError('Only positive commissions are invoiced; reversals need a credit note');
+    }
+
+    const transaction = commission.transaction;
+    const seller = transaction.seller!;
+    const issueDate = new Date();
+    const { establishment, emissionPoint, environment } = einvoiceConfig;
+
+    const invoice = await ElectronicInvoice.transaction(async (trx) => {
+      const sequential = await this.nextSequential(establishment, emissionPoint, trx);
+
+      const accessKey = buildAccessKey({
+        issueDate,
+        documentType: INVOICE_DOCUMENT_TYPE,
+        ruc: einvoiceConfig.ruc,
+        environment,
+        establishment,
+        emissionPoint,
+        sequential,
+        numericCode: String(crypto.randomInt(0, 100000000)),
+        emissionType: EMISSION_TYPE,
+      });
+
+      const document: InvoiceDocument = {
+        accessKey,
+        environment,
+        establishment,
+        emissionPoint,
+        sequential,
+        issueDate,
+        issuer: {
+          ruc: einvoiceConfig.ruc,
+          businessName: einvoiceConfig.businessName,
+          tradeName: einvoiceConfig.tradeName,
+          headOfficeAddress: einvoiceConfig.headOfficeAddress,
+          establishmentAddress: einvoiceConfig.establishmentAddress,
+          keepsAccounting: einvoiceConfig.keepsAccounting,
+        },
+        customer: this.customerFor(seller),
+        lines: [
+          {
+            code: 'COM-VENTA',
+            description: `Comisión por venta de ${transaction.vehicle?.title || 'vehículo'}`,
+            quantity: 1,
+            unitPrice: Number(commission.amount),
+            ivaRate: commission.tax_breakdown?.iva_rate ?? taxConfig.ivaRate,
+          },
+        ],
+        additionalInfo: {
+          Transaccion: transaction.transaction_number,
+          Email: seller.email,
+        },
+      };
+
+      const xml = buildInvoiceXml(document);
+      const validation = await validateInvoiceXml(xml);
+
+      if (!validation.valid) {
+        // Rolls back the sequence number too, so no gaps are left behind
+        throw new ConflictError(`Generated invoice does not match the SRI schema: ${validation.errors.join('; ')}`);
+      }
+
+      const totals = calculateInvoiceTotals(document.lines);
+
+      return this.query(trx).insertAndFetch({
+        commission_id: commission.id,
+        transaction_id: transaction.id,
+        customer_id: seller.id,
+        environment,
+        establishment,
+        emission_point: emissionPoint,
+        sequential,
+        access_key: accessKey,
+        issue_date: issueDate,
+        subtotal: totals.subtotal,
+        tax_amount: totals.taxes.reduce((sum, tax) => sum + tax.amount, 0),
+        total: totals.total,
+        xml,
+      });
+    });
+
+    try {
+      await invoice.submit();
+    } catch (error) {
+      // The invoice stays generated/signed and can be resubmitted later
+      logger.error(`Submitting invoice ${invoice.getNumber()} failed:`, error);
+    }
+
+    return invoice;
+  }
+
+  static async findByTransaction(transactionId: string): Promise<ElectronicInvoice | undefined> {
+    return this.query()
+      .where('transaction_id', transactionId)
+      .orderBy('created_at', 'desc')
+      .first();
+  }
+}
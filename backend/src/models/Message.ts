@@ -1,4 +1,4 @@
-import { BaseModel } from './BaseModel';
+import { BaseModel, CursorPaginatedResult, paginate } from './BaseModel';
 import { RelationMappings, Model } from 'objection';
 import { User } from './User';
 import { Conversation } from './Conversation';
@@ -61,13 +61,22 @@ export class Message extends BaseModel {
   }
 
   // Static methods
-  static async findByConversation(conversationId: string, limit: number = 50, offset: number = 0): Promise<Message[]> {
-    return this.query()
-      .where('conversation_id', conversationId)
-      .withGraphFetched('sender')
-      .orderBy('created_at', 'desc')
-      .limit(limit)
-      .offset(offset);
+  // Newest first, a page at a time: pass the previous page's nextCursor to load older
+  // messages. Messages arriving meanwhile don't shift the pages being scrolled.
+  static async findByConversation(
+    conversationId: string,
+    params: { cursor?: string; limit?: number } = {}
+  ): Promise<CursorPaginatedResult<Message>> {
+    return paginate<Message>(
+      this.query()
+        .where('conversation_id', conversationId)
+        .withGraphFetched('sender'),
+      {
+        keyset: { key: 'messages.created_at', id: 'messages.id', order: 'desc' },
+        cursor: params.cursor,
+        limit: params.limit || 50,
+      }
+    );
   }
 
   static async findUnreadByUser(userId: string): Promise<Message[]> {
@@ -0,0 +1,111 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model, TransactionOrKnex } from 'objection';
+import { User } from './User';
+
+export class Notification extends BaseModel {
+  // Properties
+  user_id!: string;
+  type!: string;
+  title!: string;
+  message?: string;
+  data!: Record<string, any>;
+  is_read!: boolean;
+  read_at?: Date;
+
+  // Relations
+  user?: User;
+
+  static tableName = 'notifications';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['user_id', 'type', 'title'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      user_id: { type: 'string', format: 'uuid' },
+      type: { type: 'string', maxLength: 50 },
+      title: { type: 'string', maxLength: 255 },
+      message: { type: ['string', 'null'] },
+      data: { type: 'object', default: {} },
+      is_read: { type: 'boolean', default: false },
+      read_at: { type: ['string', 'null'], format: 'date-time' },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    user: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'notifications.user_id',
+        to: 'users.id',
+      },
+    },
+  };
+
+  // Instance methods
+  async markAsRead(): Promise<void> {
+    if (!this.is_read) {
+      await this.$query().patch({
+        is_read: true,
+        read_at: new Date(),
+      });
+    }
+  }
+
+  // Static methods
+  static async notify(
+    userId: string,
+    type: string,
+    title: string,
+    message?: string,
+    data: Record<string, any> = {},
+    trx?: TransactionOrKnex
+  ): Promise<Notification> {
+    return this.query(trx).insertAndFetch({
+      user_id: userId,
+      type,
+      title,
+      message,
+      data,
+    });
+  }
+
+  // Same notification for several users, stored in a single insert
+  static async notifyMany(
+    userIds: string[],
+    type: string,
+    title: string,
+    message?: string,
+    data: Record<string, any> = {},
+    trx?: TransactionOrKnex
+  ): Promise<Notification[]> {
+    if (!userIds.length) {
+      return [];
+    }
+
+    return this.query(trx).insert(
+      userIds.map((userId) => ({
+        user_id: userId,
+        type,
+        title,
+        message,
+        data,
+      }))
+    );
+  }
+
+  static async findByUser(userId: string, unreadOnly: boolean = false): Promise<Notification[]> {
+    let query = this.query()
+      .where('user_id', userId)
+      .orderBy('created_at', 'desc');
+
+    if (unreadOnly) {
+      query = query.where('is_read', false);
+    }
+
+    return query;
+  }
+}
@@ -0,0 +1,425 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model, TransactionOrKnex } from 'objection';
+import { User } from './User';
+import { Vehicle, VehicleStatus } from './Vehicle';
+import { Conversation } from './Conversation';
+import { Transaction } from './Transaction';
+import { VehicleReservation } from './VehicleReservation';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../middleware/errorHandler';
+
+export enum OfferStatus {
+  PENDING = 'pending',
+  COUNTERED = 'countered',
+  ACCEPTED = 'accepted',
+  REJECTED = 'rejected',
+  EXPIRED = 'expired',
+  WITHDRAWN = 'withdrawn',
+}
+
+// Default lifetime of an offer before it expires
+export const OFFER_DEFAULT_TTL_HOURS = 48;
+
+export class Offer extends BaseModel {
+  // Properties
+  vehicle_id!: string;
+  buyer_id!: string;
+  seller_id!: string;
+  conversation_id?: string;
+  parent_offer_id?: string;
+  proposed_by!: string;
+  amount!: number;
+  message?: string;
+  status!: OfferStatus;
+  expires_at!: Date;
+  responded_at?: Date;
+  transaction_id?: string;
+
+  // Relations
+  vehicle?: Vehicle;
+  buyer?: User;
+  seller?: User;
+  proposer?: User;
+  conversation?: Conversation;
+  parent?: Offer;
+  counterOffer?: Offer;
+  transaction?: Transaction;
+
+  static tableName = 'offers';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['vehicle_id', 'buyer_id', 'seller_id', 'proposed_by', 'amount', 'expires_at'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      vehicle_id: { type: 'string', format: 'uuid' },
+      buyer_id: { type: 'string', format: 'uuid' },
+      seller_id: { type: 'string', format: 'uuid' },
+      conversation_id: { type: ['string', 'null'], format: 'uuid' },
+      parent_offer_id: { type: ['string', 'null'], format: 'uuid' },
+      proposed_by: { type: 'string', format: 'uuid' },
+      amount: { type: 'number', exclusiveMinimum: 0 },
+      message: { type: ['string', 'null'] },
+      status: { type: 'string', enum: Object.values(OfferStatus), default: OfferStatus.PENDING },
+      expires_at: { type: 'string', format: 'date-time' },
+      responded_at: { type: ['string', 'null'], format: 'date-time' },
+      transaction_id: { type: ['string', 'null'], format: 'uuid' },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    vehicle: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Vehicle,
+      join: {
+        from: 'offers.vehicle_id',
+        to: 'vehicles.id',
+      },
+    },
+    buyer: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'offers.buyer_id',
+        to: 'users.id',
+      },
+    },
+    seller: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'offers.seller_id',
+        to: 'users.id',
+      },
+    },
+    proposer: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'offers.proposed_by',
+        to: 'users.id',
+      },
+    },
+    conversation: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Conversation,
+      join: {
+        from: 'offers.conversation_id',
+        to: 'conversations.id',
+      },
+    },
+    parent: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Offer,
+      join: {
+        from: 'offers.parent_offer_id',
+        to: 'offers.id',
+      },
+    },
+    counterOffer: {
+      relation: Model.HasOneRelation,
+      modelClass: () => Offer,
+      join: {
+        from: 'offers.id',
+        to: 'offers.parent_offer_id',
+      },
+    },
+    transaction: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Transaction,
+      join: {
+        from: 'offers.transaction_id',
+        to: 'transactions.id',
+      },
+    },
+  };
+
+  // Instance methods
+  isPending(): boolean {
+    return this.status === OfferStatus.PENDING;
+  }
+
+  isExpired(): boolean {
+    return new Date(this.expires_at).getTime() <= Date.now();
+  }
+
+  isParticipant(userId: string): boolean {
+    return this.buyer_id === userId || this.seller_id === userId;
+  }
+
+  // The party that has to answer this offer is whoever did not propose it
+  getRecipientId(): string {
+    return this.proposed_by === this.buyer_id ? this.seller_id : this.buyer_id;
+  }
+
+  canRespond(userId: string): boolean {
+    return this.isPending() && !this.isExpired() && this.getRecipientId() === userId;
+  }
+
+  async counter(userId: string, amount: number, message?: string, expiresInHours?: number): Promise<Offer> {
+    await this.assertRespondable(userId);
+
+    return Offer.transaction(async (trx) => {
+      await this.lockPending(trx);
+
+      await this.$query(trx).patch({
+        status: OfferStatus.COUNTERED,
+        responded_at: new Date(),
+      });
+
+      const counterOffer = await Offer.query(trx).insertAndFetch({
+        vehicle_id: this.vehicle_id,
+        buyer_id: this.buyer_id,
+        seller_id: this.seller_id,
+        conversation_id: this.conversation_id,
+        parent_offer_id: this.id,
+        proposed_by: userId,
+        amount,
+        message,
+        expires_at: Offer.computeExpiry(expiresInHours),
+      });
+
+      await Offer.touchConversation(this.conversation_id, userId, trx);
+
+      return counterOffer;
+    });
+  }
+
+  async accept(userId: string): Promise<Transaction> {
+    await this.assertRespondable(userId);
+
+    return Offer.transaction(async (trx) => {
+      await this.lockPending(trx);
+
+      const vehicle = await Vehicle.query(trx)
+        .findById(this.vehicle_id)
+        .forUpdate();
+
+      if (!vehicle || vehicle.status !== VehicleStatus.AVAILABLE) {
+        throw new ConflictError('Vehicle is no longer available');
+      }
+
+      const transaction = await Transaction.query(trx).context({ actorId: userId }).insertAndFetch({
+        vehicle_id: this.vehicle_id,
+        buyer_id: this.buyer_id,
+        seller_id: this.seller_id,
+        price: this.amount,
+        net_amount: this.amount,
+        notes: `Oferta aceptada #${this.id}`,
+      });
+
+      await VehicleReservation.hold(
+        {
+          vehicle_id: this.vehicle_id,
+          user_id: this.buyer_id,
+          transaction_id: transaction.id,
+        },
+        trx
+      );
+
+      await this.$query(trx).patch({
+        status: OfferStatus.ACCEPTED,
+        responded_at: new Date(),
+        transaction_id: transaction.id,
+      });
+
+      // The vehicle is reserved now, so every other open negotiation on it is closed
+      await Offer.query(trx)
+        .where('vehicle_id', this.vehicle_id)
+        .where('status', OfferStatus.PENDING)
+        .whereNot('id', this.id)
+        .patch({
+          status: OfferStatus.REJECTED,
+          responded_at: new Date(),
+        });
+
+      await Offer.touchConversation(this.conversation_id, userId, trx);
+
+      return transaction;
+    });
+  }
+
+  async reject(userId: string): Promise<void> {
+    await this.assertRespondable(userId);
+
+    await Offer.transaction(async (trx) => {
+      await this.lockPending(trx);
+
+      await this.$query(trx).patch({
+        status: OfferStatus.REJECTED,
+        responded_at: new Date(),
+      });
+
+      await Offer.touchConversation(this.conversation_id, userId, trx);
+    });
+  }
+
+  async withdraw(userId: string): Promise<void> {
+    if (this.proposed_by !== userId) {
+      throw new ForbiddenError('Only the author of an offer can withdraw it');
+    }
+    if (!this.isPending()) {
+      throw new ConflictError(`Offer is already ${this.status}`);
+    }
+
+    await Offer.transaction(async (trx) => {
+      await this.lockPending(trx);
+
+      await this.$query(trx).patch({
+        status: OfferStatus.WITHDRAWN,
+        responded_at: new Date(),
+      });
+    });
+  }
+
+  private async assertRespondable(userId: string): Promise<void> {
+    if (this.getRecipientId() !== userId) {
+      throw new ForbiddenError('Only the recipient of an offer can respond to it');
+    }
+    if (!this.isPending()) {
+      throw new ConflictError(`Offer is already ${this.status}`);
+    }
+    if (this.isExpired()) {
+      await this.$query().patch({ status: OfferStatus.EXPIRED });
+      throw new ConflictError('Offer has expired');
+    }
+  }
+
+  // Locks the offer row and checks it is still open, so that two answers racing each
+  // other (accept and reject, or two accepts) cannot both go through
+  private async lockPending(trx: TransactionOrKnex): Promise<void> {
+    const current = await Offer.query(trx).findById(this.id).forUpdate();
+
+    if (!current || !current.isPending()) {
+      throw new ConflictError(`Offer is already ${current?.status ?? 'gone'}`);
+    }
+  }
+
+  // Static methods
+  static computeExpiry(expiresInHours: number = OFFER_DEFAULT_TTL_HOURS): Date {
+    return new Date(Date.now() + expiresInHours * 60 * 60 * 1000);
+  }
+
+  static async makeOffer(data: {
+    vehicle_id: string;
+    buyer_id: string;
+    amount: number;
+    message?: string;
+    expires_in_hours?: number;
+  }): Promise<Offer> {
+    const vehicle = await Vehicle.query().findById(data.vehicle_id);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (vehicle.status !== VehicleStatus.AVAILABLE || !vehicle.isPublished()) {
+      throw new ConflictError('Vehicle is not available');
+    }
+    if (!vehicle.negotiable) {
+      throw new BadRequestError('Vehicle price is not negotiable');
+    }
+    if (vehicle.seller_id === data.buyer_id) {
+      throw new BadRequestError('You cannot make an offer on your own vehicle');
+    }
+
+    const openOffer = await this.query()
+      .where('vehicle_id', data.vehicle_id)
+      .where('buyer_id', data.buyer_id)
+      .where('status', OfferStatus.PENDING)
+      .where('expires_at', '>', new Date())
+      .first();
+
+    if (openOffer) {
+      throw new ConflictError('You already have an open offer on this vehicle');
+    }
+
+    const conversation = await Conversation.findOrCreate(vehicle.id, data.buyer_id, vehicle.seller_id);
+
+    return this.transaction(async (trx) => {
+      const offer = await this.query(trx).insertAndFetch({
+        vehicle_id: vehicle.id,
+        buyer_id: data.buyer_id,
+        seller_id: vehicle.seller_id,
+        conversation_id: conversation.id,
+        proposed_by: data.buyer_id,
+        amount: data.amount,
+        message: data.message,
+        expires_at: this.computeExpiry(data.expires_in_hours),
+      });
+
+      await this.touchConversation(conversation.id, data.buyer_id, trx);
+
+      return offer;
+    });
+  }
+
+  static async findByVehicle(vehicleId: string): Promise<Offer[]> {
+    return this.query()
+      .where('vehicle_id', vehicleId)
+      .withGraphFetched('[buyer, proposer]')
+      .orderBy('created_at', 'desc');
+  }
+
+  static async findByUser(userId: string, role: 'buyer' | 'seller'): Promise<Offer[]> {
+    const field = role === 'buyer' ? 'buyer_id' : 'seller_id';
+
+    return this.query()
+      .where(field, userId)
+      .withGraphFetched('[vehicle.[brand, model, images], buyer, seller]')
+      .orderBy('created_at', 'desc');
+  }
+
+  static async findByConversation(conversationId: string): Promise<Offer[]> {
+    return this.query()
+      .where('conversation_id', conversationId)
+      .withGraphFetched('proposer')
+      .orderBy('created_at', 'asc');
+  }
+
+  // Walks the counter-offer chain from the first offer down to the latest one
+  static async findChain(offerId: string): Promise<Offer[]> {
+    let root = await this.query().findById(offerId);
+
+    if (!root) {
+      return [];
+    }
+
+    while (root.parent_offer_id) {
+      const parent: Offer | undefined = await this.query().findById(root.parent_offer_id);
+      if (!parent) break;
+      root = parent;
+    }
+
+    const chain: Offer[] = [root];
+    let current: Offer | undefined = root;
+
+    while (current) {
+      current = await this.query().findOne({ parent_offer_id: current.id });
+      if (current) chain.push(current);
+    }
+
+    return chain;
+  }
+
+  static async expireStale(): Promise<number> {
+    return this.query()
+      .where('status', OfferStatus.PENDING)
+      .where('expires_at', '<=', new Date())
+      .patch({ status: OfferStatus.EXPIRED });
+  }
+
+  private static async touchConversation(
+    conversationId: string | undefined,
+    senderId: string,
+    trx?: TransactionOrKnex
+  ): Promise<void> {
+    if (!conversationId) return;
+
+    const conversation = await Conversation.query(trx).findById(conversationId);
+
+    if (conversation) {
+      await conversation.incrementUnreadCount(senderId, trx);
+    }
+  }
+}
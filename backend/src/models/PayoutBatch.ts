@@ -0,0 +1,239 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model, TransactionOrKnex } from 'objection';
+import { User } from './User';
+import { Commission } from './Commission';
+import { BadRequestError, ConflictError } from '../middleware/errorHandler';
+import { summarizeCommissions } from '../services/payoutTotals';
+
+export enum PayoutBatchStatus {
+  OPEN = 'open',
+  PAID = 'paid',
+  CANCELLED = 'cancelled',
+}
+
+export class PayoutBatch extends BaseModel {
+  // Properties
+  reference!: string;
+  seller_id!: string;
+  period_start!: string;
+  period_end!: string;
+  status!: PayoutBatchStatus;
+  commission_count!: number;
+  total_sales!: number;
+  total_amount!: number;
+  total_tax_amount!: number;
+  total_withholding_amount!: number;
+  total_payable!: number;
+  bank_reference?: string;
+  paid_at?: Date;
+  reconciled_at?: Date;
+  created_by?: string;
+
+  // Relations
+  seller?: User;
+  commissions?: Commission[];
+
+  static tableName = 'payout_batches';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['reference', 'seller_id', 'period_start', 'period_end'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      reference: { type: 'string', maxLength: 50 },
+      seller_id: { type: 'string', format: 'uuid' },
+      period_start: { type: 'string', format: 'date' },
+      period_end: { type: 'string', format: 'date' },
+      status: { type: 'string', enum: Object.values(PayoutBatchStatus), default: PayoutBatchStatus.OPEN },
+      commission_count: { type: 'integer', minimum: 0, default: 0 },
+      total_sales: { type: 'number', default: 0 },
+      total_amount: { type: 'number', default: 0 },
+      total_tax_amount: { type: 'number', default: 0 },
+      total_withholding_amount: { type: 'number', default: 0 },
+      total_payable: { type: 'number', default: 0 },
+      bank_reference: { type: ['string', 'null'], maxLength: 255 },
+      paid_at: { type: ['string', 'null'], format: 'date-time' },
+      reconciled_at: { type: ['string', 'null'], format: 'date-time' },
+      created_by: { type: ['string', 'null'], format: 'uuid' },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    seller: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'payout_batches.seller_id',
+        to: 'users.id',
+      },
+    },
+    commissions: {
+      relation: Model.HasManyRelation,
+      modelClass: () => Commission,
+      join: {
+        from: 'payout_batches.id',
+        to: 'commissions.payout_batch_id',
+      },
+    },
+  };
+
+  // Instance methods
+  isOpen(): boolean {
+    return this.status === PayoutBatchStatus.OPEN;
+  }
+
+  // Settles the batch and every commission in it under the batch reference
+  async markAsPaid(bankReference?: string, options: { reconciled?: boolean; trx?: TransactionOrKnex } = {}): Promise<void> {
+    if (!this.isOpen()) {
+      throw new ConflictError(`Payout batch is already ${this.status}`);
+    }
+
+    const paidAt = new Date();
+
+    const apply = async (trx: TransactionOrKnex) => {
+      const updated = await PayoutBatch.query(trx)
+        .where('id', this.id)
+        .where('status', PayoutBatchStatus.OPEN)
+        .patch({
+          status: PayoutBatchStatus.PAID,
+          bank_reference: bankReference,
+          paid_at: paidAt,
+          reconciled_at: options.reconciled ? paidAt : undefined,
+        });
+
+      if (!updated) {
+        throw new ConflictError('Payout batch was modified concurrently');
+      }
+
+      await Commission.query(trx)
+        .where('payout_batch_id', this.id)
+        .patch({
+          is_paid: true,
+          paid_at: paidAt,
+          payment_reference: this.reference,
+        });
+    };
+
+    if (options.trx) {
+      await apply(options.trx);
+    } else {
+      await PayoutBatch.transaction(apply);
+    }
+
+    this.$set({
+      status: PayoutBatchStatus.PAID,
+      bank_reference: bankReference,
+      paid_at: paidAt,
+      reconciled_at: options.reconciled ? paidAt : this.reconciled_at,
+    });
+  }
+
+  // Cancels an unpaid batch and frees its commissions for a later one
+  async cancel(): Promise<void> {
+    if (!this.isOpen()) {
+      throw new ConflictError(`Payout batch is already ${this.status}`);
+    }
+
+    await PayoutBatch.transaction(async (trx) => {
+      await Commission.query(trx)
+        .where('payout_batch_id', this.id)
+        .patch({ payout_batch_id: null });
+
+      await this.$query(trx).patch({ status: PayoutBatchStatus.CANCELLED });
+    });
+  }
+
+  // Static methods
+  static buildReference(sellerId: string, periodEnd: string): string {
+    const period = periodEnd.slice(0, 7).replace('-', '');
+    const suffix = Date.now().toString(36).toUpperCase().slice(-5);
+    return `PO-${period}-${sellerId.slice(0, 8).toUpperCase()}-${suffix}`;
+  }
+
+  // Groups the seller's unpaid, unbatched commissions created within the period
+  // (both dates inclusive). Reversals are included so refunds net off the total.
+  static async createForSeller(
+    sellerId: string,
+    periodStart: string,
+    periodEnd: string,
+    createdBy?: string
+  ): Promise<PayoutBatch | undefined> {
+    if (periodEnd < periodStart) {
+      throw new BadRequestError('period_end must not be before period_start');
+    }
+
+    return this.transaction(async (trx) => {
+      const commissions = await Commission.query(trx)
+        .select('commissions.*', 'transactions.price as sale_price')
+        .join('transactions', 'commissions.transaction_id', 'transactions.id')
+        .where('transactions.seller_id', sellerId)
+        .where('commissions.is_paid', false)
+        .whereNull('commissions.payout_batch_id')
+        .where('commissions.created_at', '>=', periodStart)
+        .where('commissions.created_at', '<', this.dayAfter(periodEnd))
+        .forUpdate();
+
+      if (!commissions.length) {
+        return undefined;
+      }
+
+      const batch = await this.query(trx).insertAndFetch({
+        reference: this.buildReference(sellerId, periodEnd),
+        seller_id: sellerId,
+        period_start: periodStart,
+        period_end: periodEnd,
+        ...summarizeCommissions(commissions as Array<Commission & { sale_price: number }>),
+        created_by: createdBy,
+      });
+
+      await Commission.query(trx)
+        .whereIn('id', commissions.map((c) => c.id))
+        .patch({ payout_batch_id: batch.id });
+
+      return batch;
+    });
+  }
+
+  // One batch per seller with open commissions in the period
+  static async generateForPeriod(periodStart: string, periodEnd: string, createdBy?: string): Promise<PayoutBatch[]> {
+    const sellers = (await Commission.query()
+      .distinct('transactions.seller_id')
+      .join('transactions', 'commissions.transaction_id', 'transactions.id')
+      .where('commissions.is_paid', false)
+      .whereNull('commissions.payout_batch_id')
+      .where('commissions.created_at', '>=', periodStart)
+      .where('commissions.created_at', '<', this.dayAfter(periodEnd))) as unknown as Array<{ seller_id: string }>;
+
+    const batches: PayoutBatch[] = [];
+
+    for (const { seller_id } of sellers) {
+      const batch = await this.createForSeller(seller_id, periodStart, periodEnd, createdBy);
+      if (batch) batches.push(batch);
+    }
+
+    return batches;
+  }
+
+  static async findWithDetails(id: string): Promise<PayoutBatch | undefined> {
+    return this.query()
+      .findById(id)
+      .withGraphFetched('[seller.[profile], commissions(orderByCreated).[transaction.[vehicle]]]')
+      .modifiers({
+        orderByCreated: (builder) => builder.orderBy('created_at', 'asc'),
+      });
+  }
+
+  static async findOpen(): Promise<PayoutBatch[]> {
+    return this.query()
+      .where('status', PayoutBatchStatus.OPEN)
+      .orderBy('created_at', 'asc');
+  }
+
+  private static dayAfter(date: string): string {
+    const next = new Date(`${date}T00:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,209 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model } from 'objection';
+import { User } from './User';
+import {
+  Vehicle,
+  VehicleStatus,
+  VehicleCondition,
+  TransmissionType,
+  FuelType,
+  DrivetrainType,
+  VehicleSearchFilters,
+  SEARCH_FILTER_KEYS,
+} from './Vehicle';
+import { SavedSearchMatch } from './SavedSearchMatch';
+import { BadRequestError } from '../middleware/errorHandler';
+
+export enum AlertFrequency {
+  INSTANT = 'instant',
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+}
+
+export const MAX_SAVED_SEARCHES_PER_USER = 25;
+
+// Minimum time between digests of each frequency
+export const DIGEST_INTERVAL_MS: Record<AlertFrequency.DAILY | AlertFrequency.WEEKLY, number> = {
+  [AlertFrequency.DAILY]: 24 * 60 * 60 * 1000,
+  [AlertFrequency.WEEKLY]: 7 * 24 * 60 * 60 * 1000,
+};
+
+const NUMERIC_FILTERS: Array<keyof VehicleSearchFilters> = [
+  'lat', 'lng', 'radius_km', 'year_min', 'year_max', 'price_min', 'price_max', 'mileage_max',
+];
+
+// Filters that map one-to-one to a vehicle column, used to narrow the candidates in SQL
+const EXACT_FILTER_COLUMNS: Array<[keyof VehicleSearchFilters, keyof Vehicle]> = [
+  ['brand_id', 'brand_id'],
+  ['model_id', 'model_id'],
+  ['condition', 'condition'],
+  ['transmission', 'transmission'],
+  ['fuel_type', 'fuel_type'],
+  ['drivetrain', 'drivetrain'],
+  ['city', 'location_city'],
+  ['province', 'location_province'],
+];
+
+export class SavedSearch extends BaseModel {
+  // Properties
+  user_id!: string;
+  name!: string;
+  filters!: VehicleSearchFilters;
+  alert_frequency!: AlertFrequency;
+  alerts_enabled!: boolean;
+  last_notified_at?: Date | null;
+
+  // Relations
+  user?: User;
+  matches?: SavedSearchMatch[];
+
+  static tableName = 'saved_searches';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['user_id', 'name', 'filters'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      user_id: { type: 'string', format: 'uuid' },
+      name: { type: 'string', minLength: 1, maxLength: 100 },
+      filters: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          q: { type: 'string', minLength: 1, maxLength: 200 },
+          lat: { type: 'number', minimum: -90, maximum: 90 },
+          lng: { type: 'number', minimum: -180, maximum: 180 },
+          radius_km: { type: 'number', exclusiveMinimum: 0, maximum: 1000 },
+          brand_id: { type: 'string', format: 'uuid' },
+          model_id: { type: 'string', format: 'uuid' },
+          year_min: { type: 'integer', minimum: 1900 },
+          year_max: { type: 'integer', minimum: 1900 },
+          price_min: { type: 'number', minimum: 0 },
+          price_max: { type: 'number', minimum: 0 },
+          mileage_max: { type: 'integer', minimum: 0 },
+          condition: { type: 'string', enum: Object.values(VehicleCondition) },
+          transmission: { type: 'string', enum: Object.values(TransmissionType) },
+          fuel_type: { type: 'string', enum: Object.values(FuelType) },
+          drivetrain: { type: 'string', enum: Object.values(DrivetrainType) },
+          color: { type: 'string', maxLength: 50 },
+          city: { type: 'string', maxLength: 100 },
+          province: { type: 'string', maxLength: 100 },
+        },
+      },
+      alert_frequency: { type: 'string', enum: Object.values(AlertFrequency), default: AlertFrequency.DAILY },
+      alerts_enabled: { type: 'boolean', default: true },
+      last_notified_at: { type: ['string', 'null'], format: 'date-time' },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    user: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'saved_searches.user_id',
+        to: 'users.id',
+      },
+    },
+    matches: {
+      relation: Model.HasManyRelation,
+      modelClass: () => SavedSearchMatch,
+      join: {
+        from: 'saved_searches.id',
+        to: 'saved_search_matches.saved_search_id',
+      },
+    },
+  };
+
+  // Instance methods
+  // Runs the saved filters through the regular vehicle search
+  results() {
+    return Vehicle.search(this.filters);
+  }
+
+  async matchesVehicle(vehicleId: string): Promise<boolean> {
+    const hit = await Vehicle.applySearchFilters(Vehicle.query(), this.filters)
+      .where('vehicles.id', vehicleId)
+      .select('vehicles.id')
+      .first();
+
+    return Boolean(hit);
+  }
+
+  // Static methods
+  // Keeps the known search keys, drops empty values and turns numeric strings (as copied
+  // from a listing URL) into numbers; the JSON schema validates what is left.
+  static normalizeFilters(input: Record<string, any>): VehicleSearchFilters {
+    const filters: Record<string, any> = {};
+
+    for (const key of SEARCH_FILTER_KEYS) {
+      const value = input[key];
+
+      if (value === undefined || value === null || value === '') continue;
+
+      filters[key] = NUMERIC_FILTERS.includes(key) && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))
+        ? Number(value)
+        : value;
+    }
+
+    if ((filters.lat === undefined) !== (filters.lng === undefined)) {
+      throw new BadRequestError('lat and lng must be saved together');
+    }
+    if (filters.radius_km !== undefined && filters.lat === undefined) {
+      throw new BadRequestError('radius_km requires lat and lng');
+    }
+
+    return filters;
+  }
+
+  static async countByUser(userId: string): Promise<number> {
+    return this.query().where('user_id', userId).resultSize();
+  }
+
+  // Saved searches that could match the vehicle, narrowed on the filters that map
+  // directly to its columns. Callers confirm each one with matchesVehicle().
+  static async findCandidates(vehicle: Vehicle): Promise<SavedSearch[]> {
+    if (vehicle.status !== VehicleStatus.AVAILABLE || !vehicle.isPublished()) {
+      return [];
+    }
+
+    let query = this.query()
+      .where('alerts_enabled', true)
+      .whereNot('user_id', vehicle.seller_id);
+
+    for (const [key, column] of EXACT_FILTER_COLUMNS) {
+      const value = vehicle[column];
+
+      query = query.where((builder) => {
+        builder.whereRaw('filters->>? IS NULL', [key]);
+        if (value !== undefined && value !== null) builder.orWhereRaw('filters->>? = ?', [key, String(value)]);
+      });
+    }
+
+    const price = Number(vehicle.price);
+    query = query
+      .where((builder) => builder.whereRaw(`filters->>'price_min' IS NULL`).orWhereRaw(`(filters->>'price_min')::numeric <= ?`, [price]))
+      .where((builder) => builder.whereRaw(`filters->>'price_max' IS NULL`).orWhereRaw(`(filters->>'price_max')::numeric >= ?`, [price]));
+
+    return query;
+  }
+
+  // Digest searches whose period has elapsed and that have matches waiting
+  static async findDueDigests(frequency: AlertFrequency.DAILY | AlertFrequency.WEEKLY, limit: number = 100): Promise<SavedSearch[]> {
+    const cutoff = new Date(Date.now() - DIGEST_INTERVAL_MS[frequency]);
+
+    return this.query()
+      .where('alerts_enabled', true)
+      .where('alert_frequency', frequency)
+      .where((builder) => builder.whereNull('last_notified_at').orWhere('last_notified_at', '<=', cutoff))
+      .whereExists(
+        SavedSearchMatch.query()
+          .whereColumn('saved_search_matches.saved_search_id', 'saved_searches.id')
+          .whereNull('saved_search_matches.notified_at')
+      )
+      .orderByRaw('last_notified_at ASC NULLS FIRST')
+      .limit(limit);
+  }
+}
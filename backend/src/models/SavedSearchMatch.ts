@@ -0,0 +1,74 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model, TransactionOrKnex } from 'objection';
+import { SavedSearch } from './SavedSearch';
+import { Vehicle } from './Vehicle';
+
+export class SavedSearchMatch extends BaseModel {
+  // Properties
+  saved_search_id!: string;
+  vehicle_id!: string;
+  notified_at?: Date | null;
+
+  // Relations
+  savedSearch?: SavedSearch;
+  vehicle?: Vehicle;
+
+  static tableName = 'saved_search_matches';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['saved_search_id', 'vehicle_id'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      saved_search_id: { type: 'string', format: 'uuid' },
+      vehicle_id: { type: 'string', format: 'uuid' },
+      notified_at: { type: ['string', 'null'], format: 'date-time' },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    savedSearch: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => SavedSearch,
+      join: {
+        from: 'saved_search_matches.saved_search_id',
+        to: 'saved_searches.id',
+      },
+    },
+    vehicle: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Vehicle,
+      join: {
+        from: 'saved_search_matches.vehicle_id',
+        to: 'vehicles.id',
+      },
+    },
+  };
+
+  // Static methods
+  // Records a match once; returns undefined when the vehicle had already matched
+  static async record(
+    savedSearchId: string,
+    vehicleId: string,
+    trx?: TransactionOrKnex
+  ): Promise<SavedSearchMatch | undefined> {
+    // Plain knex: objection can't map the empty RETURNING of an ignored conflict
+    const [row] = await (trx || this.knex())(this.tableName)
+      .insert({ saved_search_id: savedSearchId, vehicle_id: vehicleId })
+      .onConflict(['saved_search_id', 'vehicle_id'])
+      .ignore()
+      .returning('*');
+
+    return row ? this.fromDatabaseJson(row) : undefined;
+  }
+
+  static async markNotified(ids: string[], trx?: TransactionOrKnex): Promise<void> {
+    if (!ids.length) return;
+
+    await this.query(trx)
+      .whereIn('id', ids)
+      .patch({ notified_at: new Date() });
+  }
+}
@@ -0,0 +1,231 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model, raw } from 'objection';
+import { User } from './User';
+import { ListingStatus, VehicleStatus } from './Vehicle';
+import { SearchLogInput, searchLogRow } from '../services/searchLog';
+
+export interface PopularQuery {
+  query: string;
+  count: number;
+}
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface QueryStats {
+  query: string;
+  searches: number;
+  avg_results: number;
+  zero_result_rate: number;
+}
+
+export interface ZeroResultQuery {
+  query: string;
+  searches: number;
+  users: number;
+  last_searched_at: Date;
+}
+
+export interface FilterUsage {
+  filter: string;
+  searches: number;
+  share: number;
+}
+
+export interface DemandSupply {
+  id: string;
+  name: string;
+  brand_name?: string;
+  searches: number;
+  listings: number;
+  // Searches per available listing; high values point at unmet demand
+  demand_ratio: number;
+}
+
+export class SearchHistory extends BaseModel {
+  // Properties
+  user_id?: string | null;
+  search_query!: string;
+  filters!: Record<string, any>;
+  results_count!: number;
+  ip_address?: string | null;
+
+  // Relations
+  user?: User;
+
+  static tableName = 'search_history';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['search_query'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      user_id: { type: ['string', 'null'], format: 'uuid' },
+      // Empty for searches made only with filters
+      search_query: { type: 'string', default: '' },
+      filters: { type: 'object', default: {} },
+      results_count: { type: 'integer', minimum: 0, default: 0 },
+      ip_address: { type: ['string', 'null'] },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    user: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'search_history.user_id',
+        to: 'users.id',
+      },
+    },
+  };
+
+  // Static methods
+  // Logs one call of the vehicle search, filter-only searches included
+  static async record(data: SearchLogInput): Promise<SearchHistory> {
+    return this.query().insert(searchLogRow(data));
+  }
+
+  // Past queries that resemble `q` (trigram word similarity, typos included), most
+  // searched first. Queries that found nothing are not worth suggesting.
+  static async findPopularMatching(q: string, limit: number = 5, days: number = 90): Promise<PopularQuery[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const rows: any[] = await this.query()
+      .select(raw('mode() WITHIN GROUP (ORDER BY lower(trim(search_query))) AS query'))
+      .count('* as count')
+      .whereRaw('? <% search_normalize(search_query)', [q])
+      .where('results_count', '>', 0)
+      .where('created_at', '>=', since)
+      .groupByRaw('search_normalize(search_query)')
+      .orderBy('count', 'desc')
+      .orderByRaw('max(word_similarity(?, search_normalize(search_query))) DESC', [q])
+      .limit(limit);
+
+    return rows.map((row) => ({ query: row.query, count: Number(row.count) }));
+  }
+
+  // Most frequent text queries, grouped regardless of case and accents
+  static async topQueries(range: AnalyticsRange, limit: number = 20): Promise<QueryStats[]> {
+    const rows: any[] = await this.query()
+      .select(raw('mode() WITHIN GROUP (ORDER BY lower(trim(search_query))) AS query'))
+      .count('* as searches')
+      .select(raw('avg(results_count) AS avg_results'))
+      .select(raw('avg(CASE WHEN results_count = 0 THEN 1 ELSE 0 END) AS zero_result_rate'))
+      .whereNot('search_query', '')
+      .whereBetween('created_at', [range.from, range.to])
+      .groupByRaw('search_normalize(search_query)')
+      .orderBy('searches', 'desc')
+      .limit(limit);
+
+    return rows.map((row) => ({
+      query: row.query,
+      searches: Number(row.searches),
+      avg_results: Math.round(Number(row.avg_results) * 10) / 10,
+      zero_result_rate: Math.round(Number(row.zero_result_rate) * 1000) / 1000,
+    }));
+  }
+
+  // Text queries that found nothing: what buyers want and the catalogue lacks
+  static async zeroResultQueries(range: AnalyticsRange, limit: number = 20): Promise<ZeroResultQuery[]> {
+    const rows: any[] = await this.query()
+      .select(raw('mode() WITHIN GROUP (ORDER BY lower(trim(search_query))) AS query'))
+      .count('* as searches')
+      .select(raw('count(DISTINCT COALESCE(user_id::text, host(ip_address))) AS users'))
+      .max('created_at as last_searched_at')
+      .where('results_count', 0)
+      .whereNot('search_query', '')
+      .whereBetween('created_at', [range.from, range.to])
+      .groupByRaw('search_normalize(search_query)')
+      .orderBy('searches', 'desc')
+      .limit(limit);
+
+    return rows.map((row) => ({
+      query: row.query,
+      searches: Number(row.searches),
+      users: Number(row.users),
+      last_searched_at: row.last_searched_at,
+    }));
+  }
+
+  // How often each filter is used, as a count and as a share of all searches
+  static async filterUsage(range: AnalyticsRange): Promise<FilterUsage[]> {
+    const knex = this.knex();
+    const total = await this.query().whereBetween('created_at', [range.from, range.to]).resultSize();
+    const rows: any[] = await knex
+      .select('filter')
+      .count('* as searches')
+      .from(knex.raw('search_history, jsonb_object_keys(search_history.filters) AS filter'))
+      .whereBetween('search_history.created_at', [range.from, range.to])
+      .groupBy('filter')
+      .orderBy('searches', 'desc');
+
+    return rows.map((row) => ({
+      filter: row.filter,
+      searches: Number(row.searches),
+      share: total ? Math.round((Number(row.searches) / total) * 1000) / 1000 : 0,
+    }));
+  }
+
+  // Searches filtered on each brand (or model) against its available listings
+  static async demandSupply(
+    level: 'brand' | 'model',
+    range: AnalyticsRange,
+    limit: number = 20
+  ): Promise<DemandSupply[]> {
+    const key = level === 'brand' ? 'brand_id' : 'model_id';
+    const table = level === 'brand' ? 'brands' : 'models';
+    const knex = this.knex();
+
+    const demand = knex
+      .select(knex.raw(`filters->>'${key}' AS id`))
+      .count('* as searches')
+      .from('search_history')
+      .whereRaw(`filters->>'${key}' IS NOT NULL`)
+      .whereBetween('created_at', [range.from, range.to])
+      .groupByRaw(`filters->>'${key}'`)
+      .as('demand');
+
+    const supply = knex
+      .select(key)
+      .count('* as listings')
+      .from('vehicles')
+      .where('status', VehicleStatus.AVAILABLE)
+      .where('listing_status', ListingStatus.PUBLISHED)
+      .groupBy(key)
+      .as('supply');
+
+    let query = knex
+      .select(`${table}.id`, `${table}.name`, 'demand.searches')
+      .select(knex.raw('COALESCE(supply.listings, 0) AS listings'))
+      .from(demand)
+      .joinRaw(`JOIN ${table} ON ${table}.id::text = demand.id`)
+      .leftJoin(supply, `supply.${key}`, `${table}.id`)
+      .orderBy('demand.searches', 'desc')
+      .limit(limit);
+
+    if (level === 'model') {
+      query = query.select('brands.name as brand_name').join('brands', 'brands.id', 'models.brand_id');
+    }
+
+    const rows: any[] = await query;
+
+    return rows.map((row) => {
+      const searches = Number(row.searches);
+      const listings = Number(row.listings);
+
+      return {
+        id: row.id,
+        name: row.name,
+        ...(row.brand_name && { brand_name: row.brand_name }),
+        searches,
+        listings,
+        demand_ratio: Math.round((searches / Math.max(listings, 1)) * 100) / 100,
+      };
+    });
+  }
+}
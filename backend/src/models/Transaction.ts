@@ -1,9 +1,18 @@
 import { BaseModel } from './BaseModel';
-import { RelationMappings, Model } from 'objection';
+import { RelationMappings, Model, QueryContext, TransactionOrKnex } from 'objection';
 import { User } from './User';
-import { Vehicle } from './Vehicle';
+import { Vehicle, VehicleStatus } from './Vehicle';
 import { Commission } from './Commission';
 import { Review } from './Review';
+import { TransactionEvent } from './TransactionEvent';
+import { VehicleReservation } from './VehicleReservation';
+import { planRefund } from '../services/refunds';
+import { TaxBreakdown } from '../services/tax';
+import { ConflictError, InvalidStateTransitionError, NotFoundError } from '../middleware/errorHandler';
+import { eventBus } from '../services/eventBus';
+import { assertPaymentSucceeded, getPaymentProvider, PaymentIntent } from '../services/payments';
+import { afterCommit } from '../utils/afterCommit';
+import { logger } from '../utils/logger';
 
 export enum TransactionStatus {
   PENDING = 'pending',
@@ -13,6 +22,39 @@ export enum TransactionStatus {
   REFUNDED = 'refunded',
 }
 
+export enum EscrowStatus {
+  HELD = 'held',
+  RELEASED = 'released',
+  VOIDED = 'voided',
+  REFUNDED = 'refunded',
+}
+
+export const PAYMENT_CURRENCY = 'USD';
+
+// Allowed status changes; anything not listed here is rejected
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  [TransactionStatus.PENDING]: [TransactionStatus.PROCESSING, TransactionStatus.CANCELLED],
+  [TransactionStatus.PROCESSING]: [TransactionStatus.COMPLETED, TransactionStatus.CANCELLED],
+  [TransactionStatus.COMPLETED]: [TransactionStatus.REFUNDED],
+  [TransactionStatus.CANCELLED]: [],
+  [TransactionStatus.REFUNDED]: [],
+};
+
+export interface RefundOptions {
+  reason: string;
+  // Defaults to what is left to refund
+  amount?: number;
+  vehicleStatus: VehicleStatus;
+  actorId?: string;
+}
+
+export interface TransitionOptions {
+  actorId?: string;
+  reason?: string;
+  metadata?: Record<string, any>;
+  trx?: TransactionOrKnex;
+}
+
 export class Transaction extends BaseModel {
   // Properties
   transaction_number!: string;
@@ -21,14 +63,24 @@ export class Transaction extends BaseModel {
   seller_id!: string;
   price!: number;
   commission_amount!: number;
+  commission_tax_amount!: number;
+  withholding_amount!: number;
+  tax_breakdown?: TaxBreakdown | null;
   net_amount!: number;
   status!: TransactionStatus;
   payment_method?: string;
   payment_reference?: string;
+  payment_provider?: string;
+  escrow_status?: EscrowStatus;
+  escrow_held_at?: Date;
+  escrow_released_at?: Date;
   notes?: string;
   completed_at?: Date;
   cancelled_at?: Date;
   cancelled_reason?: string;
+  refunded_amount!: number;
+  refunded_at?: Date;
+  refund_reason?: string;
 
   // Relations
   vehicle?: Vehicle;
@@ -36,6 +88,7 @@ export class Transaction extends BaseModel {
   seller?: User;
   commission?: Commission;
   reviews?: Review[];
+  events?: TransactionEvent[];
 
   static tableName = 'transactions';
 
@@ -50,14 +103,24 @@ export class Transaction extends BaseModel {
       seller_id: { type: 'string', format: 'uuid' },
       price: { type: 'number', minimum: 0 },
       commission_amount: { type: 'number', minimum: 0, default: 0 },
+      commission_tax_amount: { type: 'number', minimum: 0, default: 0 },
+      withholding_amount: { type: 'number', minimum: 0, default: 0 },
+      tax_breakdown: { type: ['object', 'null'] },
       net_amount: { type: 'number', minimum: 0 },
       status: { type: 'string', enum: Object.values(TransactionStatus), default: TransactionStatus.PENDING },
       payment_method: { type: ['string', 'null'], maxLength: 50 },
       payment_reference: { type: ['string', 'null'], maxLength: 255 },
+      payment_provider: { type: ['string', 'null'], maxLength: 50 },
+      escrow_status: { type: ['string', 'null'], enum: [...Object.values(EscrowStatus), null] },
+      escrow_held_at: { type: ['string', 'null'], format: 'date-time' },
+      escrow_released_at: { type: ['string', 'null'], format: 'date-time' },
       notes: { type: ['string', 'null'] },
       completed_at: { type: ['string', 'null'], format: 'date-time' },
       cancelled_at: { type: ['string', 'null'], format: 'date-time' },
       cancelled_reason: { type: ['string', 'null'] },
+      refunded_amount: { type: 'number', minimum: 0, default: 0 },
+      refunded_at: { type: ['string', 'null'], format: 'date-time' },
+      refund_reason: { type: ['string', 'null'] },
       created_at: { type: 'string', format: 'date-time' },
       updated_at: { type: 'string', format: 'date-time' },
     },
@@ -95,6 +158,7 @@ export class Transaction extends BaseModel {
         from: 'transactions.id',
         to: 'commissions.transaction_id',
       },
+      modify: (query) => query.whereNull('reversal_of_id'),
     },
     reviews: {
       relation: Model.HasManyRelation,
@@ -104,6 +168,15 @@ export class Transaction extends BaseModel {
         to: 'reviews.transaction_id',
       },
     },
+    events: {
+      relation: Model.HasManyRelation,
+      modelClass: () => TransactionEvent,
+      join: {
+        from: 'transactions.id',
+        to: 'transaction_events.transaction_id',
+      },
+      modify: (query) => query.orderBy('created_at', 'asc'),
+    },
   };
 
   // Hooks
@@ -115,6 +188,20 @@ export class Transaction extends BaseModel {
     }
   }
 
+  async $afterInsert(queryContext: QueryContext) {
+    await super.$afterInsert(queryContext);
+
+    // Seed the history with the initial status. Whoever created the sale passes itself
+    // as `actorId` in the query context; rows created by the system have no actor.
+    await TransactionEvent.query(queryContext.transaction).insert({
+      transaction_id: this.id,
+      to_status: this.status || TransactionStatus.PENDING,
+      actor_id: queryContext.actorId ?? null,
+      reason: 'created',
+      metadata: {},
+    });
+  }
+
   // Instance methods
   async generateTransactionNumber(): Promise<string> {
     const date = new Date();
@@ -126,49 +213,398 @@ export class Transaction extends BaseModel {
     return `TXN-${year}${month}${day}-${random}`;
   }
 
-  async complete(paymentReference: string): Promise<void> {
-    await this.$query().patch({
-      status: TransactionStatus.COMPLETED,
-      payment_reference: paymentReference,
-      completed_at: new Date(),
-    });
+  canTransitionTo(status: TransactionStatus): boolean {
+    return TRANSACTION_TRANSITIONS[this.status].includes(status);
+  }
 
-    // Mark vehicle as sold
-    await Vehicle.query()
-      .where('id', this.vehicle_id)
-      .patch({
-        status: 'sold',
-        sold_at: new Date(),
+  // Moves the transaction to a new status and records the change in its history
+  async transitionTo(
+    status: TransactionStatus,
+    options: TransitionOptions = {},
+    patch: Partial<Transaction> = {}
+  ): Promise<void> {
+    if (!this.canTransitionTo(status)) {
+      throw new InvalidStateTransitionError('transaction', this.status, status);
+    }
+
+    const apply = async (trx: TransactionOrKnex) => {
+      // Guard on the current status so concurrent transitions cannot both win
+      const updated = await Transaction.query(trx)
+        .where('id', this.id)
+        .where('status', this.status)
+        .patch({ ...patch, status });
+
+      if (!updated) {
+        throw new InvalidStateTransitionError('transaction', this.status, status);
+      }
+
+      await TransactionEvent.query(trx).insert({
+        transaction_id: this.id,
+        from_status: this.status,
+        to_status: status,
+        actor_id: options.actorId,
+        reason: options.reason,
+        metadata: options.metadata || {},
       });
+    };
+
+    // The instance only reflects the change once it is committed
+    if (options.trx) {
+      await apply(options.trx);
+      afterCommit(options.trx, () => this.$set({ ...patch, status }));
+    } else {
+      await Transaction.transaction(apply);
+      this.$set({ ...patch, status });
+    }
+  }
+
+  async process(options: TransitionOptions = {}): Promise<void> {
+    await this.transitionTo(TransactionStatus.PROCESSING, options);
   }
 
-  async cancel(reason: string): Promise<void> {
-    await this.$query().patch({
-      status: TransactionStatus.CANCELLED,
-      cancelled_reason: reason,
-      cancelled_at: new Date(),
+  // Completes the sale as a single unit: the vehicle is sold, the commission is booked and
+  // competing transactions on the same vehicle are cancelled, or nothing happens at all.
+  // `transaction.completed` is published once the work is committed. `patch` is written
+  // along with the status. Throws only when nothing was committed.
+  async complete(
+    paymentReference: string,
+    options: TransitionOptions = {},
+    patch: Partial<Transaction> = {}
+  ): Promise<Commission> {
+    const run = async (trx: TransactionOrKnex) => {
+      const vehicle = await Vehicle.query(trx)
+        .findById(this.vehicle_id)
+        .forUpdate();
+
+      if (!vehicle) {
+        throw new NotFoundError('Vehicle not found');
+      }
+      if (vehicle.status === VehicleStatus.SOLD) {
+        throw new ConflictError('Vehicle has already been sold');
+      }
+
+      await this.transitionTo(TransactionStatus.COMPLETED, { ...options, trx }, {
+        ...patch,
+        payment_reference: paymentReference,
+        completed_at: new Date(),
+      });
+
+      await vehicle.markAsSold(this.buyer_id, trx);
+      await VehicleReservation.convertForVehicle(this.vehicle_id, trx);
+
+      const commission = await Commission.createForTransaction(this.id, trx);
+      const tax = commission.tax_breakdown!;
+      // The seller keeps the price minus the fee and its IVA, but holds on to what it withheld
+      const fiscal = {
+        commission_amount: tax.base,
+        commission_tax_amount: tax.iva_amount,
+        withholding_amount: tax.total_withholding,
+        tax_breakdown: tax,
+        net_amount: Math.round((Number(this.price) - tax.total_payable) * 100) / 100,
+      };
+
+      await this.$query(trx).patch(fiscal);
+      afterCommit(trx, () => this.$set(fiscal));
+
+      const competing = await Transaction.query(trx)
+        .where('vehicle_id', this.vehicle_id)
+        .whereNot('id', this.id)
+        .whereIn('status', [TransactionStatus.PENDING, TransactionStatus.PROCESSING]);
+
+      for (const other of competing) {
+        const reason = `Vehicle sold in transaction ${this.transaction_number}`;
+
+        await other.transitionTo(
+          TransactionStatus.CANCELLED,
+          { actorId: options.actorId, reason, trx },
+          { cancelled_reason: reason, cancelled_at: new Date() }
+        );
+      }
+
+      return { commission, fiscal, competing };
+    };
+
+    const { commission, fiscal, competing } = options.trx
+      ? await run(options.trx)
+      : await Transaction.transaction(run);
+
+    // Buyers of the cancelled competing sales get their held funds back
+    afterCommit(options.trx, () => {
+      void Transaction.voidEscrows(competing);
     });
 
-    // Mark vehicle as available again
-    await Vehicle.query()
-      .where('id', this.vehicle_id)
-      .patch({
-        status: 'available',
+    eventBus.publishAfterCommit(options.trx, 'transaction.completed', {
+      transactionId: this.id,
+      vehicleId: this.vehicle_id,
+      buyerId: this.buyer_id,
+      sellerId: this.seller_id,
+      price: Number(this.price),
+      commissionAmount: fiscal.commission_amount,
+      netAmount: fiscal.net_amount,
+      cancelledTransactionIds: competing.map((other) => other.id),
+    });
+
+    return commission;
+  }
+
+  // Cancels the sale and frees the vehicle it was holding in one database transaction.
+  // Held funds are voided at the processor only once that has been committed.
+  async cancel(reason: string, options: TransitionOptions = {}): Promise<void> {
+    if (!this.canBeCancelled()) {
+      throw new InvalidStateTransitionError('transaction', this.status, TransactionStatus.CANCELLED);
+    }
+
+    const run = async (trx: TransactionOrKnex) => {
+      await this.transitionTo(TransactionStatus.CANCELLED, { ...options, reason, trx }, {
+        cancelled_reason: reason,
+        cancelled_at: new Date(),
       });
+
+      // Release the vehicle only if this sale was holding it, never a sold one
+      const reservation = await VehicleReservation.findActiveByVehicle(this.vehicle_id, trx);
+
+      if (reservation) {
+        if (reservation.transaction_id === this.id || reservation.user_id === this.buyer_id) {
+          await reservation.release(reason, trx);
+        }
+      } else {
+        await Vehicle.query(trx)
+          .where('id', this.vehicle_id)
+          .where('status', VehicleStatus.RESERVED)
+          .patch({
+            status: VehicleStatus.AVAILABLE,
+          });
+      }
+    };
+
+    if (options.trx) {
+      await run(options.trx);
+    } else {
+      await Transaction.transaction(run);
+    }
+
+    afterCommit(options.trx, () => {
+      void Transaction.voidEscrows([this]);
+    });
   }
 
-  async process(): Promise<void> {
-    await this.$query().patch({
-      status: TransactionStatus.PROCESSING,
+  // Refunds a completed sale, fully or partially. price, commission_amount and net_amount stay
+  // untouched so the original figures remain auditable; the refund lives in its own columns.
+  // Partial refunds add up in refunded_amount and the sale stays completed until the whole
+  // price has been given back, which moves it to refunded.
+  async refund(
+    options: RefundOptions
+  ): Promise<{ commissionAdjustment: number; partial: boolean; paymentRefunded: boolean | null }> {
+    if (this.status !== TransactionStatus.COMPLETED) {
+      throw new InvalidStateTransitionError('transaction', this.status, TransactionStatus.REFUNDED);
+    }
+
+    const result = await Transaction.transaction(async (trx) => {
+      // Locked so concurrent partial refunds cannot both spend the same remainder
+      const current = await Transaction.query(trx).findById(this.id).forUpdate();
+
+      if (!current || current.status !== TransactionStatus.COMPLETED) {
+        throw new InvalidStateTransitionError('transaction', current?.status || this.status, TransactionStatus.REFUNDED);
+      }
+
+      const { amount, refundedTotal, partial } = planRefund(
+        Number(this.price),
+        Number(current.refunded_amount),
+        options.amount
+      );
+      const commission = await Commission.reverseForRefund(current, amount, options.reason, trx);
+      const patch = {
+        refunded_amount: refundedTotal,
+        refunded_at: new Date(),
+        refund_reason: options.reason,
+      };
+      const event = {
+        actorId: options.actorId,
+        reason: options.reason,
+        metadata: {
+          refund_amount: amount,
+          refunded_total: refundedTotal,
+          partial,
+          vehicle_status: options.vehicleStatus,
+          commission_reversal_id: commission.reversal?.id,
+          commission_clawback_id: commission.clawback?.id,
+          commission_adjustment: commission.amount,
+        },
+      };
+
+      if (partial) {
+        // No status change, but the refund still goes in the history
+        await Transaction.query(trx).findById(this.id).patch(patch);
+        await TransactionEvent.query(trx).insert({
+          transaction_id: this.id,
+          from_status: TransactionStatus.COMPLETED,
+          to_status: TransactionStatus.COMPLETED,
+          actor_id: event.actorId,
+          reason: event.reason,
+          metadata: event.metadata,
+        });
+        afterCommit(trx, () => this.$set(patch));
+      } else {
+        await this.transitionTo(TransactionStatus.REFUNDED, { ...event, trx }, patch);
+      }
+
+      await Vehicle.query(trx)
+        .where('id', this.vehicle_id)
+        .patch({
+          status: options.vehicleStatus,
+          ...(options.vehicleStatus !== VehicleStatus.SOLD && { sold_at: null }),
+        });
+
+      return { commission, amount, partial, escrowStatus: current.escrow_status };
     });
+
+    // The processor is only asked once the refund is committed, so it never holds the row
+    // lock and a rollback cannot follow money that already left. If it fails, the refund
+    // stays recorded with the escrow still released, to be settled at the processor.
+    let paymentRefunded: boolean | null = null;
+
+    if (this.payment_provider && result.escrowStatus === EscrowStatus.RELEASED) {
+      paymentRefunded = await this.refundPayment(result.amount, !result.partial);
+    }
+
+    eventBus.publish('transaction.refunded', {
+      transactionId: this.id,
+      vehicleId: this.vehicle_id,
+      buyerId: this.buyer_id,
+      sellerId: this.seller_id,
+      refundAmount: result.amount,
+      partial: result.partial,
+      commissionAdjustment: result.commission.amount,
+      clawback: !!result.commission.clawback,
+    });
+
+    return { commissionAdjustment: result.commission.amount, partial: result.partial, paymentRefunded };
+  }
+
+  private async refundPayment(amount: number, full: boolean): Promise<boolean> {
+    try {
+      assertPaymentSucceeded(
+        await getPaymentProvider(this.payment_provider).refund(this.payment_reference!, amount)
+      );
+    } catch (error: unknown) {
+      logger.error(`Processor refund of ${amount} for transaction ${this.id} failed:`, error);
+      return false;
+    }
+
+    if (full) {
+      await this.$query().patch({ escrow_status: EscrowStatus.REFUNDED });
+      this.$set({ escrow_status: EscrowStatus.REFUNDED });
+    }
+
+    return true;
+  }
+
+  // Buyer pays: funds are authorized and held in escrow while the sale is processed
+  async holdPayment(
+    paymentToken: string,
+    options: { provider?: string; paymentMethod?: string; actorId?: string } = {}
+  ): Promise<PaymentIntent> {
+    if (!this.canTransitionTo(TransactionStatus.PROCESSING)) {
+      throw new InvalidStateTransitionError('transaction', this.status, TransactionStatus.PROCESSING);
+    }
+
+    const provider = getPaymentProvider(options.provider);
+    const { intent } = assertPaymentSucceeded(
+      await provider.authorize({
+        idempotencyKey: this.id,
+        amount: Number(this.price),
+        currency: PAYMENT_CURRENCY,
+        paymentToken,
+        description: this.transaction_number,
+        metadata: { transaction_id: this.id },
+      })
+    );
+
+    try {
+      await this.transitionTo(
+        TransactionStatus.PROCESSING,
+        {
+          actorId: options.actorId,
+          reason: 'Payment held in escrow',
+          metadata: { payment_provider: provider.name, payment_reference: intent!.reference },
+        },
+        {
+          payment_method: options.paymentMethod || provider.name,
+          payment_provider: provider.name,
+          payment_reference: intent!.reference,
+          escrow_status: EscrowStatus.HELD,
+          escrow_held_at: new Date(),
+        }
+      );
+    } catch (error) {
+      await provider.void(intent!.reference);
+      throw error;
+    }
+
+    return intent!;
+  }
+
+  // Buyer confirms the vehicle was delivered: escrow is captured and the sale completed
+  async confirmDelivery(actorId: string): Promise<Commission> {
+    if (this.escrow_status !== EscrowStatus.HELD || !this.payment_provider || !this.payment_reference) {
+      throw new ConflictError('There are no funds held in escrow for this transaction');
+    }
+    if (!this.canBeCompleted()) {
+      throw new InvalidStateTransitionError('transaction', this.status, TransactionStatus.COMPLETED);
+    }
+
+    const provider = getPaymentProvider(this.payment_provider);
+    const reference = this.payment_reference;
+    const { intent } = assertPaymentSucceeded(await provider.capture(reference));
+
+    try {
+      // The escrow is released in the same database transaction that completes the sale
+      return await this.complete(
+        reference,
+        {
+          actorId,
+          reason: 'Delivery confirmed by buyer',
+          metadata: { captured_amount: intent!.capturedAmount },
+        },
+        { escrow_status: EscrowStatus.RELEASED, escrow_released_at: new Date() }
+      );
+    } catch (error) {
+      // complete() committed nothing, so the captured money goes straight back
+      await provider.refund(reference, intent!.capturedAmount);
+      await this.$query().patch({ escrow_status: EscrowStatus.REFUNDED });
+      throw error;
+    }
+  }
+
+  async voidEscrow(): Promise<void> {
+    assertPaymentSucceeded(
+      await getPaymentProvider(this.payment_provider).void(this.payment_reference!)
+    );
+
+    await this.$query().patch({ escrow_status: EscrowStatus.VOIDED });
+  }
+
+  // Failures are only logged: the sale they follow is already committed
+  private static async voidEscrows(transactions: Transaction[]): Promise<void> {
+    for (const transaction of transactions) {
+      if (transaction.escrow_status === EscrowStatus.HELD) {
+        await transaction.voidEscrow().catch((error: unknown) =>
+          logger.error(`Failed to void escrow of transaction ${transaction.id}:`, error)
+        );
+      }
+    }
   }
 
   canBeCancelled(): boolean {
-    return [TransactionStatus.PENDING, TransactionStatus.PROCESSING].includes(this.status);
+    return this.canTransitionTo(TransactionStatus.CANCELLED);
   }
 
   canBeCompleted(): boolean {
-    return this.status === TransactionStatus.PROCESSING;
+    return this.canTransitionTo(TransactionStatus.COMPLETED);
+  }
+
+  async getHistory(): Promise<TransactionEvent[]> {
+    return TransactionEvent.findByTransaction(this.id);
   }
 
   // Static methods
@@ -181,6 +617,14 @@ export class Transaction extends BaseModel {
       .orderBy('created_at', 'desc');
   }
 
+  // Transactions where the user is buyer or seller (or only the given side), unpaged
+  static forUser(userId: string, role?: 'buyer' | 'seller') {
+    return this.query().where((builder) => {
+      if (role !== 'seller') builder.orWhere('buyer_id', userId);
+      if (role !== 'buyer') builder.orWhere('seller_id', userId);
+    });
+  }
+
   static async findPending(): Promise<Transaction[]> {
     return this.query()
       .where('status', TransactionStatus.PENDING)
@@ -195,6 +639,10 @@ export class Transaction extends BaseModel {
       .orderBy('created_at', 'desc');
   }
 
+  static async findByPaymentReference(provider: string, reference: string): Promise<Transaction | undefined> {
+    return this.query().findOne({ payment_provider: provider, payment_reference: reference });
+  }
+
   static async findByTransactionNumber(transactionNumber: string): Promise<Transaction | undefined> {
     return this.query()
       .findOne({ transaction_number: transactionNumber })
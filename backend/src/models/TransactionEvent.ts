@@ -0,0 +1,63 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model } from 'objection';
+import { User } from './User';
+import { Transaction, TransactionStatus } from './Transaction';
+
+export class TransactionEvent extends BaseModel {
+  // Properties
+  transaction_id!: string;
+  from_status?: TransactionStatus;
+  to_status!: TransactionStatus;
+  actor_id?: string;
+  reason?: string;
+  metadata!: Record<string, any>;
+
+  // Relations
+  transaction?: Transaction;
+  actor?: User;
+
+  static tableName = 'transaction_events';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['transaction_id', 'to_status'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      transaction_id: { type: 'string', format: 'uuid' },
+      from_status: { type: ['string', 'null'], enum: [...Object.values(TransactionStatus), null] },
+      to_status: { type: 'string', enum: Object.values(TransactionStatus) },
+      actor_id: { type: ['string', 'null'], format: 'uuid' },
+      reason: { type: ['string', 'null'] },
+      metadata: { type: 'object', default: {} },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    transaction: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Transaction,
+      join: {
+        from: 'transaction_events.transaction_id',
+        to: 'transactions.id',
+      },
+    },
+    actor: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'transaction_events.actor_id',
+        to: 'users.id',
+      },
+    },
+  };
+
+  // Static methods
+  static async findByTransaction(transactionId: string): Promise<TransactionEvent[]> {
+    return this.query()
+      .where('transaction_id', transactionId)
+      .withGraphFetched('actor')
+      .orderBy('created_at', 'asc');
+  }
+}
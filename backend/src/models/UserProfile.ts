@@ -17,7 +17,6 @@ export interface UserPreferences {
     showLocation?: boolean;
   };
   search?: {
-    savedFilters?: any[];
     recentSearches?: string[];
   };
 }
@@ -1,11 +1,23 @@
-import { BaseModel } from './BaseModel';
-import { RelationMappings, Model } from 'objection';
+import { BaseModel, KeysetOrder } from './BaseModel';
+import crypto from 'crypto';
+import { RelationMappings, Model, QueryBuilder, StaticHookArguments, TransactionOrKnex, raw } from 'objection';
 import { User } from './User';
 import { Brand } from './Brand';
 import { VehicleModel } from './VehicleModel';
 import { VehicleImage } from './VehicleImage';
 import { Transaction } from './Transaction';
 import { Favorite } from './Favorite';
+import { Offer } from './Offer';
+import { VehicleReservation } from './VehicleReservation';
+import { VehiclePriceHistory } from './VehiclePriceHistory';
+import { boundingBox, EARTH_RADIUS_KM } from '../utils/geo';
+import { anonymizeIp } from '../utils/ip';
+import { maskPlate } from '../utils/licensePlate';
+import { cache, cacheKeys, cacheTTL } from '../config/redis';
+import { eventBus } from '../services/eventBus';
+import { SimilarityWeights } from '../config/recommendations';
+import { listingConfig } from '../config/listings';
+import { InvalidStateTransitionError } from '../middleware/errorHandler';
 
 export enum VehicleStatus {
   AVAILABLE = 'available',
@@ -14,6 +26,24 @@ export enum VehicleStatus {
   INACTIVE = 'inactive',
 }
 
+// Editorial workflow, independent of the sale status: only PUBLISHED listings are live
+export enum ListingStatus {
+  DRAFT = 'draft',
+  PENDING_REVIEW = 'pending_review',
+  SCHEDULED = 'scheduled',
+  PUBLISHED = 'published',
+  REJECTED = 'rejected',
+}
+
+// Admins may publish a draft directly, skipping the review
+export const LISTING_TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  [ListingStatus.DRAFT]: [ListingStatus.PENDING_REVIEW, ListingStatus.PUBLISHED],
+  [ListingStatus.PENDING_REVIEW]: [ListingStatus.SCHEDULED, ListingStatus.PUBLISHED, ListingStatus.REJECTED],
+  [ListingStatus.SCHEDULED]: [ListingStatus.PUBLISHED],
+  [ListingStatus.PUBLISHED]: [],
+  [ListingStatus.REJECTED]: [ListingStatus.PENDING_REVIEW],
+};
+
 export enum VehicleCondition {
   NEW = 'new',
   USED = 'used',
@@ -43,6 +73,177 @@ export enum DrivetrainType {
   FOUR_WD = '4wd',
 }
 
+export interface VehicleHighlights {
+  title: string;
+  description: string;
+}
+
+// Text search configuration (Spanish stemming + unaccent), see migration 011
+export const SEARCH_CONFIG = 'es_unaccent';
+
+export const VEHICLE_SORT_FIELDS = ['relevance', 'distance', 'price', 'year', 'mileage', 'created_at'] as const;
+
+// Must match the expression of the idx_vehicles_geo GiST index (migration 012)
+const GEO_POINT_SQL = 'point(vehicles.location_lng::float8, vehicles.location_lat::float8)';
+
+// Haversine distance in km from (?, ?) = (lat, lng)
+const DISTANCE_SQL = `${EARTH_RADIUS_KM} * 2 * asin(least(1, sqrt(
+  power(sin(radians(vehicles.location_lat - ?) / 2), 2) +
+  cos(radians(?)) * cos(radians(vehicles.location_lat)) *
+  power(sin(radians(vehicles.location_lng - ?) / 2), 2)
+)))`;
+
+// ts_headline wraps matches in these control characters; they are swapped for <mark>
+// tags only after the surrounding text has been HTML-escaped
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+const DESCRIPTION_HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+const searchTsQuery = (q: string) => raw(`websearch_to_tsquery('${SEARCH_CONFIG}', ?)`, [q]);
+
+const hasSearchPoint = (params: any): boolean => params.lat !== undefined && params.lng !== undefined;
+
+const distanceFrom = (lat: number, lng: number) => raw(DISTANCE_SQL, [lat, lat, lng]);
+
+export type SimilarityFactor = keyof SimilarityWeights;
+
+export interface SimilarityOptions {
+  weights: SimilarityWeights;
+  yearWindow: number;
+  priceBand: number;
+  maxDistanceKm: number;
+  limit: number;
+}
+
+export type VehicleFacetName =
+  | 'brand'
+  | 'model'
+  | 'year'
+  | 'price'
+  | 'fuel_type'
+  | 'transmission'
+  | 'drivetrain'
+  | 'condition'
+  | 'location_city';
+
+export interface FacetValue {
+  value: string;
+  label?: string;
+  min?: number;
+  max?: number;
+  count: number;
+}
+
+export type VehicleFacets = Record<VehicleFacetName, FacetValue[]>;
+
+// Range bucket, min inclusive and max exclusive
+export interface FacetBucket {
+  key: string;
+  min?: number;
+  max?: number;
+}
+
+export const YEAR_BUCKETS: FacetBucket[] = [
+  { key: '2020+', min: 2020 },
+  { key: '2015-2019', min: 2015, max: 2020 },
+  { key: '2010-2014', min: 2010, max: 2015 },
+  { key: '2005-2009', min: 2005, max: 2010 },
+  { key: '<2005', max: 2005 },
+];
+
+export const PRICE_BUCKETS: FacetBucket[] = [
+  { key: '<10000', max: 10000 },
+  { key: '10000-20000', min: 10000, max: 20000 },
+  { key: '20000-30000', min: 20000, max: 30000 },
+  { key: '30000-50000', min: 30000, max: 50000 },
+  { key: '50000+', min: 50000 },
+];
+
+// Search parameters that narrow each facet; they are dropped when counting that facet
+const FACET_FILTERS: Record<VehicleFacetName, string[]> = {
+  brand: ['brand_id'],
+  model: ['model_id'],
+  year: ['year_min', 'year_max'],
+  price: ['price_min', 'price_max'],
+  fuel_type: ['fuel_type'],
+  transmission: ['transmission'],
+  drivetrain: ['drivetrain'],
+  condition: ['condition'],
+  location_city: ['city'],
+};
+
+// Filters accepted by Vehicle.search() (sorting and paging aside)
+export interface VehicleSearchFilters {
+  q?: string;
+  lat?: number;
+  lng?: number;
+  radius_km?: number;
+  brand_id?: string;
+  model_id?: string;
+  year_min?: number;
+  year_max?: number;
+  price_min?: number;
+  price_max?: number;
+  mileage_max?: number;
+  condition?: VehicleCondition;
+  transmission?: TransmissionType;
+  fuel_type?: FuelType;
+  drivetrain?: DrivetrainType;
+  color?: string;
+  city?: string;
+  province?: string;
+}
+
+export const SEARCH_FILTER_KEYS: Array<keyof VehicleSearchFilters> = [
+  'q', 'lat', 'lng', 'radius_km', 'brand_id', 'model_id', 'year_min', 'year_max', 'price_min', 'price_max',
+  'mileage_max', 'condition', 'transmission', 'fuel_type', 'drivetrain', 'color', 'city', 'province',
+];
+
+// Stable hash of the active filters, independent of parameter order and paging
+const searchSignature = (params: any): string => {
+  const filters = SEARCH_FILTER_KEYS
+    .filter((key) => params[key] !== undefined && params[key] !== '')
+    .map((key) => [key, key === 'q' ? String(params[key]).trim().toLowerCase() : String(params[key])]);
+
+  return crypto.createHash('sha1').update(JSON.stringify(filters)).digest('hex');
+};
+
+const renderHighlight = (snippet: string): string =>
+  snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_STOP).join('</mark>');
+
+export type QualityFlagCode =
+  | 'price_below_median'
+  | 'duplicate_vin'
+  | 'vin_mismatch'
+  | 'duplicate_license_plate'
+  | 'plate_province_mismatch'
+  | 'mileage_inconsistent'
+  | 'duplicate_description'
+  | 'contact_in_description'
+  | 'duplicate_image';
+
+// One finding of the automated listing checks (services/listingQuality)
+export interface QualityFlag {
+  code: QualityFlagCode;
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+  details?: Record<string, any>;
+}
+
+export interface QualityReport {
+  // 100 for a clean listing, lower the more serious the flags
+  score: number;
+  flags: QualityFlag[];
+}
+
 export interface VehicleFeatures {
   safety?: string[];
   comfort?: string[];
@@ -65,7 +266,9 @@ export class Vehicle extends BaseModel {
   mileage?: number;
   color?: string;
   vin?: string;
+  manufacture_country?: string | null;
   license_plate?: string;
+  show_license_plate!: boolean;
   engine_size?: string;
   engine_type?: string;
   transmission?: TransmissionType;
@@ -86,7 +289,26 @@ export class Vehicle extends BaseModel {
   is_featured!: boolean;
   featured_until?: Date;
   published_at?: Date;
-  sold_at?: Date;
+  sold_at?: Date | null;
+  listing_status!: ListingStatus;
+  submitted_at?: Date | null;
+  reviewed_at?: Date | null;
+  reviewed_by?: string | null;
+  moderation_notes?: string | null;
+  scheduled_publish_at?: Date | null;
+  expires_at?: Date | null;
+  quality_score?: number | null;
+  quality_flags!: QualityFlag[];
+  quality_checked_at?: Date | null;
+
+  // Only present on full-text search results
+  relevance?: number;
+  highlights?: VehicleHighlights;
+  // Only present on searches around a point
+  distance_km?: number;
+  // Only present on similar-vehicle results
+  similarity_score?: number;
+  similarity_factors?: Record<SimilarityFactor, number>;
 
   // Relations
   seller?: User;
@@ -95,12 +317,17 @@ export class Vehicle extends BaseModel {
   images?: VehicleImage[];
   transactions?: Transaction[];
   favorites?: Favorite[];
+  offers?: Offer[];
+  reservations?: VehicleReservation[];
+  priceHistory?: VehiclePriceHistory[];
 
   static tableName = 'vehicles';
 
   static jsonSchema = {
     type: 'object',
     required: ['seller_id', 'brand_id', 'model_id', 'title', 'year', 'price', 'condition'],
+    // Unknown columns are rejected rather than written (search_vector is kept by a trigger)
+    additionalProperties: false,
     properties: {
       id: { type: 'string', format: 'uuid' },
       seller_id: { type: 'string', format: 'uuid' },
@@ -113,8 +340,10 @@ export class Vehicle extends BaseModel {
       negotiable: { type: 'boolean', default: true },
       mileage: { type: ['integer', 'null'], minimum: 0 },
       color: { type: ['string', 'null'], maxLength: 50 },
-      vin: { type: ['string', 'null'], minLength: 17, maxLength: 17 },
+      vin: { type: ['string', 'null'], pattern: '^[A-HJ-NPR-Z0-9]{17}$' },
+      manufacture_country: { type: ['string', 'null'], pattern: '^[A-Z]{2}$' },
       license_plate: { type: ['string', 'null'], maxLength: 20 },
+      show_license_plate: { type: 'boolean', default: false },
       engine_size: { type: ['string', 'null'], maxLength: 20 },
       engine_type: { type: ['string', 'null'], maxLength: 50 },
       transmission: { type: ['string', 'null'], enum: Object.values(TransmissionType) },
@@ -136,6 +365,16 @@ export class Vehicle extends BaseModel {
       featured_until: { type: ['string', 'null'], format: 'date-time' },
       published_at: { type: ['string', 'null'], format: 'date-time' },
       sold_at: { type: ['string', 'null'], format: 'date-time' },
+      listing_status: { type: 'string', enum: Object.values(ListingStatus), default: ListingStatus.DRAFT },
+      submitted_at: { type: ['string', 'null'], format: 'date-time' },
+      reviewed_at: { type: ['string', 'null'], format: 'date-time' },
+      reviewed_by: { type: ['string', 'null'], format: 'uuid' },
+      moderation_notes: { type: ['string', 'null'], maxLength: 2000 },
+      scheduled_publish_at: { type: ['string', 'null'], format: 'date-time' },
+      expires_at: { type: ['string', 'null'], format: 'date-time' },
+      quality_score: { type: ['integer', 'null'], minimum: 0, maximum: 100 },
+      quality_flags: { type: 'array', default: [] },
+      quality_checked_at: { type: ['string', 'null'], format: 'date-time' },
       created_at: { type: 'string', format: 'date-time' },
       updated_at: { type: 'string', format: 'date-time' },
     },
@@ -191,6 +430,31 @@ export class Vehicle extends BaseModel {
         to: 'favorites.vehicle_id',
       },
     },
+    offers: {
+      relation: Model.HasManyRelation,
+      modelClass: () => Offer,
+      join: {
+        from: 'vehicles.id',
+        to: 'offers.vehicle_id',
+      },
+    },
+    reservations: {
+      relation: Model.HasManyRelation,
+      modelClass: () => VehicleReservation,
+      join: {
+        from: 'vehicles.id',
+        to: 'vehicle_reservations.vehicle_id',
+      },
+    },
+    priceHistory: {
+      relation: Model.HasManyRelation,
+      modelClass: () => VehiclePriceHistory,
+      join: {
+        from: 'vehicles.id',
+        to: 'vehicle_price_history.vehicle_id',
+      },
+      modify: (query) => query.orderBy('created_at', 'asc'),
+    },
   };
 
   // Instance methods
@@ -200,6 +464,16 @@ export class Vehicle extends BaseModel {
       .increment('views_count', 1);
   }
 
+  // Logs a detail-page visit for recommendations and bumps the public counter. The
+  // IP is truncated before it is stored.
+  async recordView(viewer: { userId?: string; ip?: string; userAgent?: string }) {
+    await Vehicle.knex().raw(
+      'INSERT INTO vehicle_views (vehicle_id, user_id, ip_address, user_agent) VALUES (?, ?, ?, ?)',
+      [this.id, viewer.userId || null, anonymizeIp(viewer.ip), viewer.userAgent || null]
+    );
+    await this.incrementViewCount();
+  }
+
   async updateFavoriteCount() {
     const count = await Favorite.query()
       .where('vehicle_id', this.id)
@@ -211,36 +485,200 @@ export class Vehicle extends BaseModel {
       .patch({ favorites_count: parseInt(count?.count as string || '0') });
   }
 
-  async markAsSold(buyerId: string) {
-    await this.$query().patch({
+  async markAsSold(buyerId: string, trx?: TransactionOrKnex) {
+    await this.$query(trx).patch({
       status: VehicleStatus.SOLD,
       sold_at: new Date(),
     });
   }
 
-  async markAsReserved() {
-    await this.$query().patch({
+  async markAsReserved(trx?: TransactionOrKnex) {
+    await this.$query(trx).patch({
       status: VehicleStatus.RESERVED,
     });
   }
 
-  async markAsAvailable() {
-    await this.$query().patch({
+  async markAsAvailable(trx?: TransactionOrKnex) {
+    await this.$query(trx).patch({
       status: VehicleStatus.AVAILABLE,
     });
   }
 
+  async recordQuality(report: QualityReport, trx?: TransactionOrKnex): Promise<void> {
+    const patch = { quality_score: report.score, quality_flags: report.flags, quality_checked_at: new Date() };
+
+    await this.$query(trx).patch(patch);
+    this.$set(patch);
+  }
+
+  // The seller sees the full plate on their own listing
+  toOwnerJson() {
+    return { ...this.toJSON(), license_plate: this.license_plate ?? null };
+  }
+
+  // Moderators see the quality check results that the public JSON leaves out
+  toModerationJson() {
+    return {
+      ...this.toOwnerJson(),
+      quality_score: this.quality_score ?? null,
+      quality_flags: this.quality_flags || [],
+      quality_checked_at: this.quality_checked_at ?? null,
+    };
+  }
+
+  canTransitionListingTo(status: ListingStatus): boolean {
+    return LISTING_TRANSITIONS[this.listing_status].includes(status);
+  }
+
+  // Moves the listing through the editorial workflow and tells the seller about it
+  private async transitionListing(status: ListingStatus, patch: Partial<Vehicle> = {}, trx?: TransactionOrKnex) {
+    if (!this.canTransitionListingTo(status)) {
+      throw new InvalidStateTransitionError('listing', this.listing_status, status);
+    }
+
+    // Guard on the current state so a double submit or review cannot both win
+    const updated = await Vehicle.query(trx)
+      .where('id', this.id)
+      .where('listing_status', this.listing_status)
+      .patch({ ...patch, listing_status: status });
+
+    if (!updated) {
+      throw new InvalidStateTransitionError('listing', this.listing_status, status);
+    }
+
+    const fromStatus = this.listing_status;
+    this.$set({ ...patch, listing_status: status });
+
+    eventBus.publishAfterCommit(trx, 'vehicle.listing_status_changed', {
+      vehicleId: this.id,
+      sellerId: this.seller_id,
+      fromStatus,
+      toStatus: status,
+    });
+  }
+
+  // Sends a draft (or a rejected listing after edits) to the moderation queue. The
+  // seller may ask for it to go live at a later date once approved.
+  async submitForReview(publishAt?: Date | null, trx?: TransactionOrKnex): Promise<void> {
+    await this.transitionListing(
+      ListingStatus.PENDING_REVIEW,
+      { submitted_at: new Date(), scheduled_publish_at: publishAt || null },
+      trx
+    );
+  }
+
+  // Approves a listing under review. It goes live now, or is scheduled when a future
+  // date was requested by the seller or set by the moderator.
+  // Without a moderator the approval was automatic (a clean quality check)
+  async approve(
+    moderatorId: string | null,
+    options: { notes?: string; publishAt?: Date | null } = {},
+    trx?: TransactionOrKnex
+  ): Promise<void> {
+    const publishAt = options.publishAt !== undefined ? options.publishAt : this.scheduled_publish_at;
+    const review = { reviewed_at: new Date(), reviewed_by: moderatorId, moderation_notes: options.notes || null };
+
+    if (publishAt && new Date(publishAt) > new Date()) {
+      await this.transitionListing(ListingStatus.SCHEDULED, { ...review, scheduled_publish_at: publishAt }, trx);
+    } else {
+      await this.publish(review, trx);
+    }
+  }
+
+  async reject(moderatorId: string, notes: string, trx?: TransactionOrKnex): Promise<void> {
+    await this.transitionListing(
+      ListingStatus.REJECTED,
+      { reviewed_at: new Date(), reviewed_by: moderatorId, moderation_notes: notes, scheduled_publish_at: null },
+      trx
+    );
+  }
+
+  // Makes the listing visible in search and announces it (saved-search alerts). It
+  // stays up for LISTING_TTL_DAYS before it expires.
+  async publish(patch: Partial<Vehicle> = {}, trx?: TransactionOrKnex): Promise<void> {
+    const publishedAt = new Date();
+
+    await this.transitionListing(
+      ListingStatus.PUBLISHED,
+      {
+        ...patch,
+        published_at: publishedAt,
+        scheduled_publish_at: null,
+        expires_at: Vehicle.expiryFrom(publishedAt),
+      },
+      trx
+    );
+
+    eventBus.publishAfterCommit(trx, 'vehicle.published', { vehicleId: this.id, sellerId: this.seller_id });
+  }
+
+  // Approved for the public catalogue; `status` still says whether it can be bought
+  isPublished(): boolean {
+    return this.listing_status === ListingStatus.PUBLISHED;
+  }
+
+  isExpired(): boolean {
+    return Boolean(this.expires_at) && new Date(this.expires_at!) <= new Date();
+  }
+
+  // Takes a published listing that outlived its period off the catalogue
+  async expire(trx?: TransactionOrKnex): Promise<void> {
+    await this.$query(trx).patch({ status: VehicleStatus.INACTIVE });
+    this.status = VehicleStatus.INACTIVE;
+  }
+
+  // Starts a new listing period; an expired listing goes back on the catalogue
+  async renew(trx?: TransactionOrKnex): Promise<void> {
+    const patch: Partial<Vehicle> = { expires_at: Vehicle.expiryFrom(new Date()) };
+
+    if (this.status === VehicleStatus.INACTIVE && this.isExpired()) {
+      patch.status = VehicleStatus.AVAILABLE;
+    }
+
+    await this.$query(trx).patch(patch);
+    this.$set(patch);
+  }
+
   // Static methods
+  static expiryFrom(date: Date): Date {
+    return new Date(date.getTime() + listingConfig.ttlDays * 24 * 60 * 60 * 1000);
+  }
+
+  // Oldest submissions first
+  static moderationQueue() {
+    return this.query()
+      .where('listing_status', ListingStatus.PENDING_REVIEW)
+      .orderBy('submitted_at', 'asc');
+  }
+
+  static async findDueForPublishing(limit: number): Promise<Vehicle[]> {
+    return this.query()
+      .where('listing_status', ListingStatus.SCHEDULED)
+      .where('scheduled_publish_at', '<=', new Date())
+      .orderBy('scheduled_publish_at', 'asc')
+      .limit(limit);
+  }
+
+  static async findExpired(limit: number): Promise<Vehicle[]> {
+    return this.query()
+      .where('listing_status', ListingStatus.PUBLISHED)
+      .where('status', VehicleStatus.AVAILABLE)
+      .where('expires_at', '<=', new Date())
+      .orderBy('expires_at', 'asc')
+      .limit(limit);
+  }
+
   static async findAvailable() {
     return this.query()
       .where('status', VehicleStatus.AVAILABLE)
-      .whereNotNull('published_at')
+      .where('listing_status', ListingStatus.PUBLISHED)
       .orderBy('created_at', 'desc');
   }
 
   static async findFeatured() {
     return this.query()
       .where('status', VehicleStatus.AVAILABLE)
+      .where('listing_status', ListingStatus.PUBLISHED)
       .where('is_featured', true)
       .where('featured_until', '>', new Date())
       .orderBy('featured_until', 'desc');
@@ -249,6 +687,7 @@ export class Vehicle extends BaseModel {
   static async findByLocation(city: string, province?: string) {
     let query = this.query()
       .where('status', VehicleStatus.AVAILABLE)
+      .where('listing_status', ListingStatus.PUBLISHED)
       .where('location_city', city);
     
     if (province) {
@@ -258,46 +697,355 @@ export class Vehicle extends BaseModel {
     return query.orderBy('created_at', 'desc');
   }
 
-  static async search(params: any) {
-    let query = this.query()
+  // Listed titles resembling the typed text, typos included (trigram index from
+  // migration 015). `q` comes normalized (normalizeSearchText).
+  static async findSimilarTitles(q: string, limit: number = 5): Promise<Vehicle[]> {
+    return this.query()
+      .select('id', 'title', 'price', 'year')
       .where('status', VehicleStatus.AVAILABLE)
-      .whereNotNull('published_at');
+      .where('listing_status', ListingStatus.PUBLISHED)
+      .whereRaw('? <% search_normalize(title)', [q])
+      .orderByRaw('word_similarity(?, search_normalize(title)) DESC', [q])
+      .orderBy('views_count', 'desc')
+      .limit(limit);
+  }
+
+  // Available listings ranked by resemblance to `vehicle`. Every factor is a 0..1 value
+  // (exact match, or linear decay over the year window, price band and distance) and
+  // the score is their weighted sum; both come back on the rows.
+  static findSimilarTo(vehicle: Vehicle, options: SimilarityOptions) {
+    const price = Number(vehicle.price);
+    const hasLocation = vehicle.location_lat != null && vehicle.location_lng != null;
+    const factors: Array<[SimilarityFactor, string, any[]]> = [
+      ['model', '(vehicles.model_id = ?)::int', [vehicle.model_id]],
+      ['brand', '(vehicles.brand_id = ?)::int', [vehicle.brand_id]],
+      ['year', 'greatest(0, 1 - abs(vehicles.year - ?)::float8 / ?)', [vehicle.year, Math.max(options.yearWindow, 1)]],
+      [
+        'price',
+        'greatest(0, 1 - abs(vehicles.price - ?)::float8 / ?)',
+        [price, Math.max(price * options.priceBand, 1)],
+      ],
+      ['fuelType', 'coalesce(vehicles.fuel_type::text = ?, false)::int', [vehicle.fuel_type ?? null]],
+      ['transmission', 'coalesce(vehicles.transmission::text = ?, false)::int', [vehicle.transmission ?? null]],
+      hasLocation
+        ? [
+            'distance',
+            `coalesce(greatest(0, 1 - (${DISTANCE_SQL}) / ?), 0)`,
+            [vehicle.location_lat, vehicle.location_lat, vehicle.location_lng, Math.max(options.maxDistanceKm, 1)],
+          ]
+        : ['distance', '0', []],
+    ];
+
+    const factorsSql = factors.map(([name, sql]) => `'${name}', ${sql}`).join(', ');
+    const scoreSql = factors.map(([, sql]) => `? * (${sql})`).join(' + ');
+
+    let query = this.query()
+      .select('vehicles.*')
+      .select(raw(`json_build_object(${factorsSql}) AS similarity_factors`, factors.flatMap(([, , bindings]) => bindings)))
+      .select(
+        raw(
+          `(${scoreSql}) AS similarity_score`,
+          factors.flatMap(([name, , bindings]) => [options.weights[name], ...bindings])
+        )
+      )
+      .where('vehicles.status', VehicleStatus.AVAILABLE)
+      .where('vehicles.listing_status', ListingStatus.PUBLISHED)
+      .whereNot('vehicles.id', vehicle.id);
+
+    if (hasLocation) {
+      query = query.select(raw('? AS distance_km', [distanceFrom(vehicle.location_lat!, vehicle.location_lng!)]));
+    }
+
+    return query
+      .orderBy('similarity_score', 'desc')
+      .orderBy('vehicles.published_at', 'desc')
+      .limit(options.limit);
+  }
+
+  // Conditions shared by the listing and its facet counts
+  static applySearchFilters(query: QueryBuilder<Vehicle, Vehicle[]>, params: any): QueryBuilder<Vehicle, Vehicle[]> {
+    query = query
+      .where('vehicles.status', VehicleStatus.AVAILABLE)
+      .where('vehicles.listing_status', ListingStatus.PUBLISHED);
 
-    // Text search
+    // Full-text search over title, brand, model and description (GIN-indexed search_vector)
     if (params.q) {
-      query = query.where((builder) => {
-        builder
-          .where('title', 'ilike', `%${params.q}%`)
-          .orWhere('description', 'ilike', `%${params.q}%`);
-      });
+      query = query.whereRaw('vehicles.search_vector @@ ?', [searchTsQuery(params.q)]);
+    }
+
+    // Radius around a point. The bounding box lets the GiST index discard far-away
+    // listings before the exact great-circle check.
+    if (hasSearchPoint(params)) {
+      const lat = Number(params.lat);
+      const lng = Number(params.lng);
+
+      query = query
+        .whereNotNull('vehicles.location_lat')
+        .whereNotNull('vehicles.location_lng');
+
+      if (params.radius_km) {
+        const radiusKm = Number(params.radius_km);
+        const box = boundingBox({ lat, lng }, radiusKm);
+
+        query = query
+          .whereRaw(`${GEO_POINT_SQL} <@ box(point(?, ?), point(?, ?))`, [box.minLng, box.minLat, box.maxLng, box.maxLat])
+          .whereRaw('? <= ?', [distanceFrom(lat, lng), radiusKm]);
+      }
     }
 
     // Filters
-    if (params.brand_id) query = query.where('brand_id', params.brand_id);
-    if (params.model_id) query = query.where('model_id', params.model_id);
-    if (params.year_min) query = query.where('year', '>=', params.year_min);
-    if (params.year_max) query = query.where('year', '<=', params.year_max);
-    if (params.price_min) query = query.where('price', '>=', params.price_min);
-    if (params.price_max) query = query.where('price', '<=', params.price_max);
-    if (params.mileage_max) query = query.where('mileage', '<=', params.mileage_max);
-    if (params.condition) query = query.where('condition', params.condition);
-    if (params.transmission) query = query.where('transmission', params.transmission);
-    if (params.fuel_type) query = query.where('fuel_type', params.fuel_type);
-    if (params.drivetrain) query = query.where('drivetrain', params.drivetrain);
-    if (params.color) query = query.where('color', 'ilike', `%${params.color}%`);
-    if (params.city) query = query.where('location_city', params.city);
-    if (params.province) query = query.where('location_province', params.province);
-
-    // Sorting
-    const sortBy = params.sort || 'created_at';
+    if (params.brand_id) query = query.where('vehicles.brand_id', params.brand_id);
+    if (params.model_id) query = query.where('vehicles.model_id', params.model_id);
+    if (params.year_min) query = query.where('vehicles.year', '>=', params.year_min);
+    if (params.year_max) query = query.where('vehicles.year', '<=', params.year_max);
+    if (params.price_min) query = query.where('vehicles.price', '>=', params.price_min);
+    if (params.price_max) query = query.where('vehicles.price', '<=', params.price_max);
+    if (params.mileage_max) query = query.where('vehicles.mileage', '<=', params.mileage_max);
+    if (params.condition) query = query.where('vehicles.condition', params.condition);
+    if (params.transmission) query = query.where('vehicles.transmission', params.transmission);
+    if (params.fuel_type) query = query.where('vehicles.fuel_type', params.fuel_type);
+    if (params.drivetrain) query = query.where('vehicles.drivetrain', params.drivetrain);
+    if (params.color) query = query.where('vehicles.color', 'ilike', `%${params.color}%`);
+    if (params.city) query = query.where('vehicles.location_city', params.city);
+    if (params.province) query = query.where('vehicles.location_province', params.province);
+
+    return query;
+  }
+
+  static search(params: any) {
+    let query = this.applySearchFilters(this.query().select('vehicles.*'), params);
+
+    if (params.q) {
+      const tsQuery = searchTsQuery(params.q);
+
+      query = query
+        .select(raw('ts_rank_cd(vehicles.search_vector, ?, 32) AS relevance', [tsQuery]))
+        .select(raw(
+          `json_build_object(
+            'title', ts_headline('${SEARCH_CONFIG}', vehicles.title, ?, ?),
+            'description', ts_headline('${SEARCH_CONFIG}', COALESCE(vehicles.description, ''), ?, ?)
+          ) AS highlights`,
+          [tsQuery, TITLE_HEADLINE_OPTIONS, tsQuery, DESCRIPTION_HEADLINE_OPTIONS]
+        ));
+    }
+
+    const hasPoint = hasSearchPoint(params);
+
+    if (hasPoint) {
+      query = query.select(raw('? AS distance_km', [distanceFrom(Number(params.lat), Number(params.lng))]));
+    }
+
+    // Sorting: text searches rank by relevance unless another order is requested
+    const sortBy = params.sort || (params.q ? 'relevance' : 'created_at');
     const order = params.order || 'desc';
-    query = query.orderBy(sortBy, order);
+
+    if (sortBy === 'relevance') {
+      if (params.q) query = query.orderBy('relevance', 'desc');
+      query = query.orderBy('vehicles.created_at', 'desc');
+    } else if (sortBy === 'distance') {
+      if (hasPoint) query = query.orderBy('distance_km', params.order || 'asc');
+      query = query.orderBy('vehicles.created_at', 'desc');
+    } else {
+      query = query.orderBy(`vehicles.${sortBy}`, order);
+    }
 
     return query;
   }
 
+  // Same order as search(), expressed for cursor pagination (paginate() with a keyset).
+  // Ties are broken by id instead of by publication date.
+  static searchKeyset(params: any): KeysetOrder {
+    const sortBy = params.sort || (params.q ? 'relevance' : 'created_at');
+    const order: 'asc' | 'desc' = params.order || 'desc';
+    const id = 'vehicles.id';
+
+    if (sortBy === 'relevance' && params.q) {
+      return {
+        key: `ts_rank_cd(vehicles.search_vector, websearch_to_tsquery('${SEARCH_CONFIG}', ?), 32)`,
+        bindings: [params.q],
+        id,
+        order: 'desc',
+      };
+    }
+    if (sortBy === 'distance' && hasSearchPoint(params)) {
+      const lat = Number(params.lat);
+      const lng = Number(params.lng);
+
+      return { key: DISTANCE_SQL, bindings: [lat, lat, lng], id, order: params.order || 'asc' };
+    }
+    if (sortBy === 'relevance' || sortBy === 'distance') {
+      return { key: 'vehicles.created_at', id, order: 'desc' };
+    }
+    // Listings without mileage go last in ascending order and first in descending,
+    // as PostgreSQL sorts NULLs by default
+    if (sortBy === 'mileage') {
+      return { key: `COALESCE(vehicles.mileage, ${2 ** 31 - 1})`, id, order };
+    }
+
+    return { key: `vehicles.${sortBy}`, id, order };
+  }
+
+  // Counts for the filter sidebar. Each facet is counted with every active filter
+  // except its own, so the other values show what switching to them would return.
+  // Cached per filter signature; pagination and sorting don't affect the counts.
+  static async searchFacets(params: any): Promise<VehicleFacets> {
+    const cacheKey = cacheKeys.vehicleList(`facets:${searchSignature(params)}`);
+    const cached = await cache.get<VehicleFacets>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const filtered = (facet: VehicleFacetName) => {
+      const rest = { ...params };
+      FACET_FILTERS[facet].forEach((key) => delete rest[key]);
+      return this.applySearchFilters(this.query(), rest);
+    };
+
+    const countBy = async (facet: VehicleFacetName, column: string): Promise<FacetValue[]> => {
+      const rows: any[] = await filtered(facet)
+        .select(`vehicles.${column} as value`)
+        .count('* as count')
+        .whereNotNull(`vehicles.${column}`)
+        .groupBy(`vehicles.${column}`)
+        .orderBy('count', 'desc');
+
+      return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+    };
+
+    const countByName = async (facet: VehicleFacetName, table: 'brands' | 'models', column: string): Promise<FacetValue[]> => {
+      const rows: any[] = await filtered(facet)
+        .join(table, `${table}.id`, `vehicles.${column}`)
+        .select(`${table}.id as value`, `${table}.name as label`)
+        .count('* as count')
+        .groupBy(`${table}.id`, `${table}.name`)
+        .orderBy([{ column: 'count', order: 'desc' }, { column: 'label', order: 'asc' }]);
+
+      return rows.map((row) => ({ value: row.value, label: row.label, count: Number(row.count) }));
+    };
+
+    const countBuckets = async (facet: VehicleFacetName, column: string, buckets: FacetBucket[]): Promise<FacetValue[]> => {
+      const row: any = await filtered(facet)
+        .select(buckets.map((bucket, index) => {
+          const bounds = [
+            ...(bucket.min !== undefined ? [`vehicles.${column} >= ${bucket.min}`] : []),
+            ...(bucket.max !== undefined ? [`vehicles.${column} < ${bucket.max}`] : []),
+          ];
+          return raw(`count(*) FILTER (WHERE ${bounds.join(' AND ')}) AS bucket_${index}`);
+        }))
+        .first();
+
+      return buckets.map((bucket, index) => ({
+        value: bucket.key,
+        min: bucket.min,
+        max: bucket.max,
+        count: Number(row?.[`bucket_${index}`] || 0),
+      }));
+    };
+
+    const [brand, model, year, price, fuelType, transmission, drivetrain, condition, locationCity] = await Promise.all([
+      countByName('brand', 'brands', 'brand_id'),
+      countByName('model', 'models', 'model_id'),
+      countBuckets('year', 'year', YEAR_BUCKETS),
+      countBuckets('price', 'price', PRICE_BUCKETS),
+      countBy('fuel_type', 'fuel_type'),
+      countBy('transmission', 'transmission'),
+      countBy('drivetrain', 'drivetrain'),
+      countBy('condition', 'condition'),
+      countBy('location_city', 'location_city'),
+    ]);
+
+    const facets: VehicleFacets = {
+      brand,
+      model,
+      year,
+      price,
+      fuel_type: fuelType,
+      transmission,
+      drivetrain,
+      condition,
+      location_city: locationCity,
+    };
+
+    await cache.set(cacheKey, facets, cacheTTL.short);
+
+    return facets;
+  }
+
+  // The raw search document is an index, not part of the API, and the quality check
+  // results would tell fraudsters which rule caught them
+  $formatJson(json: any) {
+    json = super.$formatJson(json);
+    delete json.search_vector;
+    delete json.quality_score;
+    delete json.quality_flags;
+    delete json.quality_checked_at;
+    if (json.license_plate && !json.show_license_plate) {
+      json.license_plate = maskPlate(json.license_plate);
+    }
+    return json;
+  }
+
   // Hooks
+  // Price and status changes are announced (favorite watchers) whichever way the
+  // update is written. The previous values are read first, inside the same
+  // transaction, and compared with what the update left behind.
+  static async beforeUpdate({ asFindQuery, inputItems, context }: StaticHookArguments<Vehicle>) {
+    const watched = inputItems.some((item) => item.price !== undefined || item.status !== undefined);
+
+    if (watched) {
+      context.watchedVehicles = await asFindQuery().select('vehicles.id', 'vehicles.price', 'vehicles.status');
+    }
+  }
+
+  static async afterUpdate({ context, transaction }: StaticHookArguments<Vehicle>) {
+    const before: Vehicle[] | undefined = context.watchedVehicles;
+
+    if (!before?.length) {
+      return;
+    }
+
+    const after = await Vehicle.query(transaction)
+      .findByIds(before.map((vehicle) => vehicle.id))
+      .select('id', 'seller_id', 'price', 'status');
+    const previous = new Map(before.map((vehicle) => [vehicle.id, vehicle]));
+
+    for (const vehicle of after) {
+      const old = previous.get(vehicle.id)!;
+
+      if (Number(old.price) !== Number(vehicle.price)) {
+        eventBus.publishAfterCommit(transaction, 'vehicle.price_changed', {
+          vehicleId: vehicle.id,
+          sellerId: vehicle.seller_id,
+          oldPrice: Number(old.price),
+          newPrice: Number(vehicle.price),
+        });
+      }
+      if (old.status !== vehicle.status) {
+        eventBus.publishAfterCommit(transaction, 'vehicle.status_changed', {
+          vehicleId: vehicle.id,
+          sellerId: vehicle.seller_id,
+          fromStatus: old.status,
+          toStatus: vehicle.status,
+        });
+      }
+    }
+  }
+
   async $afterFind() {
+    if (this.relevance !== undefined) {
+      this.relevance = Number(this.relevance);
+    }
+    if (this.distance_km != null) {
+      this.distance_km = Math.round(Number(this.distance_km) * 100) / 100;
+    }
+    if (this.highlights) {
+      this.highlights = {
+        title: renderHighlight(this.highlights.title),
+        description: renderHighlight(this.highlights.description),
+      };
+    }
+
     // Parse features JSON if it's a string
     if (typeof this.features === 'string') {
       try {
@@ -1,6 +1,16 @@
 import { BaseModel } from './BaseModel';
 import { RelationMappings, Model } from 'objection';
 import { Vehicle } from './Vehicle';
+import { ImageVariant } from '../config/images';
+
+// One generated size of a photo: the same pixels as AVIF, WebP and a JPEG fallback
+export interface ImageVariantUrls {
+  width: number;
+  height: number;
+  avif: string;
+  webp: string;
+  jpeg: string;
+}
 
 export class VehicleImage extends BaseModel {
   // Properties
@@ -9,6 +19,13 @@ export class VehicleImage extends BaseModel {
   thumbnail_url?: string;
   is_primary!: boolean;
   display_order!: number;
+  width?: number | null;
+  height?: number | null;
+  variants!: Partial<Record<ImageVariant, ImageVariantUrls>>;
+  // Placeholder the clients paint while the photo loads
+  blurhash?: string | null;
+  // Perceptual hash (utils/imageHash), 16 hex characters
+  phash?: string | null;
 
   // Relations
   vehicle?: Vehicle;
@@ -25,6 +42,11 @@ export class VehicleImage extends BaseModel {
       thumbnail_url: { type: ['string', 'null'], maxLength: 500 },
       is_primary: { type: 'boolean', default: false },
       display_order: { type: 'integer', default: 0 },
+      width: { type: ['integer', 'null'], minimum: 1 },
+      height: { type: ['integer', 'null'], minimum: 1 },
+      variants: { type: 'object', default: {} },
+      blurhash: { type: ['string', 'null'], maxLength: 100 },
+      phash: { type: ['string', 'null'], pattern: '^[0-9a-f]{16}$' },
       created_at: { type: 'string', format: 'date-time' },
     },
   };
@@ -40,6 +62,13 @@ export class VehicleImage extends BaseModel {
     },
   };
 
+  // The perceptual hash is only used internally to spot duplicate photos
+  $formatJson(json: any) {
+    json = super.$formatJson(json);
+    delete json.phash;
+    return json;
+  }
+
   // Static methods
   static async findByVehicle(vehicleId: string): Promise<VehicleImage[]> {
     return this.query()
@@ -1,7 +1,8 @@
 import { BaseModel } from './BaseModel';
-import { RelationMappings, Model } from 'objection';
+import { RelationMappings, Model, raw } from 'objection';
 import { Brand } from './Brand';
 import { Vehicle } from './Vehicle';
+import { NAME_SIMILARITY_THRESHOLD, nameSimilaritySql } from '../utils/textSearch';
 
 export class VehicleModel extends BaseModel {
   // Properties
@@ -104,4 +105,21 @@ export class VehicleModel extends BaseModel {
       .limit(limit)
       .withGraphFetched('brand');
   }
+
+  // Typo-tolerant match on "<brand> <model>", so "toyta hilux" finds the Toyota Hilux.
+  // `q` comes normalized (normalizeSearchText).
+  static async findSimilar(q: string, limit: number = 5): Promise<VehicleModel[]> {
+    const score = raw(nameSimilaritySql(`brands.name || ' ' || models.name`), [q, q]);
+
+    return this.query()
+      .select('models.*')
+      .join('brands', 'brands.id', 'models.brand_id')
+      .where('models.is_active', true)
+      .where('brands.is_active', true)
+      .whereRaw('? >= ?', [score, NAME_SIMILARITY_THRESHOLD])
+      .orderByRaw('? DESC', [score])
+      .orderBy('models.name')
+      .limit(limit)
+      .withGraphFetched('brand');
+  }
 }
@@ -0,0 +1,58 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model } from 'objection';
+import { Vehicle } from './Vehicle';
+
+// Rows are written by the record_vehicles_price_history trigger (migration 014)
+export class VehiclePriceHistory extends BaseModel {
+  // Properties
+  vehicle_id!: string;
+  old_price?: number | null;
+  new_price!: number;
+
+  // Relations
+  vehicle?: Vehicle;
+
+  static tableName = 'vehicle_price_history';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['vehicle_id', 'new_price'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      vehicle_id: { type: 'string', format: 'uuid' },
+      old_price: { type: ['number', 'null'], minimum: 0 },
+      new_price: { type: 'number', minimum: 0 },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    vehicle: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Vehicle,
+      join: {
+        from: 'vehicle_price_history.vehicle_id',
+        to: 'vehicles.id',
+      },
+    },
+  };
+
+  // Static methods
+  static async findByVehicle(vehicleId: string): Promise<VehiclePriceHistory[]> {
+    return this.query()
+      .where('vehicle_id', vehicleId)
+      .orderBy('created_at', 'asc');
+  }
+
+  // Hooks
+  async $afterFind() {
+    // Decimal columns come back from pg as strings; the chart needs numbers
+    if (this.new_price != null) {
+      this.new_price = Number(this.new_price);
+    }
+    if (this.old_price != null) {
+      this.old_price = Number(this.old_price);
+    }
+  }
+}
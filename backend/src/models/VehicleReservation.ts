@@ -0,0 +1,295 @@
+import { BaseModel } from './BaseModel';
+import { RelationMappings, Model, TransactionOrKnex } from 'objection';
+import { v4 as uuidv4 } from 'uuid';
+import { User } from './User';
+import { Vehicle, VehicleStatus } from './Vehicle';
+import { EscrowStatus, PAYMENT_CURRENCY, Transaction, TransactionStatus } from './Transaction';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { assertPaymentSucceeded, getPaymentProvider } from '../services/payments';
+import { afterCommit } from '../utils/afterCommit';
+import { logger } from '../utils/logger';
+
+export enum ReservationStatus {
+  ACTIVE = 'active',
+  RELEASED = 'released',
+  EXPIRED = 'expired',
+  CONVERTED = 'converted',
+}
+
+// Default length of a hold before the sweeper returns the vehicle to the catalog
+export const RESERVATION_DEFAULT_TTL_HOURS = 72;
+
+export class VehicleReservation extends BaseModel {
+  // Properties
+  vehicle_id!: string;
+  user_id!: string;
+  transaction_id?: string;
+  deposit_amount!: number;
+  deposit_provider?: string | null;
+  deposit_reference?: string | null;
+  deposit_status?: EscrowStatus | null;
+  status!: ReservationStatus;
+  expires_at!: Date;
+  released_at?: Date;
+  release_reason?: string;
+
+  // Relations
+  vehicle?: Vehicle;
+  user?: User;
+  transaction?: Transaction;
+
+  static tableName = 'vehicle_reservations';
+
+  static jsonSchema = {
+    type: 'object',
+    required: ['vehicle_id', 'user_id', 'expires_at'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      vehicle_id: { type: 'string', format: 'uuid' },
+      user_id: { type: 'string', format: 'uuid' },
+      transaction_id: { type: ['string', 'null'], format: 'uuid' },
+      deposit_amount: { type: 'number', minimum: 0, default: 0 },
+      deposit_provider: { type: ['string', 'null'], maxLength: 50 },
+      deposit_reference: { type: ['string', 'null'], maxLength: 255 },
+      deposit_status: { type: ['string', 'null'] },
+      status: { type: 'string', enum: Object.values(ReservationStatus), default: ReservationStatus.ACTIVE },
+      expires_at: { type: 'string', format: 'date-time' },
+      released_at: { type: ['string', 'null'], format: 'date-time' },
+      release_reason: { type: ['string', 'null'] },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+    },
+  };
+
+  static relationMappings: RelationMappings = {
+    vehicle: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Vehicle,
+      join: {
+        from: 'vehicle_reservations.vehicle_id',
+        to: 'vehicles.id',
+      },
+    },
+    user: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => User,
+      join: {
+        from: 'vehicle_reservations.user_id',
+        to: 'users.id',
+      },
+    },
+    transaction: {
+      relation: Model.BelongsToOneRelation,
+      modelClass: () => Transaction,
+      join: {
+        from: 'vehicle_reservations.transaction_id',
+        to: 'transactions.id',
+      },
+    },
+  };
+
+  // Instance methods
+  isActive(): boolean {
+    return this.status === ReservationStatus.ACTIVE;
+  }
+
+  isExpired(): boolean {
+    return new Date(this.expires_at).getTime() <= Date.now();
+  }
+
+  async release(reason: string, trx?: TransactionOrKnex): Promise<void> {
+    await this.end(ReservationStatus.RELEASED, reason, trx);
+  }
+
+  async expire(trx?: TransactionOrKnex): Promise<void> {
+    await this.end(ReservationStatus.EXPIRED, 'Reservation expired', trx);
+  }
+
+  // Ends an active hold and puts the vehicle back on sale if it is still held by it
+  private async end(status: ReservationStatus, reason: string, trx?: TransactionOrKnex): Promise<void> {
+    const updated = await VehicleReservation.query(trx)
+      .where('id', this.id)
+      .where('status', ReservationStatus.ACTIVE)
+      .patch({
+        status,
+        released_at: new Date(),
+        release_reason: reason,
+      });
+
+    if (!updated) {
+      throw new ConflictError(`Reservation is already ${this.status}`);
+    }
+
+    const vehicle = await Vehicle.query(trx).findById(this.vehicle_id);
+
+    if (vehicle && vehicle.status === VehicleStatus.RESERVED) {
+      await vehicle.markAsAvailable(trx);
+    }
+
+    this.$set({ status, released_at: new Date(), release_reason: reason });
+
+    afterCommit(trx, () => {
+      void this.voidDeposit();
+    });
+  }
+
+  // Gives the buyer's deposit back once the hold is over. Failures are only logged: the
+  // authorization lapses at the processor on its own.
+  async voidDeposit(): Promise<void> {
+    if (!this.deposit_reference || this.deposit_status !== EscrowStatus.HELD) {
+      return;
+    }
+
+    try {
+      assertPaymentSucceeded(await getPaymentProvider(this.deposit_provider!).void(this.deposit_reference));
+      await this.$query().patch({ deposit_status: EscrowStatus.VOIDED });
+      this.deposit_status = EscrowStatus.VOIDED;
+    } catch (error: unknown) {
+      logger.error(`Failed to void the deposit of reservation ${this.id}:`, error);
+    }
+  }
+
+  // Static methods
+  static computeExpiry(expiresInHours: number = RESERVATION_DEFAULT_TTL_HOURS): Date {
+    return new Date(Date.now() + expiresInHours * 60 * 60 * 1000);
+  }
+
+  // Places a time-boxed hold on an available vehicle. The partial unique index on
+  // (vehicle_id) WHERE status = 'active' guarantees a single active hold per vehicle.
+  static async hold(
+    data: {
+      id?: string;
+      vehicle_id: string;
+      user_id: string;
+      deposit_amount?: number;
+      deposit_provider?: string;
+      deposit_reference?: string;
+      expires_in_hours?: number;
+      transaction_id?: string;
+    },
+    trx?: TransactionOrKnex
+  ): Promise<VehicleReservation> {
+    const run = async (trx: TransactionOrKnex) => {
+      const vehicle = await Vehicle.query(trx)
+        .findById(data.vehicle_id)
+        .forUpdate();
+
+      if (!vehicle) {
+        throw new NotFoundError('Vehicle not found');
+      }
+      // Drafts and listings under review cannot be held, deposit or not
+      if (vehicle.status !== VehicleStatus.AVAILABLE || !vehicle.isPublished()) {
+        throw new ConflictError('Vehicle is not available');
+      }
+
+      const active = await this.findActiveByVehicle(vehicle.id, trx);
+      if (active) {
+        throw new ConflictError('Vehicle already has an active reservation');
+      }
+
+      const reservation = await this.query(trx).insertAndFetch({
+        id: data.id,
+        vehicle_id: vehicle.id,
+        user_id: data.user_id,
+        transaction_id: data.transaction_id,
+        deposit_amount: data.deposit_amount || 0,
+        deposit_provider: data.deposit_provider,
+        deposit_reference: data.deposit_reference,
+        deposit_status: data.deposit_reference ? EscrowStatus.HELD : null,
+        expires_at: this.computeExpiry(data.expires_in_hours),
+      });
+
+      await vehicle.markAsReserved(trx);
+
+      return reservation;
+    };
+
+    return trx ? run(trx) : this.transaction(run);
+  }
+
+  // A hold placed by the buyer themselves. The deposit is authorized (held, not charged)
+  // at the processor first and given back if the hold cannot be placed.
+  static async holdWithDeposit(data: {
+    vehicle_id: string;
+    user_id: string;
+    deposit_amount: number;
+    payment_token: string;
+    payment_provider?: string;
+    expires_in_hours?: number;
+  }): Promise<VehicleReservation> {
+    const id = uuidv4();
+    const provider = getPaymentProvider(data.payment_provider);
+    const { intent } = assertPaymentSucceeded(
+      await provider.authorize({
+        idempotencyKey: `reservation-${id}`,
+        amount: data.deposit_amount,
+        currency: PAYMENT_CURRENCY,
+        paymentToken: data.payment_token,
+        description: `Reservation deposit ${id}`,
+        metadata: { reservation_id: id, vehicle_id: data.vehicle_id },
+      })
+    );
+
+    try {
+      return await this.hold({
+        id,
+        vehicle_id: data.vehicle_id,
+        user_id: data.user_id,
+        deposit_amount: data.deposit_amount,
+        deposit_provider: provider.name,
+        deposit_reference: intent!.reference,
+        expires_in_hours: data.expires_in_hours,
+      });
+    } catch (error) {
+      await provider.void(intent!.reference);
+      throw error;
+    }
+  }
+
+  static async findActiveByVehicle(vehicleId: string, trx?: TransactionOrKnex): Promise<VehicleReservation | undefined> {
+    return this.query(trx)
+      .where('vehicle_id', vehicleId)
+      .where('status', ReservationStatus.ACTIVE)
+      .first();
+  }
+
+  static async findByUser(userId: string): Promise<VehicleReservation[]> {
+    return this.query()
+      .where('user_id', userId)
+      .withGraphFetched('vehicle.[brand, model, images]')
+      .orderBy('created_at', 'desc');
+  }
+
+  // Holds whose sale is already being paid for are left out: the escrow flow decides their
+  // fate, and they would otherwise fill every batch
+  static async findExpired(limit: number = 100): Promise<VehicleReservation[]> {
+    return this.query()
+      .where('status', ReservationStatus.ACTIVE)
+      .where('expires_at', '<=', new Date())
+      .whereNotExists(
+        Transaction.query()
+          .whereColumn('transactions.id', 'vehicle_reservations.transaction_id')
+          .where('transactions.status', TransactionStatus.PROCESSING)
+      )
+      .withGraphFetched('[vehicle, transaction]')
+      .orderBy('expires_at', 'asc')
+      .limit(limit);
+  }
+
+  // The sale went through; the buyer's deposit is given back once it is committed
+  static async convertForVehicle(vehicleId: string, trx?: TransactionOrKnex): Promise<number> {
+    const converted = await this.query(trx)
+      .where('vehicle_id', vehicleId)
+      .where('status', ReservationStatus.ACTIVE)
+      .patch({ status: ReservationStatus.CONVERTED, released_at: new Date() })
+      .returning('*');
+
+    afterCommit(trx, () => {
+      for (const reservation of converted) {
+        void reservation.voidDeposit();
+      }
+    });
+
+    return converted.length;
+  }
+}
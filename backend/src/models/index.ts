@@ -2,19 +2,65 @@
 export { BaseModel } from './BaseModel';
 export { User, UserRole } from './User';
 export { UserProfile } from './UserProfile';
-export { Vehicle, VehicleStatus, VehicleCondition, TransmissionType, FuelType, DrivetrainType } from './Vehicle';
+export {
+  Vehicle,
+  VehicleStatus,
+  VehicleCondition,
+  TransmissionType,
+  FuelType,
+  DrivetrainType,
+  ListingStatus,
+  LISTING_TRANSITIONS,
+} from './Vehicle';
 export { Brand } from './Brand';
 export { VehicleModel } from './VehicleModel';
 export { VehicleImage } from './VehicleImage';
-export { Transaction, TransactionStatus } from './Transaction';
+export { VehiclePriceHistory } from './VehiclePriceHistory';
+export { Transaction, TransactionStatus, EscrowStatus, TRANSACTION_TRANSITIONS } from './Transaction';
+export { TransactionEvent } from './TransactionEvent';
 export { Favorite } from './Favorite';
 export { Conversation } from './Conversation';
 export { Message } from './Message';
+export { Offer, OfferStatus } from './Offer';
+export { VehicleReservation, ReservationStatus } from './VehicleReservation';
+export { Notification } from './Notification';
 export { Review } from './Review';
-export { Commission } from './Commission';
+export { Commission, ClawbackStatus } from './Commission';
 export { CommissionSetting, CommissionType } from './CommissionSetting';
+export { PayoutBatch, PayoutBatchStatus } from './PayoutBatch';
+export { ElectronicInvoice, InvoiceStatus } from './ElectronicInvoice';
+export { SavedSearch, AlertFrequency } from './SavedSearch';
+export { SavedSearchMatch } from './SavedSearchMatch';
+export { SearchHistory } from './SearchHistory';
 
 // Re-export types
-export type { PaginationParams, PaginatedResult } from './BaseModel';
-export type { VehicleFeatures } from './Vehicle';
+export type {
+  PaginationParams,
+  PaginatedResult,
+  KeysetOrder,
+  CursorPaginationParams,
+  CursorPaginatedResult,
+} from './BaseModel';
+export type {
+  VehicleFeatures,
+  VehicleHighlights,
+  VehicleFacets,
+  VehicleFacetName,
+  FacetValue,
+  VehicleSearchFilters,
+  QualityFlag,
+  QualityFlagCode,
+  QualityReport,
+} from './Vehicle';
+export type { TransitionOptions, RefundOptions } from './Transaction';
 export type { UserPreferences } from './UserProfile';
+export type {
+  PopularQuery,
+  AnalyticsRange,
+  QueryStats,
+  ZeroResultQuery,
+  FilterUsage,
+  DemandSupply,
+} from './SearchHistory';
+export type { ConversationTimelineItem } from './Conversation';
+export type { CommissionTier, CommissionContext, CommissionRuleCheck, CommissionBand } from './CommissionSetting';
@@ -0,0 +1,238 @@
+import express, { Router, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { CommissionSetting, CommissionContext } from '../models/CommissionSetting';
+import { PayoutBatch, PayoutBatchStatus } from '../models/PayoutBatch';
+import { Vehicle, VehicleCondition } from '../models/Vehicle';
+import { User, UserRole } from '../models/User';
+import { authorize } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../middleware/errorHandler';
+import { buildStatementCsv, buildStatementPdf } from '../services/payoutStatements';
+import { reconcilePayouts } from '../services/payoutReconciliation';
+import { calculateCommissionTax } from '../services/tax';
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Active commission rules in evaluation order (admin only)
+router.get(
+  '/rules',
+  authorize(UserRole.ADMIN),
+  async (_req: Request, res: Response) => {
+    const settings = await CommissionSetting.findActive();
+
+    res.json(settings.map((setting) => ({ ...setting.toJSON(), summary: setting.getDescription() })));
+  }
+);
+
+// Explains which rule would apply to a hypothetical sale and why (admin only).
+// Facts can be given directly or taken from an existing vehicle and seller;
+// explicit fields in the body win over the loaded ones.
+router.post(
+  '/rules/dry-run',
+  authorize(UserRole.ADMIN),
+  validate([
+    body('price').isFloat({ gt: 0 }).toFloat(),
+    body('vehicle_id').optional().isUUID(),
+    body('seller_id').optional().isUUID(),
+    body('user_role').optional().isIn(Object.values(UserRole)),
+    body('brand_id').optional().isUUID(),
+    body('location_province').optional().isString().trim(),
+    body('condition').optional().isIn(Object.values(VehicleCondition)),
+    body('seller_tenure_days').optional().isInt({ min: 0 }).toInt(),
+    body('tax_id').optional().isString().trim(),
+    body('date').optional().isISO8601().toDate(),
+  ]),
+  async (req: Request, res: Response) => {
+    const date: Date = req.body.date || new Date();
+    let vehicle: Vehicle | undefined;
+    let seller: User | undefined;
+
+    if (req.body.vehicle_id) {
+      vehicle = await Vehicle.query().findById(req.body.vehicle_id);
+      if (!vehicle) {
+        throw new NotFoundError('Vehicle not found');
+      }
+    }
+
+    const sellerId = req.body.seller_id || vehicle?.seller_id;
+    if (sellerId) {
+      seller = await User.query().findById(sellerId).withGraphFetched('profile');
+      if (!seller) {
+        throw new NotFoundError('Seller not found');
+      }
+    }
+
+    const context: CommissionContext = {
+      price: req.body.price,
+      userRole: req.body.user_role || seller?.role,
+      brandId: req.body.brand_id || vehicle?.brand_id,
+      province: req.body.location_province || vehicle?.location_province,
+      condition: req.body.condition || vehicle?.condition,
+      sellerTenureDays: req.body.seller_tenure_days ?? (
+        seller ? Math.floor((date.getTime() - new Date(seller.created_at).getTime()) / DAY_MS) : undefined
+      ),
+      date,
+    };
+
+    const result = await CommissionSetting.explain(context);
+    const tax = calculateCommissionTax(result.amount, req.body.tax_id ?? seller?.profile?.tax_id);
+
+    res.json({
+      context,
+      matched_rule: result.matched
+        ? { ...result.matched.toJSON(), summary: result.matched.getDescription() }
+        : null,
+      commission: {
+        amount: result.amount,
+        percentage: result.percentage,
+        net_amount: Math.round((context.price - tax.total_payable) * 100) / 100,
+        bands: result.bands,
+        tax,
+      },
+      evaluated: result.evaluated,
+    });
+  }
+);
+
+const loadPayoutBatch = async (req: Request): Promise<PayoutBatch> => {
+  const batch = await PayoutBatch.findWithDetails(req.params.id);
+
+  if (!batch) {
+    throw new NotFoundError('Payout batch not found');
+  }
+  if (batch.seller_id !== req.user!.id && req.user!.role !== UserRole.ADMIN) {
+    throw new ForbiddenError('You cannot access this payout batch');
+  }
+
+  return batch;
+};
+
+// Groups open commissions into one payout batch per seller for a period (admin only)
+router.post(
+  '/payouts',
+  authorize(UserRole.ADMIN),
+  validate([
+    body('period_start').isISO8601({ strict: true }).isLength({ min: 10, max: 10 }),
+    body('period_end').isISO8601({ strict: true }).isLength({ min: 10, max: 10 }),
+    body('seller_id').optional().isUUID(),
+  ]),
+  async (req: Request, res: Response) => {
+    const { period_start, period_end, seller_id } = req.body;
+
+    if (period_end < period_start) {
+      throw new BadRequestError('period_end must not be before period_start');
+    }
+
+    const batches = seller_id
+      ? [await PayoutBatch.createForSeller(seller_id, period_start, period_end, req.user!.id)].filter(Boolean)
+      : await PayoutBatch.generateForPeriod(period_start, period_end, req.user!.id);
+
+    res.status(201).json(batches);
+  }
+);
+
+// Payout batches; sellers only see their own
+router.get(
+  '/payouts',
+  validate([
+    query('status').optional().isIn(Object.values(PayoutBatchStatus)),
+    query('seller_id').optional().isUUID(),
+  ]),
+  async (req: Request, res: Response) => {
+    let batches = PayoutBatch.query().orderBy('period_end', 'desc').orderBy('created_at', 'desc');
+
+    if (req.user!.role !== UserRole.ADMIN) {
+      batches = batches.where('seller_id', req.user!.id);
+    } else if (req.query.seller_id) {
+      batches = batches.where('seller_id', req.query.seller_id as string);
+    }
+    if (req.query.status) {
+      batches = batches.where('status', req.query.status as string);
+    }
+
+    res.json(await batches.withGraphFetched('seller'));
+  }
+);
+
+// Compares a bank CSV file against payout batches (admin only). Send the file as
+// text/csv; `?apply=true` marks exact matches as paid.
+router.post(
+  '/payouts/reconcile',
+  authorize(UserRole.ADMIN),
+  express.text({ type: ['text/csv', 'text/plain', 'application/csv'], limit: '5mb' }),
+  validate([query('apply').optional().isBoolean()]),
+  async (req: Request, res: Response) => {
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      throw new BadRequestError('Send the bank file as text/csv');
+    }
+
+    res.json(await reconcilePayouts(req.body, req.query.apply === 'true'));
+  }
+);
+
+router.get(
+  '/payouts/:id',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    res.json(await loadPayoutBatch(req));
+  }
+);
+
+router.get(
+  '/payouts/:id/statement.csv',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const batch = await loadPayoutBatch(req);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${batch.reference}.csv"`);
+    res.send(buildStatementCsv(batch));
+  }
+);
+
+router.get(
+  '/payouts/:id/statement.pdf',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const batch = await loadPayoutBatch(req);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${batch.reference}.pdf"`);
+    res.send(buildStatementPdf(batch));
+  }
+);
+
+// Marks a batch and its commissions as paid (admin only)
+router.post(
+  '/payouts/:id/pay',
+  authorize(UserRole.ADMIN),
+  validate([
+    param('id').isUUID(),
+    body('bank_reference').optional().isString().trim().isLength({ max: 255 }),
+  ]),
+  async (req: Request, res: Response) => {
+    const batch = await loadPayoutBatch(req);
+
+    await batch.markAsPaid(req.body.bank_reference);
+
+    res.json(batch);
+  }
+);
+
+// Cancels an open batch, releasing its commissions (admin only)
+router.post(
+  '/payouts/:id/cancel',
+  authorize(UserRole.ADMIN),
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const batch = await loadPayoutBatch(req);
+
+    await batch.cancel();
+
+    res.json(await PayoutBatch.query().findById(batch.id));
+  }
+);
+
+export { router as commissionRoutes };
@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import { param, query } from 'express-validator';
+import { Conversation } from '../models/Conversation';
+import { Message } from '../models/Message';
+import { validate } from '../middleware/validate';
+import { ForbiddenError, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const loadConversation = async (req: Request): Promise<Conversation> => {
+  const conversation = await Conversation.query().findById(req.params.id);
+
+  if (!conversation) {
+    throw new NotFoundError('Conversation not found');
+  }
+  if (!conversation.isParticipant(req.user!.id)) {
+    throw new ForbiddenError('You are not part of this conversation');
+  }
+
+  return conversation;
+};
+
+// Messages and offers of a conversation, in chronological order
+router.get(
+  '/:id/timeline',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const conversation = await loadConversation(req);
+
+    await conversation.markAsRead(req.user!.id);
+
+    res.json(await Conversation.getTimeline(conversation.id));
+  }
+);
+
+// Messages only, newest first; `cursor` takes the nextCursor of the previous page
+router.get(
+  '/:id/messages',
+  validate([
+    param('id').isUUID(),
+    query('cursor').optional().isString().isLength({ max: 1000 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ]),
+  async (req: Request, res: Response) => {
+    const conversation = await loadConversation(req);
+    const { data, ...pagination } = await Message.findByConversation(conversation.id, {
+      cursor: req.query.cursor as string | undefined,
+      limit: req.query.limit as unknown as number,
+    });
+
+    if (!req.query.cursor) {
+      await conversation.markAsRead(req.user!.id);
+    }
+
+    res.json({ data, pagination });
+  }
+);
+
+export { router as conversationRoutes };
@@ -0,0 +1,26 @@
+import { Router, Request, Response } from 'express';
+import { query } from 'express-validator';
+import { getFeed } from '../services/feed';
+import { optionalAuthMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+// Home page listings: ranked on the signed-in user's views, favorites, searches and
+// conversations, or by popularity for anonymous visitors and new users
+router.get(
+  '/',
+  optionalAuthMiddleware,
+  validate([
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 50 }).toInt(),
+  ]),
+  async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    res.json(await getFeed(req.user?.id, page, limit));
+  }
+);
+
+export { router as feedRoutes };
@@ -0,0 +1,87 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { Vehicle } from '../models/Vehicle';
+import { paginate } from '../models/BaseModel';
+import { UserRole } from '../models/User';
+import { authorize } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+router.use(authorize(UserRole.ADMIN));
+
+const loadVehicle = async (req: Request): Promise<Vehicle> => {
+  const vehicle = await Vehicle.query().findById(req.params.id);
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  return vehicle;
+};
+
+// Listings waiting for review, oldest submission first, with their quality flags.
+// `flagged=true` leaves out the ones that only wait because auto-approval is off.
+router.get(
+  '/vehicles',
+  validate([
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('flagged').optional().isBoolean().toBoolean(),
+  ]),
+  async (req: Request, res: Response) => {
+    let queue = Vehicle.moderationQueue()
+      .withGraphFetched('[brand, model, images, seller]')
+      .modifyGraph('seller', (builder) => {
+        builder.select('id', 'username', 'email', 'first_name', 'last_name');
+      });
+
+    if (req.query.flagged) {
+      queue = queue.whereRaw('jsonb_array_length(quality_flags) > 0');
+    }
+
+    const { data, ...pagination } = await paginate<Vehicle>(queue, {
+      page: req.query.page as unknown as number,
+      limit: req.query.limit as unknown as number,
+    });
+
+    res.json({ data: data.map((vehicle) => vehicle.toModerationJson()), ...pagination });
+  }
+);
+
+// Approves a listing: it goes live now, or at `publish_at` (defaults to the date the
+// seller asked for, if any)
+router.post(
+  '/vehicles/:id/approve',
+  validate([
+    param('id').isUUID(),
+    body('notes').optional().isString().trim().isLength({ max: 2000 }),
+    body('publish_at').optional({ nullable: true }).isISO8601().toDate(),
+  ]),
+  async (req: Request, res: Response) => {
+    const vehicle = await loadVehicle(req);
+
+    await vehicle.approve(req.user!.id, { notes: req.body.notes, publishAt: req.body.publish_at });
+
+    res.json(vehicle.toModerationJson());
+  }
+);
+
+// Sends the listing back to the seller with the reasons
+router.post(
+  '/vehicles/:id/reject',
+  validate([
+    param('id').isUUID(),
+    body('notes').isString().trim().isLength({ min: 1, max: 2000 }),
+  ]),
+  async (req: Request, res: Response) => {
+    const vehicle = await loadVehicle(req);
+
+    await vehicle.reject(req.user!.id, req.body.notes);
+
+    res.json(vehicle.toModerationJson());
+  }
+);
+
+export { router as moderationRoutes };
@@ -0,0 +1,136 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { Offer } from '../models/Offer';
+import { Vehicle } from '../models/Vehicle';
+import { UserRole } from '../models/User';
+import { validate } from '../middleware/validate';
+import { ForbiddenError, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const offerTerms = [
+  body('amount').isFloat({ gt: 0 }).withMessage('Amount must be greater than 0').toFloat(),
+  body('message').optional().isString().isLength({ max: 2000 }),
+  body('expires_in_hours').optional().isInt({ min: 1, max: 720 }).toInt(),
+];
+
+const loadOffer = async (req: Request): Promise<Offer> => {
+  const offer = await Offer.query().findById(req.params.id);
+
+  if (!offer) {
+    throw new NotFoundError('Offer not found');
+  }
+  if (!offer.isParticipant(req.user!.id) && req.user!.role !== UserRole.ADMIN) {
+    throw new ForbiddenError('You are not part of this negotiation');
+  }
+
+  return offer;
+};
+
+// Make an offer on a negotiable vehicle
+router.post(
+  '/',
+  validate([body('vehicle_id').isUUID(), ...offerTerms]),
+  async (req: Request, res: Response) => {
+    const offer = await Offer.makeOffer({
+      vehicle_id: req.body.vehicle_id,
+      buyer_id: req.user!.id,
+      amount: req.body.amount,
+      message: req.body.message,
+      expires_in_hours: req.body.expires_in_hours,
+    });
+
+    res.status(201).json(offer);
+  }
+);
+
+// Offers made (buyer) or received (seller) by the current user
+router.get(
+  '/',
+  validate([query('role').optional().isIn(['buyer', 'seller'])]),
+  async (req: Request, res: Response) => {
+    const role = (req.query.role as 'buyer' | 'seller') || 'buyer';
+    res.json(await Offer.findByUser(req.user!.id, role));
+  }
+);
+
+// All offers on one of the current user's vehicles
+router.get(
+  '/vehicle/:vehicleId',
+  validate([param('vehicleId').isUUID()]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.vehicleId);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (vehicle.seller_id !== req.user!.id && req.user!.role !== UserRole.ADMIN) {
+      throw new ForbiddenError('You do not own this vehicle');
+    }
+
+    res.json(await Offer.findByVehicle(vehicle.id));
+  }
+);
+
+// Offer detail with its full counter-offer chain
+router.get(
+  '/:id',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const offer = await loadOffer(req);
+    const chain = await Offer.findChain(offer.id);
+
+    res.json({ ...offer.toJSON(), chain });
+  }
+);
+
+router.post(
+  '/:id/counter',
+  validate([param('id').isUUID(), ...offerTerms]),
+  async (req: Request, res: Response) => {
+    const offer = await loadOffer(req);
+    const counterOffer = await offer.counter(
+      req.user!.id,
+      req.body.amount,
+      req.body.message,
+      req.body.expires_in_hours
+    );
+
+    res.status(201).json(counterOffer);
+  }
+);
+
+router.post(
+  '/:id/accept',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const offer = await loadOffer(req);
+    const transaction = await offer.accept(req.user!.id);
+
+    res.json({ offer: await offer.$query(), transaction });
+  }
+);
+
+router.post(
+  '/:id/reject',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const offer = await loadOffer(req);
+    await offer.reject(req.user!.id);
+
+    res.json(await offer.$query());
+  }
+);
+
+router.post(
+  '/:id/withdraw',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const offer = await loadOffer(req);
+    await offer.withdraw(req.user!.id);
+
+    res.json(await offer.$query());
+  }
+);
+
+export { router as offerRoutes };
@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express';
+import { getPaymentProvider } from '../services/payments';
+import { handlePaymentWebhook } from '../services/payments/webhooks';
+import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+import { log } from '../utils/logger';
+
+const router = Router();
+
+// Processor callbacks. Mounted with a raw body parser so signatures can be checked byte for byte.
+router.post('/:provider', async (req: Request, res: Response) => {
+  let provider;
+  try {
+    provider = getPaymentProvider(req.params.provider);
+  } catch (error) {
+    throw new NotFoundError('Unknown payment provider');
+  }
+
+  let event;
+  try {
+    event = provider.verifyWebhook(req.body, req.headers['x-payment-signature'] as string | undefined);
+  } catch (error) {
+    log.security('Invalid payment webhook signature', { provider: provider.name, ip: req.ip });
+    throw new BadRequestError('Invalid webhook signature');
+  }
+
+  await handlePaymentWebhook(provider.name, event);
+
+  res.json({ received: true });
+});
+
+export { router as paymentWebhookRoutes };
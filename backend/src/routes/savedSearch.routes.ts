@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { SavedSearch, AlertFrequency, MAX_SAVED_SEARCHES_PER_USER } from '../models/SavedSearch';
+import { Vehicle } from '../models/Vehicle';
+import { paginate } from '../models/BaseModel';
+import { validate } from '../middleware/validate';
+import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const loadSavedSearch = async (req: Request): Promise<SavedSearch> => {
+  const savedSearch = await SavedSearch.query().findById(req.params.id);
+
+  // Other users' searches are reported as missing rather than forbidden
+  if (!savedSearch || savedSearch.user_id !== req.user!.id) {
+    throw new NotFoundError('Saved search not found');
+  }
+
+  return savedSearch;
+};
+
+// Current user's saved searches
+router.get('/', async (req: Request, res: Response) => {
+  res.json(await SavedSearch.query().where('user_id', req.user!.id).orderBy('created_at', 'desc'));
+});
+
+// Saves a search; `filters` takes the same parameters as GET /vehicles
+router.post(
+  '/',
+  validate([
+    body('name').isString().trim().isLength({ min: 1, max: 100 }),
+    body('filters').isObject(),
+    body('alert_frequency').optional().isIn(Object.values(AlertFrequency)),
+    body('alerts_enabled').optional().isBoolean().toBoolean(),
+  ]),
+  async (req: Request, res: Response) => {
+    if ((await SavedSearch.countByUser(req.user!.id)) >= MAX_SAVED_SEARCHES_PER_USER) {
+      throw new BadRequestError(`You can keep up to ${MAX_SAVED_SEARCHES_PER_USER} saved searches`);
+    }
+
+    const savedSearch = await SavedSearch.query().insertAndFetch({
+      user_id: req.user!.id,
+      name: req.body.name,
+      filters: SavedSearch.normalizeFilters(req.body.filters),
+      alert_frequency: req.body.alert_frequency,
+      alerts_enabled: req.body.alerts_enabled,
+    });
+
+    res.status(201).json(savedSearch);
+  }
+);
+
+router.get(
+  '/:id',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    res.json(await loadSavedSearch(req));
+  }
+);
+
+// Current results of a saved search
+router.get(
+  '/:id/vehicles',
+  validate([
+    param('id').isUUID(),
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ]),
+  async (req: Request, res: Response) => {
+    const savedSearch = await loadSavedSearch(req);
+    const { data, ...pagination } = await paginate<Vehicle>(
+      savedSearch.results().withGraphFetched('[brand, model, images]'),
+      {
+        page: req.query.page as unknown as number,
+        limit: req.query.limit as unknown as number,
+      }
+    );
+
+    res.json({ data, pagination });
+  }
+);
+
+router.patch(
+  '/:id',
+  validate([
+    param('id').isUUID(),
+    body('name').optional().isString().trim().isLength({ min: 1, max: 100 }),
+    body('filters').optional().isObject(),
+    body('alert_frequency').optional().isIn(Object.values(AlertFrequency)),
+    body('alerts_enabled').optional().isBoolean().toBoolean(),
+  ]),
+  async (req: Request, res: Response) => {
+    const savedSearch = await loadSavedSearch(req);
+
+    const updated = await savedSearch.$query().patchAndFetch({
+      ...(req.body.name !== undefined && { name: req.body.name }),
+      ...(req.body.filters !== undefined && { filters: SavedSearch.normalizeFilters(req.body.filters) }),
+      ...(req.body.alert_frequency !== undefined && { alert_frequency: req.body.alert_frequency }),
+      ...(req.body.alerts_enabled !== undefined && { alerts_enabled: req.body.alerts_enabled }),
+    });
+
+    res.json(updated);
+  }
+);
+
+router.delete(
+  '/:id',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const savedSearch = await loadSavedSearch(req);
+
+    await savedSearch.$query().delete();
+
+    res.status(204).send();
+  }
+);
+
+export { router as savedSearchRoutes };
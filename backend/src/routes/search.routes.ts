@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+import { query } from 'express-validator';
+import { suggest, SUGGEST_DEFAULT_LIMIT, SUGGEST_MIN_LENGTH } from '../services/searchSuggestions';
+import { SearchHistory } from '../models/SearchHistory';
+import { UserRole } from '../models/User';
+import { authMiddleware, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { BadRequestError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ANALYTICS_DAYS = 30;
+
+// Autocomplete for the search box; tolerant to typos ("toyta hilux" -> Toyota Hilux)
+router.get(
+  '/suggest',
+  validate([
+    query('q').isString().trim().isLength({ min: SUGGEST_MIN_LENGTH, max: 100 }),
+    query('limit').optional().isInt({ min: 1, max: 10 }).toInt(),
+  ]),
+  async (req: Request, res: Response) => {
+    const limit = (req.query.limit as unknown as number) || SUGGEST_DEFAULT_LIMIT;
+
+    res.json(await suggest(req.query.q as string, limit));
+  }
+);
+
+// Search analytics for the admin dashboard (last 30 days unless a range is given).
+// Zero-result queries are the catalogue gaps: demand the listings don't cover.
+router.get(
+  '/analytics',
+  authMiddleware,
+  authorize(UserRole.ADMIN),
+  validate([
+    query(['from', 'to']).optional().isISO8601().toDate(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+  ]),
+  async (req: Request, res: Response) => {
+    const to = (req.query.to as unknown as Date) || new Date();
+    const from = (req.query.from as unknown as Date) || new Date(to.getTime() - DEFAULT_ANALYTICS_DAYS * DAY_MS);
+    const limit = (req.query.limit as unknown as number) || 20;
+
+    if (from > to) {
+      throw new BadRequestError('from must be before to');
+    }
+
+    const range = { from, to };
+    const [topQueries, zeroResultQueries, filterUsage, brandDemand, modelDemand] = await Promise.all([
+      SearchHistory.topQueries(range, limit),
+      SearchHistory.zeroResultQueries(range, limit),
+      SearchHistory.filterUsage(range),
+      SearchHistory.demandSupply('brand', range, limit),
+      SearchHistory.demandSupply('model', range, limit),
+    ]);
+
+    res.json({
+      range,
+      top_queries: topQueries,
+      zero_result_queries: zeroResultQueries,
+      filter_usage: filterUsage,
+      demand_supply: {
+        brands: brandDemand,
+        models: modelDemand,
+      },
+    });
+  }
+);
+
+export { router as searchRoutes };
@@ -0,0 +1,243 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { Transaction, TransactionStatus } from '../models/Transaction';
+import { Commission } from '../models/Commission';
+import { ElectronicInvoice } from '../models/ElectronicInvoice';
+import { VehicleStatus } from '../models/Vehicle';
+import { UserRole } from '../models/User';
+import { paginate } from '../models/BaseModel';
+import { authorize } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { ForbiddenError, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+const loadTransaction = async (req: Request): Promise<Transaction> => {
+  const transaction = await Transaction.query().findById(req.params.id);
+
+  if (!transaction) {
+    throw new NotFoundError('Transaction not found');
+  }
+
+  const userId = req.user!.id;
+  const isParticipant = transaction.buyer_id === userId || transaction.seller_id === userId;
+
+  if (!isParticipant && req.user!.role !== UserRole.ADMIN) {
+    throw new ForbiddenError('You are not part of this transaction');
+  }
+
+  return transaction;
+};
+
+// The user's purchases and sales, newest first, with cursor pagination
+router.get(
+  '/',
+  validate([
+    query('role').optional().isIn(['buyer', 'seller']),
+    query('status').optional().isIn(Object.values(TransactionStatus)),
+    query('cursor').optional().isString().isLength({ max: 1000 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('estimate_total').optional().isBoolean().toBoolean(),
+  ]),
+  async (req: Request, res: Response) => {
+    let transactions = Transaction.forUser(req.user!.id, req.query.role as 'buyer' | 'seller' | undefined)
+      .withGraphFetched('[vehicle, buyer, seller]');
+
+    if (req.query.status) {
+      transactions = transactions.where('status', req.query.status as string);
+    }
+
+    const { data, ...pagination } = await paginate<Transaction>(transactions, {
+      keyset: { key: 'transactions.created_at', id: 'transactions.id', order: 'desc' },
+      cursor: req.query.cursor as string | undefined,
+      limit: req.query.limit as unknown as number,
+      estimateTotal: Boolean(req.query.estimate_total),
+    });
+
+    res.json({ data, pagination });
+  }
+);
+
+// Transaction with its commission and fiscal breakdown
+router.get(
+  '/:id',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const transaction = await loadTransaction(req);
+
+    res.json(await transaction.$query().withGraphFetched('[vehicle, commission]'));
+  }
+);
+
+// The platform invoices its fee to the seller, so only the seller and admins see it
+const loadInvoice = async (req: Request): Promise<ElectronicInvoice> => {
+  const transaction = await loadTransaction(req);
+
+  if (transaction.seller_id !== req.user!.id && req.user!.role !== UserRole.ADMIN) {
+    throw new ForbiddenError('Only the seller can access the commission invoice');
+  }
+
+  const invoice = await ElectronicInvoice.findByTransaction(transaction.id);
+
+  if (!invoice) {
+    throw new NotFoundError('No invoice has been issued for this transaction');
+  }
+
+  return invoice;
+};
+
+// Electronic invoice for the commission charged on the sale
+router.get(
+  '/:id/invoice',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const invoice = await loadInvoice(req);
+
+    res.json({ ...invoice.toJSON(), number: invoice.getNumber() });
+  }
+);
+
+// Invoice XML as filed with the SRI (signed when available)
+router.get(
+  '/:id/invoice.xml',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const invoice = await loadInvoice(req);
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="factura-${invoice.getNumber()}.xml"`);
+    res.send(invoice.signed_xml || invoice.xml);
+  }
+);
+
+// Issues the invoice for a completed sale, or resubmits one that was not authorized (admin only)
+router.post(
+  '/:id/invoice',
+  authorize(UserRole.ADMIN),
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const transaction = await loadTransaction(req);
+    let invoice = await ElectronicInvoice.findByTransaction(transaction.id);
+
+    if (invoice) {
+      await invoice.submit();
+    } else {
+      const commission = await Commission.query()
+        .where('transaction_id', transaction.id)
+        .whereNull('reversal_of_id')
+        .first();
+
+      if (!commission) {
+        throw new NotFoundError('Transaction has no commission to invoice');
+      }
+
+      invoice = await ElectronicInvoice.issueForCommission(commission.id);
+    }
+
+    res.status(201).json({ ...invoice.toJSON(), number: invoice.getNumber() });
+  }
+);
+
+// Status transition history of a transaction
+router.get(
+  '/:id/history',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const transaction = await loadTransaction(req);
+
+    res.json({
+      transaction_id: transaction.id,
+      status: transaction.status,
+      events: await transaction.getHistory(),
+    });
+  }
+);
+
+// Buyer pays; the funds stay in escrow until delivery is confirmed
+router.post(
+  '/:id/pay',
+  validate([
+    param('id').isUUID(),
+    body('payment_token').isString().notEmpty(),
+    body('provider').optional().isString(),
+    body('payment_method').optional().isString().isLength({ max: 50 }),
+  ]),
+  async (req: Request, res: Response) => {
+    const transaction = await loadTransaction(req);
+
+    if (transaction.buyer_id !== req.user!.id) {
+      throw new ForbiddenError('Only the buyer can pay for this transaction');
+    }
+
+    const payment = await transaction.holdPayment(req.body.payment_token, {
+      provider: req.body.provider,
+      paymentMethod: req.body.payment_method,
+      actorId: req.user!.id,
+    });
+
+    res.json({ transaction, payment });
+  }
+);
+
+// Buyer confirms delivery, which releases the escrow to the seller and completes the sale
+router.post(
+  '/:id/confirm-delivery',
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const transaction = await loadTransaction(req);
+
+    if (transaction.buyer_id !== req.user!.id) {
+      throw new ForbiddenError('Only the buyer can confirm delivery');
+    }
+
+    const commission = await transaction.confirmDelivery(req.user!.id);
+
+    res.json({ transaction, commission });
+  }
+);
+
+// Cancels a pending or processing transaction, voiding any escrow hold
+router.post(
+  '/:id/cancel',
+  validate([
+    param('id').isUUID(),
+    body('reason').isString().trim().notEmpty().withMessage('A cancellation reason is required'),
+  ]),
+  async (req: Request, res: Response) => {
+    const transaction = await loadTransaction(req);
+
+    await transaction.cancel(req.body.reason, { actorId: req.user!.id });
+
+    res.json(transaction);
+  }
+);
+
+// Full or partial refund of a completed transaction (admin only)
+router.post(
+  '/:id/refund',
+  authorize(UserRole.ADMIN),
+  validate([
+    param('id').isUUID(),
+    body('reason').isString().trim().notEmpty().withMessage('A refund reason is required'),
+    body('amount').optional().isFloat({ gt: 0 }).toFloat(),
+    body('vehicle_status').isIn(Object.values(VehicleStatus)),
+  ]),
+  async (req: Request, res: Response) => {
+    const transaction = await loadTransaction(req);
+
+    const result = await transaction.refund({
+      reason: req.body.reason,
+      amount: req.body.amount,
+      vehicleStatus: req.body.vehicle_status,
+      actorId: req.user!.id,
+    });
+
+    res.json({
+      transaction: await Transaction.query().findById(transaction.id).withGraphFetched('commission'),
+      commission_adjustment: result.commissionAdjustment,
+      payment_refunded: result.paymentRefunded,
+    });
+  }
+);
+
+export { router as transactionRoutes };
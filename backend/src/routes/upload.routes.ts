@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { param } from 'express-validator';
+import multer from 'multer';
+import { Vehicle } from '../models/Vehicle';
+import { UserRole } from '../models/User';
+import { validate } from '../middleware/validate';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../middleware/errorHandler';
+import { addVehicleImages } from '../services/vehicleImages';
+import { imageConfig } from '../config/images';
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/heic', 'image/heif'];
+
+const router = Router();
+
+// Files stay in memory: they are decoded right away and only the generated variants
+// are stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: imageConfig.maxUploadBytes, files: imageConfig.maxPerVehicle },
+  fileFilter: (_req, file, callback) => {
+    if (ACCEPTED_TYPES.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(new BadRequestError(`Unsupported image type: ${file.mimetype}`));
+    }
+  },
+});
+
+// Adds photos (multipart field `images`) to a listing. Each one is stored in three
+// sizes as AVIF, WebP and JPEG with a blurhash placeholder; photos the listing
+// already has and unreadable files are skipped and reported.
+router.post(
+  '/vehicles/:vehicleId/images',
+  validate([param('vehicleId').isUUID()]),
+  upload.array('images'),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.vehicleId);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (vehicle.seller_id !== req.user!.id && req.user!.role !== UserRole.ADMIN) {
+      throw new ForbiddenError('You do not own this vehicle');
+    }
+
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    if (!files.length) {
+      throw new BadRequestError('No images uploaded');
+    }
+
+    const { images, skipped } = await addVehicleImages(vehicle, files);
+
+    res.status(images.length ? 201 : 200).json({ data: images, skipped });
+  }
+);
+
+export { router as uploadRoutes };
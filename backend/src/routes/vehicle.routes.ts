@@ -0,0 +1,430 @@
+import { Router, Request, Response } from 'express';
+import { body, matchedData, param, query } from 'express-validator';
+import {
+  Vehicle,
+  VehicleStatus,
+  VehicleCondition,
+  TransmissionType,
+  FuelType,
+  DrivetrainType,
+  ListingStatus,
+  VEHICLE_SORT_FIELDS,
+} from '../models/Vehicle';
+import { VehicleModel } from '../models/VehicleModel';
+import { paginate } from '../models/BaseModel';
+import { RESERVATION_DEFAULT_TTL_HOURS, VehicleReservation } from '../models/VehicleReservation';
+import { SavedSearch } from '../models/SavedSearch';
+import { SearchHistory } from '../models/SearchHistory';
+import { UserRole } from '../models/User';
+import { authMiddleware, authorize, optionalAuthMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { reservationConfig } from '../config/reservations';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../middleware/errorHandler';
+import { checkListing, submitListing } from '../services/listingQuality';
+import { findSimilarVehicles, SIMILAR_DEFAULT_LIMIT, SIMILAR_MAX_LIMIT } from '../services/recommendations';
+import { lookupVin } from '../services/vinDecoder';
+import { countryFromVin, normalizeVin, validateVin } from '../utils/vin';
+import { parsePlate } from '../utils/licensePlate';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Unpublished or inactive listings are only visible to their seller and admins
+const isVisibleTo = (vehicle: Vehicle, req: Request): boolean =>
+  (vehicle.isPublished() && vehicle.status !== VehicleStatus.INACTIVE) ||
+  vehicle.seller_id === req.user?.id ||
+  req.user?.role === UserRole.ADMIN;
+
+// Public listing with filters; `q` runs a ranked full-text search and `facets=true`
+// adds the sidebar counts. Sending `cursor` (empty for the first page) switches from
+// page numbers to cursor pagination. Every call is logged to search_history.
+router.get(
+  '/',
+  optionalAuthMiddleware,
+  validate([
+    query('page').optional().isInt({ min: 1 }).toInt(),
+    query('cursor').optional().isString().isLength({ max: 1000 }),
+    query('estimate_total').optional().isBoolean().toBoolean(),
+    query('limit').optional().isInt({ min: 1, max: 100 }).toInt(),
+    query('q').optional().isString().trim().isLength({ max: 200 }),
+    query('brand_id').optional().isUUID(),
+    query('model_id').optional().isUUID(),
+    query(['year_min', 'year_max']).optional().isInt({ min: 1900 }).toInt(),
+    query(['price_min', 'price_max']).optional().isFloat({ min: 0 }).toFloat(),
+    query('mileage_max').optional().isInt({ min: 0 }).toInt(),
+    query('condition').optional().isIn(Object.values(VehicleCondition)),
+    query('transmission').optional().isIn(Object.values(TransmissionType)),
+    query('fuel_type').optional().isIn(Object.values(FuelType)),
+    query('drivetrain').optional().isIn(Object.values(DrivetrainType)),
+    query(['color', 'city', 'province']).optional().isString().trim(),
+    query('lat').optional().isFloat({ min: -90, max: 90 }).toFloat(),
+    query('lng').optional().isFloat({ min: -180, max: 180 }).toFloat(),
+    query('radius_km').optional().isFloat({ gt: 0, max: 1000 }).toFloat(),
+    query(['lat', 'lng', 'radius_km'])
+      .optional()
+      .custom((_value, { req }) => req.query?.lat !== undefined && req.query?.lng !== undefined)
+      .withMessage('lat and lng must be sent together'),
+    query('sort')
+      .optional()
+      .isIn([...VEHICLE_SORT_FIELDS])
+      .custom((value, { req }) => value !== 'distance' || (req.query?.lat !== undefined && req.query?.lng !== undefined))
+      .withMessage('sort=distance requires lat and lng'),
+    query('order').optional().isIn(['asc', 'desc']),
+    query('facets').optional().isBoolean().toBoolean(),
+  ]),
+  async (req: Request, res: Response) => {
+    const search = Vehicle.search(req.query).withGraphFetched('[brand, model, images]');
+    const limit = req.query.limit as unknown as number;
+    const [{ data, ...pagination }, facets] = await Promise.all([
+      req.query.cursor !== undefined
+        ? paginate<Vehicle>(search, {
+          keyset: Vehicle.searchKeyset(req.query),
+          cursor: req.query.cursor as string,
+          limit,
+          estimateTotal: Boolean(req.query.estimate_total),
+        })
+        : paginate<Vehicle>(search, { page: req.query.page as unknown as number, limit }),
+      req.query.facets ? Vehicle.searchFacets(req.query) : undefined,
+    ]);
+
+    res.json({ data, pagination, ...(facets && { facets }) });
+
+    const { q, ...filters } = SavedSearch.normalizeFilters(req.query);
+
+    // Coordinates are kept to ~1 km, enough to see where buyers search from
+    if (filters.lat !== undefined && filters.lng !== undefined) {
+      filters.lat = Math.round(filters.lat * 100) / 100;
+      filters.lng = Math.round(filters.lng * 100) / 100;
+    }
+
+    SearchHistory.record({
+      query: q,
+      filters,
+      resultsCount: 'total' in pagination ? pagination.total : pagination.estimatedTotal ?? data.length,
+      userId: req.user?.id,
+      ip: req.ip,
+    }).catch((error) => logger.error('Failed to record search:', error));
+  }
+);
+
+// Offline VIN decoding for the create form: manufacturer (matched to a brand), model
+// year and country of manufacture. Sending the seller's brand_id and year adds
+// warnings where they contradict the VIN.
+router.get(
+  '/vin/:vin',
+  validate([
+    param('vin').isString().isLength({ max: 30 }),
+    query('brand_id').optional().isUUID(),
+    query('year').optional().isInt({ min: 1900 }).toInt(),
+  ]),
+  async (req: Request, res: Response) => {
+    res.json(
+      await lookupVin(req.params.vin, {
+        brand_id: req.query.brand_id as string | undefined,
+        year: req.query.year as unknown as number | undefined,
+      })
+    );
+  }
+);
+
+// Listing detail with its price history
+router.get(
+  '/:id',
+  optionalAuthMiddleware,
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query()
+      .findById(req.params.id)
+      .withGraphFetched('[brand, model, images, priceHistory, seller]')
+      .modifyGraph('seller', (builder) => {
+        builder.select('id', 'username', 'first_name', 'last_name', 'phone', 'avatar_url');
+      });
+
+    if (!vehicle || !isVisibleTo(vehicle, req)) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    if (vehicle.seller_id !== req.user?.id) {
+      await vehicle.recordView({ userId: req.user?.id, ip: req.ip, userAgent: req.get('user-agent') });
+    }
+
+    const canSeePlate = vehicle.seller_id === req.user?.id || req.user?.role === UserRole.ADMIN;
+
+    res.json(canSeePlate ? vehicle.toOwnerJson() : vehicle);
+  }
+);
+
+// Other available listings resembling this one, best first, each with the factors
+// (model, year, price, location…) it matched on
+router.get(
+  '/:id/similar',
+  optionalAuthMiddleware,
+  validate([
+    param('id').isUUID(),
+    query('limit').optional().isInt({ min: 1, max: SIMILAR_MAX_LIMIT }).toInt(),
+  ]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.id);
+
+    if (!vehicle || !isVisibleTo(vehicle, req)) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    const limit = Number(req.query.limit) || SIMILAR_DEFAULT_LIMIT;
+
+    res.json({ data: await findSimilarVehicles(vehicle, limit) });
+  }
+);
+
+// Creates a listing as a draft; it goes live only after review (POST /:id/submit)
+router.post(
+  '/',
+  authMiddleware,
+  validate([
+    body(['brand_id', 'model_id']).isUUID(),
+    body('title').isString().trim().isLength({ min: 5, max: 255 }),
+    body('description').optional({ nullable: true }).isString(),
+    body('year').isInt({ min: 1900, max: new Date().getFullYear() + 1 }).toInt(),
+    body('price').isFloat({ min: 0 }).toFloat(),
+    body('negotiable').optional().isBoolean().toBoolean(),
+    body('mileage').optional({ nullable: true }).isInt({ min: 0 }).toInt(),
+    body('color').optional({ nullable: true }).isString().trim().isLength({ max: 50 }),
+    body('vin')
+      .optional({ nullable: true })
+      .isString()
+      .customSanitizer(normalizeVin)
+      .custom((value: string) => {
+        const { valid, errors } = validateVin(value);
+
+        if (!valid) {
+          throw new Error(errors.join('; '));
+        }
+
+        return true;
+      }),
+    body('manufacture_country').optional({ nullable: true }).isISO31661Alpha2().toUpperCase(),
+    body('license_plate')
+      .optional({ nullable: true })
+      .isString()
+      .custom((value: string) => parsePlate(value) !== null)
+      .withMessage('license_plate is not a valid Ecuadorian plate')
+      .bail()
+      .customSanitizer((value: string) => parsePlate(value)!.plate),
+    body('show_license_plate').optional().isBoolean().toBoolean(),
+    body('engine_size').optional({ nullable: true }).isString().trim().isLength({ max: 20 }),
+    body('engine_type').optional({ nullable: true }).isString().trim().isLength({ max: 50 }),
+    body('transmission').optional({ nullable: true }).isIn(Object.values(TransmissionType)),
+    body('fuel_type').optional({ nullable: true }).isIn(Object.values(FuelType)),
+    body('drivetrain').optional({ nullable: true }).isIn(Object.values(DrivetrainType)),
+    body('doors').optional({ nullable: true }).isInt({ min: 2, max: 6 }).toInt(),
+    body('seats').optional({ nullable: true }).isInt({ min: 1, max: 50 }).toInt(),
+    body('condition').isIn(Object.values(VehicleCondition)),
+    body('features').optional().isObject(),
+    body('location_address').optional({ nullable: true }).isString().trim().isLength({ max: 255 }),
+    body(['location_city', 'location_province']).optional().isString().trim().isLength({ max: 100 }),
+    body('location_lat').optional({ nullable: true }).isFloat({ min: -90, max: 90 }).toFloat(),
+    body('location_lng').optional({ nullable: true }).isFloat({ min: -180, max: 180 }).toFloat(),
+  ]),
+  async (req: Request, res: Response) => {
+    // Only the validated fields; the rest of the listing (status, review, publishing,
+    // counters) is never taken from the client
+    const fields = matchedData(req, { locations: ['body'] });
+    const model = await VehicleModel.query().findById(fields.model_id);
+
+    if (!model || model.brand_id !== fields.brand_id) {
+      throw new BadRequestError('model_id does not belong to brand_id');
+    }
+
+    const vehicle = await Vehicle.query().insertAndFetch({
+      ...fields,
+      manufacture_country: fields.manufacture_country || (fields.vin ? countryFromVin(fields.vin) : null),
+      seller_id: req.user!.id,
+      status: VehicleStatus.AVAILABLE,
+      listing_status: ListingStatus.DRAFT,
+    });
+
+    res.status(201).json(vehicle.toOwnerJson());
+  }
+);
+
+// Runs the quality checks on the seller's draft (or rejected listing) and submits it:
+// clean listings are approved right away, flagged ones go to the moderation queue.
+// The seller may ask for it to go live at a later date.
+router.post(
+  '/:id/submit',
+  authMiddleware,
+  validate([
+    param('id').isUUID(),
+    body('publish_at')
+      .optional({ nullable: true })
+      .isISO8601()
+      .toDate()
+      .custom((value: Date) => value > new Date())
+      .withMessage('publish_at must be in the future'),
+  ]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.id);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (vehicle.seller_id !== req.user!.id) {
+      throw new ForbiddenError('You do not own this vehicle');
+    }
+
+    await submitListing(vehicle, req.body.publish_at);
+
+    res.json(vehicle.toOwnerJson());
+  }
+);
+
+// Publishes a listing right away, skipping the review. Sellers go through /submit.
+router.post(
+  '/:id/publish',
+  authMiddleware,
+  authorize(UserRole.ADMIN),
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.id);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (vehicle.listing_status === ListingStatus.PUBLISHED) {
+      throw new ConflictError('Vehicle is already published');
+    }
+
+    // Kept for reference; the admin's decision stands
+    await vehicle.recordQuality(await checkListing(vehicle));
+    await vehicle.publish({ reviewed_at: new Date(), reviewed_by: req.user!.id });
+
+    res.json(vehicle.toModerationJson());
+  }
+);
+
+// Starts a new listing period; an expired listing goes back on the catalogue
+router.post(
+  '/:id/renew',
+  authMiddleware,
+  validate([param('id').isUUID()]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.id);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (vehicle.seller_id !== req.user!.id && req.user!.role !== UserRole.ADMIN) {
+      throw new ForbiddenError('You do not own this vehicle');
+    }
+    if (vehicle.listing_status !== ListingStatus.PUBLISHED) {
+      throw new ConflictError('Only published listings can be renewed');
+    }
+    if (vehicle.status !== VehicleStatus.AVAILABLE && !(vehicle.status === VehicleStatus.INACTIVE && vehicle.isExpired())) {
+      throw new ConflictError(`A ${vehicle.status} listing cannot be renewed`);
+    }
+
+    await vehicle.renew();
+
+    res.json(vehicle.toOwnerJson());
+  }
+);
+
+// Lets the seller show the full plate on the public listing instead of the masked one
+router.patch(
+  '/:id/license-plate-visibility',
+  authMiddleware,
+  validate([param('id').isUUID(), body('show_license_plate').isBoolean().toBoolean()]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.id);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (vehicle.seller_id !== req.user!.id) {
+      throw new ForbiddenError('You do not own this vehicle');
+    }
+
+    const updated = await vehicle.$query().patchAndFetch({ show_license_plate: req.body.show_license_plate });
+
+    res.json(updated.toOwnerJson());
+  }
+);
+
+// Places a time-boxed hold on an available vehicle for the current user, backed by a
+// deposit authorized with their payment method
+router.post(
+  '/:id/reservations',
+  authMiddleware,
+  validate([
+    param('id').isUUID(),
+    body('deposit_amount')
+      .isFloat({ min: reservationConfig.minDeposit })
+      .withMessage(`Deposit must be at least ${reservationConfig.minDeposit}`)
+      .toFloat(),
+    body('payment_token').isString().notEmpty(),
+    body('payment_provider').optional().isString(),
+    body('expires_in_hours').optional().isInt({ min: 1, max: reservationConfig.maxHours }).toInt(),
+  ]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.id);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    if (vehicle.seller_id === req.user!.id) {
+      throw new BadRequestError('You cannot reserve your own vehicle');
+    }
+    // Checked again under lock; this only spares the buyer a useless authorization
+    if (vehicle.status !== VehicleStatus.AVAILABLE || !vehicle.isPublished()) {
+      throw new ConflictError('Vehicle is not available');
+    }
+
+    const reservation = await VehicleReservation.holdWithDeposit({
+      vehicle_id: vehicle.id,
+      user_id: req.user!.id,
+      deposit_amount: req.body.deposit_amount,
+      payment_token: req.body.payment_token,
+      payment_provider: req.body.payment_provider,
+      expires_in_hours: Math.min(req.body.expires_in_hours || RESERVATION_DEFAULT_TTL_HOURS, reservationConfig.maxHours),
+    });
+
+    res.status(201).json(reservation);
+  }
+);
+
+// Releases the active hold; allowed for its holder, the seller and admins
+router.delete(
+  '/:id/reservation',
+  authMiddleware,
+  validate([
+    param('id').isUUID(),
+    body('reason').optional().isString().trim().isLength({ max: 500 }),
+  ]),
+  async (req: Request, res: Response) => {
+    const vehicle = await Vehicle.query().findById(req.params.id);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    const reservation = await VehicleReservation.findActiveByVehicle(vehicle.id);
+
+    if (!reservation) {
+      throw new NotFoundError('Vehicle has no active reservation');
+    }
+
+    const userId = req.user!.id;
+    const canRelease =
+      reservation.user_id === userId || vehicle.seller_id === userId || req.user!.role === UserRole.ADMIN;
+
+    if (!canRelease) {
+      throw new ForbiddenError('You cannot release this reservation');
+    }
+
+    await reservation.release(req.body.reason || 'Released by user');
+
+    res.json(reservation);
+  }
+);
+
+export { router as vehicleRoutes };
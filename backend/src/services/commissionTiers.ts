@@ -0,0 +1,69 @@
+// Marginal bands of tiered commission rules
+
+// `rate` percent applies to the part of the price up to `up_to` (and above the previous
+// band). The last band leaves `up_to` null: it covers the rest of the price.
+export interface CommissionTier {
+  up_to: number | null;
+  rate: number;
+}
+
+export interface CommissionBand {
+  from: number;
+  to: number | null;
+  rate: number;
+  taxable: number;
+  amount: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const byLimit = (tiers: CommissionTier[]): CommissionTier[] =>
+  [...tiers].sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity));
+
+// Why a set of bands cannot be saved, or null when it is fine
+export const tiersError = (tiers: CommissionTier[]): string | null => {
+  if (!tiers.length) {
+    return 'A tiered rule needs at least one band';
+  }
+
+  const sorted = byLimit(tiers);
+
+  if (sorted[sorted.length - 1].up_to != null) {
+    return 'The last band must be open-ended (up_to: null) so the whole price is charged';
+  }
+  if (sorted.filter((tier) => tier.up_to == null).length > 1) {
+    return 'Only the last band can be open-ended';
+  }
+  if (new Set(sorted.map((tier) => tier.up_to)).size !== sorted.length) {
+    return 'Bands cannot share the same up_to';
+  }
+
+  return null;
+};
+
+// Splits a price across the bands. The last band always runs to the end of the price, so
+// rules stored with a closed last band still charge everything above it at its rate.
+export const splitIntoBands = (tiers: CommissionTier[], price: number): CommissionBand[] => {
+  const sorted = byLimit(tiers);
+  const bands: CommissionBand[] = [];
+  let from = 0;
+
+  sorted.forEach((tier, index) => {
+    if (from >= price) return;
+
+    const to = index === sorted.length - 1 ? null : tier.up_to;
+    const taxable = Math.min(price, to ?? Infinity) - from;
+
+    bands.push({
+      from,
+      to,
+      rate: tier.rate,
+      taxable: round2(taxable),
+      amount: round2(taxable * (tier.rate / 100)),
+    });
+
+    from = to ?? price;
+  });
+
+  return bands;
+};
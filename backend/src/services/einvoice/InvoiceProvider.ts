@@ -0,0 +1,23 @@
+// Contract for the step that signs an invoice (XAdES-BES with the issuer's certificate)
+// and submits it to the SRI reception and authorization web services.
+
+export enum InvoiceAuthorizationStatus {
+  AUTHORIZED = 'authorized',
+  REJECTED = 'rejected',
+  // Received by the SRI but not yet authorized; poll again later
+  IN_PROCESS = 'in_process',
+}
+
+export interface InvoiceSubmissionResult {
+  status: InvoiceAuthorizationStatus;
+  authorizationNumber?: string;
+  authorizedAt?: Date;
+  messages: string[];
+}
+
+export interface InvoiceProvider {
+  readonly name: string;
+
+  sign(xml: string): Promise<string>;
+  submit(signedXml: string, accessKey: string): Promise<InvoiceSubmissionResult>;
+}
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import { InvoiceAuthorizationStatus, InvoiceProvider, InvoiceSubmissionResult } from './InvoiceProvider';
+
+// Stand-in for development and tests. It appends a placeholder ds:Signature carrying a
+// digest of the document instead of a real XAdES signature, and "authorizes" locally
+// using the access key as authorization number, as the SRI does in offline mode.
+export class LocalInvoiceProvider implements InvoiceProvider {
+  readonly name = 'local';
+
+  async sign(xml: string): Promise<string> {
+    const digest = crypto.createHash('sha256').update(xml).digest('base64');
+    const signature = [
+      '  <ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#" Id="local-stub">',
+      `    <ds:SignatureValue>${digest}</ds:SignatureValue>`,
+      '  </ds:Signature>',
+    ].join('\n');
+
+    return xml.replace(/<\/factura>\s*$/, `${signature}\n</factura>\n`);
+  }
+
+  async submit(signedXml: string, accessKey: string): Promise<InvoiceSubmissionResult> {
+    if (!signedXml.includes('<ds:Signature')) {
+      return {
+        status: InvoiceAuthorizationStatus.REJECTED,
+        messages: ['Document is not signed'],
+      };
+    }
+
+    return {
+      status: InvoiceAuthorizationStatus.AUTHORIZED,
+      authorizationNumber: accessKey,
+      authorizedAt: new Date(),
+      messages: [],
+    };
+  }
+}
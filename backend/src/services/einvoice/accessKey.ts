@@ -0,0 +1,74 @@
+// Clave de acceso: the 49-digit key that identifies an electronic document at the SRI.
+//
+//   ddmmyyyy | codDoc | RUC | ambiente | estab+ptoEmi | secuencial | código numérico | tipoEmisión | DV
+//       8        2      13       1           6              9               8               1        1
+
+export interface AccessKeyParts {
+  issueDate: Date;
+  documentType: string;
+  ruc: string;
+  environment: string;
+  establishment: string;
+  emissionPoint: string;
+  sequential: string;
+  numericCode: string;
+  emissionType: string;
+}
+
+// Módulo 11 with weights 2..7 applied from the rightmost digit. A result of 11 maps to 0
+// and 10 maps to 1.
+export const computeCheckDigit = (digits: string): number => {
+  if (!/^\d+$/.test(digits)) {
+    throw new Error('Check digit input must be numeric');
+  }
+
+  let sum = 0;
+  let weight = 2;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 7 ? 2 : weight + 1;
+  }
+
+  const digit = 11 - (sum % 11);
+
+  if (digit === 11) return 0;
+  if (digit === 10) return 1;
+  return digit;
+};
+
+// Issue dates are expressed in Ecuador time (UTC-5, no daylight saving)
+export const toEcuadorDate = (date: Date): { day: string; month: string; year: string } => {
+  const local = new Date(date.getTime() - 5 * 60 * 60 * 1000);
+
+  return {
+    day: String(local.getUTCDate()).padStart(2, '0'),
+    month: String(local.getUTCMonth() + 1).padStart(2, '0'),
+    year: String(local.getUTCFullYear()),
+  };
+};
+
+export const buildAccessKey = (parts: AccessKeyParts): string => {
+  const { day, month, year } = toEcuadorDate(parts.issueDate);
+
+  const base = [
+    `${day}${month}${year}`,
+    parts.documentType.padStart(2, '0'),
+    parts.ruc,
+    parts.environment,
+    parts.establishment.padStart(3, '0'),
+    parts.emissionPoint.padStart(3, '0'),
+    parts.sequential.padStart(9, '0'),
+    parts.numericCode.padStart(8, '0'),
+    parts.emissionType,
+  ].join('');
+
+  if (!/^\d{48}$/.test(base)) {
+    throw new Error(`Invalid access key components: ${base}`);
+  }
+
+  return base + computeCheckDigit(base);
+};
+
+export const isValidAccessKey = (key: string): boolean =>
+  /^\d{49}$/.test(key) && computeCheckDigit(key.slice(0, 48)) === Number(key[48]);
@@ -0,0 +1,28 @@
+import { InvoiceProvider } from './InvoiceProvider';
+import { LocalInvoiceProvider } from './LocalInvoiceProvider';
+import { einvoiceConfig } from '../../config/einvoice';
+
+export * from './InvoiceProvider';
+export * from './accessKey';
+export * from './invoiceXml';
+export { validateInvoiceXml } from './validation';
+export { LocalInvoiceProvider } from './LocalInvoiceProvider';
+
+// Signing and submission adapters (certificate-based signer, SRI web services) register here
+const providers = new Map<string, InvoiceProvider>();
+
+export const registerInvoiceProvider = (provider: InvoiceProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+export const getInvoiceProvider = (name: string = einvoiceConfig.provider): InvoiceProvider => {
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new Error(`Invoice provider '${name}' is not registered`);
+  }
+
+  return provider;
+};
+
+registerInvoiceProvider(new LocalInvoiceProvider());
@@ -0,0 +1,150 @@
+// XSD for the invoices we emit: the subset of the SRI "factura" v1.1.0 offline schema
+// that covers the elements buildInvoiceXml() writes, with the SRI's own types and limits.
+// Kept inline so it ships with the compiled build.
+export const INVOICE_XSD = `<?xml version="1.0" encoding="UTF-8"?>
+<xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema" elementFormDefault="unqualified">
+  <xsd:simpleType name="ambiente"><xsd:restriction base="xsd:string"><xsd:pattern value="[12]"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="tipoEmision"><xsd:restriction base="xsd:string"><xsd:pattern value="1"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="ruc"><xsd:restriction base="xsd:string"><xsd:pattern value="[0-9]{10}001"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="claveAcceso"><xsd:restriction base="xsd:string"><xsd:pattern value="[0-9]{49}"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="codDoc"><xsd:restriction base="xsd:string"><xsd:pattern value="01"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="establecimiento"><xsd:restriction base="xsd:string"><xsd:pattern value="[0-9]{3}"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="secuencial"><xsd:restriction base="xsd:string"><xsd:pattern value="[0-9]{9}"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="fechaEmision"><xsd:restriction base="xsd:string"><xsd:pattern value="(0[1-9]|[12][0-9]|3[01])/(0[1-9]|1[012])/20[0-9]{2}"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="texto300"><xsd:restriction base="xsd:string"><xsd:minLength value="1"/><xsd:maxLength value="300"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="obligadoContabilidad"><xsd:restriction base="xsd:string"><xsd:enumeration value="SI"/><xsd:enumeration value="NO"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="tipoIdentificacion"><xsd:restriction base="xsd:string"><xsd:pattern value="0[4-8]"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="identificacion"><xsd:restriction base="xsd:string"><xsd:minLength value="1"/><xsd:maxLength value="20"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="codigo"><xsd:restriction base="xsd:string"><xsd:minLength value="1"/><xsd:maxLength value="25"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="valor"><xsd:restriction base="xsd:decimal"><xsd:minInclusive value="0"/><xsd:totalDigits value="14"/><xsd:fractionDigits value="2"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="cantidad"><xsd:restriction base="xsd:decimal"><xsd:minInclusive value="0"/><xsd:totalDigits value="18"/><xsd:fractionDigits value="6"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="codigoImpuesto"><xsd:restriction base="xsd:string"><xsd:pattern value="[235]"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="codigoPorcentaje"><xsd:restriction base="xsd:string"><xsd:pattern value="[0-9]{1,4}"/></xsd:restriction></xsd:simpleType>
+  <xsd:simpleType name="formaPago"><xsd:restriction base="xsd:string"><xsd:pattern value="[0-9]{2}"/></xsd:restriction></xsd:simpleType>
+
+  <xsd:complexType name="impuesto">
+    <xsd:sequence>
+      <xsd:element name="codigo" type="codigoImpuesto"/>
+      <xsd:element name="codigoPorcentaje" type="codigoPorcentaje"/>
+      <xsd:element name="tarifa" type="xsd:decimal"/>
+      <xsd:element name="baseImponible" type="valor"/>
+      <xsd:element name="valor" type="valor"/>
+    </xsd:sequence>
+  </xsd:complexType>
+
+  <xsd:element name="factura">
+    <xsd:complexType>
+      <xsd:sequence>
+        <xsd:element name="infoTributaria">
+          <xsd:complexType>
+            <xsd:sequence>
+              <xsd:element name="ambiente" type="ambiente"/>
+              <xsd:element name="tipoEmision" type="tipoEmision"/>
+              <xsd:element name="razonSocial" type="texto300"/>
+              <xsd:element name="nombreComercial" type="texto300" minOccurs="0"/>
+              <xsd:element name="ruc" type="ruc"/>
+              <xsd:element name="claveAcceso" type="claveAcceso"/>
+              <xsd:element name="codDoc" type="codDoc"/>
+              <xsd:element name="estab" type="establecimiento"/>
+              <xsd:element name="ptoEmi" type="establecimiento"/>
+              <xsd:element name="secuencial" type="secuencial"/>
+              <xsd:element name="dirMatriz" type="texto300"/>
+            </xsd:sequence>
+          </xsd:complexType>
+        </xsd:element>
+        <xsd:element name="infoFactura">
+          <xsd:complexType>
+            <xsd:sequence>
+              <xsd:element name="fechaEmision" type="fechaEmision"/>
+              <xsd:element name="dirEstablecimiento" type="texto300" minOccurs="0"/>
+              <xsd:element name="obligadoContabilidad" type="obligadoContabilidad" minOccurs="0"/>
+              <xsd:element name="tipoIdentificacionComprador" type="tipoIdentificacion"/>
+              <xsd:element name="razonSocialComprador" type="texto300"/>
+              <xsd:element name="identificacionComprador" type="identificacion"/>
+              <xsd:element name="direccionComprador" type="texto300" minOccurs="0"/>
+              <xsd:element name="totalSinImpuestos" type="valor"/>
+              <xsd:element name="totalDescuento" type="valor"/>
+              <xsd:element name="totalConImpuestos">
+                <xsd:complexType>
+                  <xsd:sequence>
+                    <xsd:element name="totalImpuesto" maxOccurs="unbounded">
+                      <xsd:complexType>
+                        <xsd:sequence>
+                          <xsd:element name="codigo" type="codigoImpuesto"/>
+                          <xsd:element name="codigoPorcentaje" type="codigoPorcentaje"/>
+                          <xsd:element name="baseImponible" type="valor"/>
+                          <xsd:element name="valor" type="valor"/>
+                        </xsd:sequence>
+                      </xsd:complexType>
+                    </xsd:element>
+                  </xsd:sequence>
+                </xsd:complexType>
+              </xsd:element>
+              <xsd:element name="propina" type="valor"/>
+              <xsd:element name="importeTotal" type="valor"/>
+              <xsd:element name="moneda" type="texto300"/>
+              <xsd:element name="pagos">
+                <xsd:complexType>
+                  <xsd:sequence>
+                    <xsd:element name="pago" maxOccurs="unbounded">
+                      <xsd:complexType>
+                        <xsd:sequence>
+                          <xsd:element name="formaPago" type="formaPago"/>
+                          <xsd:element name="total" type="valor"/>
+                        </xsd:sequence>
+                      </xsd:complexType>
+                    </xsd:element>
+                  </xsd:sequence>
+                </xsd:complexType>
+              </xsd:element>
+            </xsd:sequence>
+          </xsd:complexType>
+        </xsd:element>
+        <xsd:element name="detalles">
+          <xsd:complexType>
+            <xsd:sequence>
+              <xsd:element name="detalle" maxOccurs="unbounded">
+                <xsd:complexType>
+                  <xsd:sequence>
+                    <xsd:element name="codigoPrincipal" type="codigo"/>
+                    <xsd:element name="descripcion" type="texto300"/>
+                    <xsd:element name="cantidad" type="cantidad"/>
+                    <xsd:element name="precioUnitario" type="cantidad"/>
+                    <xsd:element name="descuento" type="valor"/>
+                    <xsd:element name="precioTotalSinImpuesto" type="valor"/>
+                    <xsd:element name="impuestos">
+                      <xsd:complexType>
+                        <xsd:sequence>
+                          <xsd:element name="impuesto" type="impuesto" maxOccurs="unbounded"/>
+                        </xsd:sequence>
+                      </xsd:complexType>
+                    </xsd:element>
+                  </xsd:sequence>
+                </xsd:complexType>
+              </xsd:element>
+            </xsd:sequence>
+          </xsd:complexType>
+        </xsd:element>
+        <xsd:element name="infoAdicional" minOccurs="0">
+          <xsd:complexType>
+            <xsd:sequence>
+              <xsd:element name="campoAdicional" maxOccurs="15">
+                <xsd:complexType>
+                  <xsd:simpleContent>
+                    <xsd:extension base="texto300">
+                      <xsd:attribute name="nombre" type="texto300" use="required"/>
+                    </xsd:extension>
+                  </xsd:simpleContent>
+                </xsd:complexType>
+              </xsd:element>
+            </xsd:sequence>
+          </xsd:complexType>
+        </xsd:element>
+        <xsd:any processContents="skip" namespace="http://www.w3.org/2000/09/xmldsig#" minOccurs="0"/>
+      </xsd:sequence>
+      <xsd:attribute name="id" type="xsd:string" use="required" fixed="comprobante"/>
+      <xsd:attribute name="version" type="xsd:NMTOKEN" use="required"/>
+    </xsd:complexType>
+  </xsd:element>
+</xsd:schema>
+`;
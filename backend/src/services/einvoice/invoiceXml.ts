@@ -0,0 +1,224 @@
+import { toEcuadorDate } from './accessKey';
+
+export const INVOICE_DOCUMENT_TYPE = '01';
+export const INVOICE_XML_VERSION = '1.1.0';
+// Normal (online) emission
+export const EMISSION_TYPE = '1';
+// "Otros con utilización del sistema financiero"
+export const DEFAULT_PAYMENT_METHOD = '20';
+// IVA is tax code 2 in the SRI catalogue
+const IVA_TAX_CODE = '2';
+
+// SRI catalogue: IVA rate -> codigoPorcentaje
+const IVA_RATE_CODES: Record<number, string> = {
+  0: '0',
+  5: '5',
+  12: '2',
+  13: '10',
+  14: '3',
+  15: '4',
+};
+
+export enum CustomerIdType {
+  RUC = '04',
+  CEDULA = '05',
+  PASSPORT = '06',
+  FINAL_CONSUMER = '07',
+}
+
+export const FINAL_CONSUMER_ID = '9999999999999';
+
+export interface InvoiceLine {
+  code: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount?: number;
+  ivaRate: number;
+}
+
+export interface InvoiceDocument {
+  accessKey: string;
+  environment: string;
+  establishment: string;
+  emissionPoint: string;
+  sequential: string;
+  issueDate: Date;
+  issuer: {
+    ruc: string;
+    businessName: string;
+    tradeName?: string;
+    headOfficeAddress: string;
+    establishmentAddress?: string;
+    keepsAccounting: boolean;
+  };
+  customer: {
+    idType: CustomerIdType;
+    id: string;
+    name: string;
+    address?: string;
+  };
+  lines: InvoiceLine[];
+  paymentMethod?: string;
+  additionalInfo?: Record<string, string>;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount: number;
+  taxes: Array<{ rateCode: string; rate: number; base: number; amount: number }>;
+  total: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+const amount = (value: number): string => round2(value).toFixed(2);
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Free-text fields are single-line and length-limited in the SRI schema
+const text = (value: string, max: number = 300): string =>
+  escapeXml(value.replace(/\s+/g, ' ').trim().slice(0, max));
+
+export const ivaRateCode = (rate: number): string => {
+  const code = IVA_RATE_CODES[rate];
+
+  if (code === undefined) {
+    throw new Error(`IVA rate ${rate}% has no SRI code`);
+  }
+
+  return code;
+};
+
+export const calculateInvoiceTotals = (lines: InvoiceLine[]): InvoiceTotals => {
+  const taxes = new Map<number, { base: number; amount: number }>();
+  let subtotal = 0;
+  let discount = 0;
+
+  for (const line of lines) {
+    const lineDiscount = line.discount || 0;
+    const base = round2(line.quantity * line.unitPrice - lineDiscount);
+    const entry = taxes.get(line.ivaRate) || { base: 0, amount: 0 };
+
+    entry.base = round2(entry.base + base);
+    entry.amount = round2(entry.amount + base * (line.ivaRate / 100));
+    taxes.set(line.ivaRate, entry);
+
+    subtotal = round2(subtotal + base);
+    discount = round2(discount + lineDiscount);
+  }
+
+  const taxList = [...taxes.entries()].map(([rate, entry]) => ({
+    rateCode: ivaRateCode(rate),
+    rate,
+    base: entry.base,
+    amount: round2(entry.amount),
+  }));
+
+  return {
+    subtotal,
+    discount,
+    taxes: taxList,
+    total: round2(subtotal + taxList.reduce((sum, tax) => sum + tax.amount, 0)),
+  };
+};
+
+// Builds the unsigned <factura> document in the SRI offline schema layout
+export const buildInvoiceXml = (doc: InvoiceDocument): string => {
+  const totals = calculateInvoiceTotals(doc.lines);
+  const { day, month, year } = toEcuadorDate(doc.issueDate);
+  const issuer = doc.issuer;
+
+  const taxTotals = totals.taxes
+    .map((tax) => [
+      '      <totalImpuesto>',
+      `        <codigo>${IVA_TAX_CODE}</codigo>`,
+      `        <codigoPorcentaje>${tax.rateCode}</codigoPorcentaje>`,
+      `        <baseImponible>${amount(tax.base)}</baseImponible>`,
+      `        <valor>${amount(tax.amount)}</valor>`,
+      '      </totalImpuesto>',
+    ].join('\n'))
+    .join('\n');
+
+  const details = doc.lines
+    .map((line) => {
+      const base = round2(line.quantity * line.unitPrice - (line.discount || 0));
+
+      return [
+        '    <detalle>',
+        `      <codigoPrincipal>${text(line.code, 25)}</codigoPrincipal>`,
+        `      <descripcion>${text(line.description)}</descripcion>`,
+        `      <cantidad>${line.quantity.toFixed(2)}</cantidad>`,
+        `      <precioUnitario>${amount(line.unitPrice)}</precioUnitario>`,
+        `      <descuento>${amount(line.discount || 0)}</descuento>`,
+        `      <precioTotalSinImpuesto>${amount(base)}</precioTotalSinImpuesto>`,
+        '      <impuestos>',
+        '        <impuesto>',
+        `          <codigo>${IVA_TAX_CODE}</codigo>`,
+        `          <codigoPorcentaje>${ivaRateCode(line.ivaRate)}</codigoPorcentaje>`,
+        `          <tarifa>${line.ivaRate}</tarifa>`,
+        `          <baseImponible>${amount(base)}</baseImponible>`,
+        `          <valor>${amount(base * (line.ivaRate / 100))}</valor>`,
+        '        </impuesto>',
+        '      </impuestos>',
+        '    </detalle>',
+      ].join('\n');
+    })
+    .join('\n');
+
+  const additional = Object.entries(doc.additionalInfo || {})
+    .filter(([, value]) => value)
+    .map(([name, value]) => `    <campoAdicional nombre="${text(name, 300)}">${text(value)}</campoAdicional>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<factura id="comprobante" version="${INVOICE_XML_VERSION}">`,
+    '  <infoTributaria>',
+    `    <ambiente>${doc.environment}</ambiente>`,
+    `    <tipoEmision>${EMISSION_TYPE}</tipoEmision>`,
+    `    <razonSocial>${text(issuer.businessName)}</razonSocial>`,
+    ...(issuer.tradeName ? [`    <nombreComercial>${text(issuer.tradeName)}</nombreComercial>`] : []),
+    `    <ruc>${issuer.ruc}</ruc>`,
+    `    <claveAcceso>${doc.accessKey}</claveAcceso>`,
+    `    <codDoc>${INVOICE_DOCUMENT_TYPE}</codDoc>`,
+    `    <estab>${doc.establishment}</estab>`,
+    `    <ptoEmi>${doc.emissionPoint}</ptoEmi>`,
+    `    <secuencial>${doc.sequential}</secuencial>`,
+    `    <dirMatriz>${text(issuer.headOfficeAddress)}</dirMatriz>`,
+    '  </infoTributaria>',
+    '  <infoFactura>',
+    `    <fechaEmision>${day}/${month}/${year}</fechaEmision>`,
+    ...(issuer.establishmentAddress ? [`    <dirEstablecimiento>${text(issuer.establishmentAddress)}</dirEstablecimiento>`] : []),
+    `    <obligadoContabilidad>${issuer.keepsAccounting ? 'SI' : 'NO'}</obligadoContabilidad>`,
+    `    <tipoIdentificacionComprador>${doc.customer.idType}</tipoIdentificacionComprador>`,
+    `    <razonSocialComprador>${text(doc.customer.name)}</razonSocialComprador>`,
+    `    <identificacionComprador>${text(doc.customer.id, 20)}</identificacionComprador>`,
+    ...(doc.customer.address ? [`    <direccionComprador>${text(doc.customer.address)}</direccionComprador>`] : []),
+    `    <totalSinImpuestos>${amount(totals.subtotal)}</totalSinImpuestos>`,
+    `    <totalDescuento>${amount(totals.discount)}</totalDescuento>`,
+    '    <totalConImpuestos>',
+    taxTotals,
+    '    </totalConImpuestos>',
+    '    <propina>0.00</propina>',
+    `    <importeTotal>${amount(totals.total)}</importeTotal>`,
+    '    <moneda>DOLAR</moneda>',
+    '    <pagos>',
+    '      <pago>',
+    `        <formaPago>${doc.paymentMethod || DEFAULT_PAYMENT_METHOD}</formaPago>`,
+    `        <total>${amount(totals.total)}</total>`,
+    '      </pago>',
+    '    </pagos>',
+    '  </infoFactura>',
+    '  <detalles>',
+    details,
+    '  </detalles>',
+    ...(additional.length ? ['  <infoAdicional>', ...additional, '  </infoAdicional>'] : []),
+    '</factura>',
+    '',
+  ].join('\n');
+};
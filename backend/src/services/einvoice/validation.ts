@@ -0,0 +1,21 @@
+import { validateXML } from 'xmllint-wasm';
+import { INVOICE_XSD } from './invoiceSchema';
+
+export interface InvoiceValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export const validateInvoiceXml = async (xml: string): Promise<InvoiceValidationResult> => {
+  const result = await validateXML({
+    xml: { fileName: 'factura.xml', contents: xml },
+    schema: { fileName: 'factura.xsd', contents: INVOICE_XSD },
+  });
+
+  return {
+    valid: result.valid,
+    errors: result.errors.map((error) =>
+      error.loc ? `line ${error.loc.lineNumber}: ${error.message}` : error.message
+    ),
+  };
+};
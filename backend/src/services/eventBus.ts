@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events';
+import { Knex } from 'knex';
+import { afterCommit } from '../utils/afterCommit';
+import { logger } from '../utils/logger';
+
+// Payloads of the domain events published inside the backend
+export interface DomainEvents {
+  'transaction.completed': {
+    transactionId: string;
+    vehicleId: string;
+    buyerId: string;
+    sellerId: string;
+    price: number;
+    commissionAmount: number;
+    netAmount: number;
+    cancelledTransactionIds: string[];
+  };
+  'transaction.refunded': {
+    transactionId: string;
+    vehicleId: string;
+    buyerId: string;
+    sellerId: string;
+    refundAmount: number;
+    partial: boolean;
+    commissionAdjustment: number;
+    clawback: boolean;
+  };
+  'vehicle.published': {
+    vehicleId: string;
+    sellerId: string;
+  };
+  'vehicle.price_changed': {
+    vehicleId: string;
+    sellerId: string;
+    oldPrice: number;
+    newPrice: number;
+  };
+  'vehicle.status_changed': {
+    vehicleId: string;
+    sellerId: string;
+    fromStatus: string;
+    toStatus: string;
+  };
+  'vehicle.listing_status_changed': {
+    vehicleId: string;
+    sellerId: string;
+    fromStatus: string;
+    toStatus: string;
+  };
+}
+
+export type DomainEventName = keyof DomainEvents;
+export type DomainEventHandler<K extends DomainEventName> = (payload: DomainEvents[K]) => void | Promise<void>;
+
+class EventBus {
+  private emitter = new EventEmitter();
+
+  publish<K extends DomainEventName>(event: K, payload: DomainEvents[K]): void {
+    logger.debug(`Event published: ${event}`, payload);
+    this.emitter.emit(event, payload);
+  }
+
+  // Waits for the surrounding transaction to commit, so subscribers never see work
+  // that is rolled back afterwards. Outside a transaction it publishes right away.
+  publishAfterCommit<K extends DomainEventName>(
+    trx: Knex | Knex.Transaction | undefined,
+    event: K,
+    payload: DomainEvents[K]
+  ): void {
+    afterCommit(trx, () => this.publish(event, payload));
+  }
+
+  // Handlers never break the publisher; failures are logged and swallowed
+  subscribe<K extends DomainEventName>(event: K, handler: DomainEventHandler<K>): () => void {
+    const listener = (payload: DomainEvents[K]) => {
+      Promise.resolve()
+        .then(() => handler(payload))
+        .catch((error) => logger.error(`Event handler for ${event} failed:`, error));
+    };
+
+    this.emitter.on(event, listener);
+
+    return () => {
+      this.emitter.off(event, listener);
+    };
+  }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,123 @@
+import { Favorite } from '../models/Favorite';
+import { Notification } from '../models/Notification';
+import { Transaction, TransactionStatus } from '../models/Transaction';
+import { Vehicle, VehicleStatus } from '../models/Vehicle';
+import { VehicleReservation } from '../models/VehicleReservation';
+import { eventBus } from './eventBus';
+import { logger } from '../utils/logger';
+
+const money = (value: number): string => `$${value.toFixed(2)}`;
+
+// Users who favorited the vehicle, never its seller. With `priceAlerts` only those
+// who have not turned off preferences.notifications.priceChange.
+const findWatchers = async (
+  vehicle: Vehicle,
+  options: { priceAlerts?: boolean; exclude?: string[] } = {}
+): Promise<string[]> => {
+  let query = Favorite.query()
+    .select('favorites.user_id')
+    .where('favorites.vehicle_id', vehicle.id)
+    .whereNot('favorites.user_id', vehicle.seller_id);
+
+  if (options.exclude?.length) {
+    query = query.whereNotIn('favorites.user_id', options.exclude);
+  }
+
+  if (options.priceAlerts) {
+    query = query
+      .leftJoin('user_profiles', 'user_profiles.user_id', 'favorites.user_id')
+      .whereRaw(`(user_profiles.preferences->'notifications'->>'priceChange') IS DISTINCT FROM 'false'`);
+  }
+
+  const favorites = await query;
+
+  return favorites.map((favorite) => favorite.user_id);
+};
+
+// The buyer or holder behind a status change already knows about it
+const findActor = async (vehicle: Vehicle, status: VehicleStatus): Promise<string | undefined> => {
+  if (status === VehicleStatus.RESERVED) {
+    const reservation = await VehicleReservation.findActiveByVehicle(vehicle.id);
+    return reservation?.user_id;
+  }
+
+  const sale = await Transaction.query()
+    .where('vehicle_id', vehicle.id)
+    .where('status', TransactionStatus.COMPLETED)
+    .orderBy('completed_at', 'desc')
+    .first();
+
+  return sale?.buyer_id;
+};
+
+export const notifyPriceDrop = async (vehicleId: string, oldPrice: number, newPrice: number): Promise<number> => {
+  if (newPrice >= oldPrice) {
+    return 0;
+  }
+
+  const vehicle = await Vehicle.query().findById(vehicleId);
+
+  if (!vehicle || vehicle.status === VehicleStatus.SOLD) {
+    return 0;
+  }
+
+  const watchers = await findWatchers(vehicle, { priceAlerts: true });
+  const percent = Math.round(((oldPrice - newPrice) / oldPrice) * 100);
+
+  await Notification.notifyMany(
+    watchers,
+    'favorite.price_drop',
+    'Bajó el precio de un favorito',
+    `"${vehicle.title}" bajó de ${money(oldPrice)} a ${money(newPrice)} (-${percent}%).`,
+    { vehicle_id: vehicle.id, old_price: oldPrice, new_price: newPrice }
+  );
+
+  return watchers.length;
+};
+
+export const notifyStatusChange = async (vehicleId: string, status: VehicleStatus): Promise<number> => {
+  if (status !== VehicleStatus.RESERVED && status !== VehicleStatus.SOLD) {
+    return 0;
+  }
+
+  const vehicle = await Vehicle.query().findById(vehicleId);
+
+  if (!vehicle) {
+    return 0;
+  }
+
+  const actor = await findActor(vehicle, status);
+  const watchers = await findWatchers(vehicle, { exclude: actor ? [actor] : [] });
+  const [title, message] =
+    status === VehicleStatus.SOLD
+      ? ['Un favorito se ha vendido', `"${vehicle.title}" se ha vendido.`]
+      : ['Un favorito ha sido reservado', `"${vehicle.title}" ha sido reservado. Si la reserva expira volverá a estar disponible.`];
+
+  await Notification.notifyMany(watchers, 'favorite.status_change', title, message, {
+    vehicle_id: vehicle.id,
+    status,
+  });
+
+  return watchers.length;
+};
+
+export const registerFavoriteWatchSubscribers = (): (() => void) => {
+  const unsubscribers = [
+    eventBus.subscribe('vehicle.price_changed', async ({ vehicleId, oldPrice, newPrice }) => {
+      const notified = await notifyPriceDrop(vehicleId, oldPrice, newPrice);
+
+      if (notified) {
+        logger.info(`Price drop on vehicle ${vehicleId} notified to ${notified} user(s)`);
+      }
+    }),
+    eventBus.subscribe('vehicle.status_changed', async ({ vehicleId, toStatus }) => {
+      const notified = await notifyStatusChange(vehicleId, toStatus as VehicleStatus);
+
+      if (notified) {
+        logger.info(`Status change of vehicle ${vehicleId} notified to ${notified} user(s)`);
+      }
+    }),
+  ];
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+};
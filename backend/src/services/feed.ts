@@ -0,0 +1,278 @@
+import { ListingStatus, Vehicle, VehicleStatus } from '../models/Vehicle';
+import { PaginatedResult } from '../models/BaseModel';
+import { feedConfig } from '../config/recommendations';
+import { cache, cacheKeys, cacheTTL } from '../config/redis';
+import { logger } from '../utils/logger';
+import { PeriodicJob, startPeriodicJob } from '../utils/periodicJob';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const REFRESH_BATCH_SIZE = 500;
+
+// Views plus three per favorite; popularity saturates at this many
+const POPULARITY_SATURATION = 1000;
+const POPULARITY_SQL = `least(1, ln(1 + vehicles.views_count + 3 * vehicles.favorites_count) / ln(${POPULARITY_SATURATION + 1}))`;
+
+// Listings the user has already opened are not recommended again
+const NOT_VIEWED_SQL =
+  'NOT EXISTS (SELECT 1 FROM vehicle_views WHERE vehicle_views.vehicle_id = vehicles.id AND vehicle_views.user_id = ?)';
+
+let job: PeriodicJob | undefined;
+let lastRefreshAt: Date | undefined;
+
+// What a user tends to look at. Each map is scaled so its strongest entry is 1.
+export interface FeedAffinity {
+  brands: Record<string, number>;
+  models: Record<string, number>;
+  cities: Record<string, number>;
+  // Typical asking price (weighted geometric mean); null without price signals
+  price: number | null;
+}
+
+interface PrecomputedFeed {
+  ids: string[];
+  personalized: boolean;
+}
+
+export type FeedPage = PaginatedResult<Vehicle> & { personalized: boolean };
+
+const add = (map: Record<string, number>, key: string | null | undefined, weight: number): void => {
+  if (key) {
+    map[key] = (map[key] || 0) + weight;
+  }
+};
+
+const scale = (map: Record<string, number>): Record<string, number> => {
+  const max = Math.max(0, ...Object.values(map));
+
+  return max > 0
+    ? Object.fromEntries(Object.entries(map).map(([key, value]) => [key, Math.round((value / max) * 1000) / 1000]))
+    : {};
+};
+
+// Views, favorites and conversations point at listings; searches only at the brand,
+// model, city and price range they filtered on. Older activity counts for less.
+export const buildAffinity = async (userId: string): Promise<FeedAffinity | null> => {
+  const { signals, lookbackDays, halfLifeDays } = feedConfig;
+  const since = new Date(Date.now() - lookbackDays * DAY_SECONDS * 1000);
+  const halfLife = halfLifeDays * DAY_SECONDS;
+  const knex = Vehicle.knex();
+
+  const [interactions, searches] = await Promise.all([
+    knex.raw(
+      `WITH signals AS (
+         SELECT vehicle_id, ?::float8 AS weight, viewed_at AS at
+         FROM vehicle_views WHERE user_id = ? AND viewed_at >= ?
+         UNION ALL
+         SELECT vehicle_id, ?::float8, created_at
+         FROM favorites WHERE user_id = ? AND created_at >= ?
+         UNION ALL
+         SELECT vehicle_id, ?::float8, coalesce(last_message_at, created_at)
+         FROM conversations WHERE buyer_id = ? AND coalesce(last_message_at, created_at) >= ?
+       )
+       SELECT vehicles.brand_id, vehicles.model_id, vehicles.location_city AS city, vehicles.price,
+              sum(signals.weight * power(0.5, extract(epoch FROM now() - signals.at) / ?)) AS weight
+       FROM signals
+       JOIN vehicles ON vehicles.id = signals.vehicle_id
+       GROUP BY vehicles.id`,
+      [
+        signals.view, userId, since,
+        signals.favorite, userId, since,
+        signals.conversation, userId, since,
+        halfLife,
+      ]
+    ),
+    knex.raw(
+      `SELECT filters->>'brand_id' AS brand_id, filters->>'model_id' AS model_id, filters->>'city' AS city,
+              filters->>'price_min' AS price_min, filters->>'price_max' AS price_max,
+              ?::float8 * power(0.5, extract(epoch FROM now() - created_at) / ?) AS weight
+       FROM search_history
+       WHERE user_id = ? AND created_at >= ?
+         AND (filters->>'brand_id' IS NOT NULL OR filters->>'model_id' IS NOT NULL OR filters->>'city' IS NOT NULL
+              OR filters->>'price_min' IS NOT NULL OR filters->>'price_max' IS NOT NULL)`,
+      [signals.search, halfLife, userId, since]
+    ),
+  ]);
+
+  if (!interactions.rows.length && !searches.rows.length) {
+    return null;
+  }
+
+  const brands: Record<string, number> = {};
+  const models: Record<string, number> = {};
+  const cities: Record<string, number> = {};
+  let logPriceSum = 0;
+  let priceWeight = 0;
+
+  const addPrice = (price: number, weight: number): void => {
+    if (Number.isFinite(price) && price > 0) {
+      logPriceSum += weight * Math.log(price);
+      priceWeight += weight;
+    }
+  };
+
+  for (const row of interactions.rows) {
+    const weight = Number(row.weight);
+    add(brands, row.brand_id, weight);
+    add(models, row.model_id, weight);
+    add(cities, row.city, weight);
+    addPrice(Number(row.price), weight);
+  }
+
+  for (const row of searches.rows) {
+    const weight = Number(row.weight);
+    const bounds = [row.price_min, row.price_max].filter((value) => value != null).map(Number);
+    add(brands, row.brand_id, weight);
+    add(models, row.model_id, weight);
+    add(cities, row.city, weight);
+
+    if (bounds.length) {
+      addPrice(bounds.reduce((sum, value) => sum + value, 0) / bounds.length, weight);
+    }
+  }
+
+  return {
+    brands: scale(brands),
+    models: scale(models),
+    cities: scale(cities),
+    price: priceWeight > 0 ? Math.round(Math.exp(logPriceSum / priceWeight)) : null,
+  };
+};
+
+// Ids of available listings, best first. Without an affinity only popularity counts.
+const rankVehicles = async (userId: string | undefined, affinity: FeedAffinity | null): Promise<string[]> => {
+  const { weights, size } = feedConfig;
+
+  let query = Vehicle.query()
+    .select('vehicles.id')
+    .where('vehicles.status', VehicleStatus.AVAILABLE)
+    .where('vehicles.listing_status', ListingStatus.PUBLISHED);
+
+  if (userId) {
+    query = query.whereNot('vehicles.seller_id', userId).whereRaw(NOT_VIEWED_SQL, [userId]);
+  }
+
+  if (affinity) {
+    // Full marks at the typical price, none at half or double of it
+    const priceFit = affinity.price
+      ? 'greatest(0, 1 - abs(ln(greatest(vehicles.price, 1) / ?)) / ln(2))'
+      : '0';
+
+    query = query.orderByRaw(
+      `? * coalesce((?::jsonb ->> vehicles.model_id::text)::float8, 0)
+       + ? * coalesce((?::jsonb ->> vehicles.brand_id::text)::float8, 0)
+       + ? * coalesce((?::jsonb ->> vehicles.location_city)::float8, 0)
+       + ? * ${priceFit}
+       + ? * ${POPULARITY_SQL} DESC`,
+      [
+        weights.model, JSON.stringify(affinity.models),
+        weights.brand, JSON.stringify(affinity.brands),
+        weights.location, JSON.stringify(affinity.cities),
+        weights.price, ...(affinity.price ? [affinity.price] : []),
+        weights.popularity,
+      ]
+    );
+  } else {
+    query = query.orderByRaw(`${POPULARITY_SQL} DESC`);
+  }
+
+  const vehicles = await query.orderBy('vehicles.published_at', 'desc').limit(size);
+
+  return vehicles.map((vehicle) => vehicle.id);
+};
+
+const feedKey = (userId?: string): string => (userId ? cacheKeys.feed(userId) : cacheKeys.popularVehicles());
+
+// Recomputes and stores the ranking shown to a user, or the popularity ranking
+// shown to anonymous visitors when no user is given
+export const refreshFeed = async (userId?: string): Promise<PrecomputedFeed> => {
+  const affinity = userId ? await buildAffinity(userId) : null;
+  const feed: PrecomputedFeed = { ids: await rankVehicles(userId, affinity), personalized: Boolean(affinity) };
+
+  await cache.set(feedKey(userId), feed, cacheTTL.medium);
+
+  return feed;
+};
+
+// One page of the precomputed feed. Listings sold or opened since the ranking was
+// computed are dropped, so a page can come back shorter than `limit`.
+export const getFeed = async (userId: string | undefined, page: number = 1, limit: number = 20): Promise<FeedPage> => {
+  const feed = (await cache.get<PrecomputedFeed>(feedKey(userId))) || (await refreshFeed(userId));
+  const pageIds = feed.ids.slice((page - 1) * limit, page * limit);
+  let vehicles: Vehicle[] = [];
+
+  if (pageIds.length) {
+    let query = Vehicle.query()
+      .findByIds(pageIds)
+      .where('status', VehicleStatus.AVAILABLE)
+      .where('listing_status', ListingStatus.PUBLISHED)
+      .withGraphFetched('[brand, model, images]');
+
+    if (userId) {
+      query = query.whereRaw(NOT_VIEWED_SQL, [userId]);
+    }
+
+    const position = new Map(pageIds.map((id, index) => [id, index]));
+    vehicles = (await query).sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+  }
+
+  const totalPages = Math.ceil(feed.ids.length / limit);
+
+  return {
+    data: vehicles,
+    total: feed.ids.length,
+    page,
+    limit,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPreviousPage: page > 1,
+    personalized: feed.personalized,
+  };
+};
+
+// Users with new views, favorites, searches or conversations since `since`. Anyone
+// past the batch gets a fresh feed once their cached one expires.
+const findActiveUsers = async (since: Date): Promise<string[]> => {
+  const result = await Vehicle.knex().raw(
+    `SELECT user_id FROM vehicle_views WHERE user_id IS NOT NULL AND viewed_at >= ?
+     UNION SELECT user_id FROM favorites WHERE created_at >= ?
+     UNION SELECT user_id FROM search_history WHERE user_id IS NOT NULL AND created_at >= ?
+     UNION SELECT buyer_id FROM conversations WHERE coalesce(last_message_at, created_at) >= ?
+     LIMIT ?`,
+    [since, since, since, since, REFRESH_BATCH_SIZE]
+  );
+
+  return result.rows.map((row: { user_id: string }) => row.user_id);
+};
+
+const runRefresh = async (intervalMs: number): Promise<void> => {
+  const startedAt = new Date();
+
+  await refreshFeed();
+
+  const users = await findActiveUsers(lastRefreshAt || new Date(startedAt.getTime() - intervalMs));
+
+  for (const userId of users) {
+    try {
+      await refreshFeed(userId);
+    } catch (error) {
+      logger.error(`Failed to refresh feed of user ${userId}:`, error);
+    }
+  }
+
+  lastRefreshAt = startedAt;
+
+  if (users.length) {
+    logger.info(`Refreshed the home feed of ${users.length} user(s)`);
+  }
+};
+
+export const startFeedRefresh = (intervalMs: number): void => {
+  if (job) return;
+
+  job = startPeriodicJob('Feed refresh', intervalMs, () => runRefresh(intervalMs));
+};
+
+export const stopFeedRefresh = (): void => {
+  job?.stop();
+  job = undefined;
+};
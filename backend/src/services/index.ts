@@ -0,0 +1,60 @@
+import { startReservationSweeper, stopReservationSweeper } from './reservationSweeper';
+import { registerInvoicingSubscribers } from './invoicing';
+import { registerFavoriteWatchSubscribers } from './favoriteWatch';
+import {
+  registerSavedSearchSubscribers,
+  startSavedSearchDigests,
+  stopSavedSearchDigests,
+} from './savedSearchAlerts';
+import { startFeedRefresh, stopFeedRefresh } from './feed';
+import {
+  registerListingLifecycleSubscribers,
+  startListingLifecycle,
+  stopListingLifecycle,
+} from './listingLifecycle';
+import { ensureStorageBucket } from '../config/storage';
+import { logger } from '../utils/logger';
+
+const DEFAULT_RESERVATION_SWEEP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_SAVED_SEARCH_DIGEST_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_FEED_REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+const DEFAULT_LISTING_LIFECYCLE_INTERVAL_MS = 5 * 60 * 1000;
+
+const unsubscribers: Array<() => void> = [];
+
+const intervalFromEnv = (name: string, fallback: number): number =>
+  parseInt(process.env[name] || String(fallback), 10);
+
+export const initializeServices = async (): Promise<void> => {
+  unsubscribers.push(registerInvoicingSubscribers());
+  unsubscribers.push(registerSavedSearchSubscribers());
+  unsubscribers.push(registerFavoriteWatchSubscribers());
+  unsubscribers.push(registerListingLifecycleSubscribers());
+
+  // Uploads fail until storage is reachable; the rest of the API does not depend on it
+  await ensureStorageBucket().catch((error) => logger.error('Failed to prepare the image storage bucket:', error));
+
+  const sweepInterval = intervalFromEnv('RESERVATION_SWEEP_INTERVAL_MS', DEFAULT_RESERVATION_SWEEP_INTERVAL_MS);
+  startReservationSweeper(sweepInterval);
+  logger.info(`Reservation sweeper running every ${sweepInterval}ms`);
+
+  const digestInterval = intervalFromEnv('SAVED_SEARCH_DIGEST_INTERVAL_MS', DEFAULT_SAVED_SEARCH_DIGEST_INTERVAL_MS);
+  startSavedSearchDigests(digestInterval);
+  logger.info(`Saved search digests checked every ${digestInterval}ms`);
+
+  const feedInterval = intervalFromEnv('FEED_REFRESH_INTERVAL_MS', DEFAULT_FEED_REFRESH_INTERVAL_MS);
+  startFeedRefresh(feedInterval);
+  logger.info(`Home feeds refreshed every ${feedInterval}ms`);
+
+  const lifecycleInterval = intervalFromEnv('LISTING_LIFECYCLE_INTERVAL_MS', DEFAULT_LISTING_LIFECYCLE_INTERVAL_MS);
+  startListingLifecycle(lifecycleInterval);
+  logger.info(`Scheduled publishing and listing expiry checked every ${lifecycleInterval}ms`);
+};
+
+export const stopServices = (): void => {
+  stopReservationSweeper();
+  stopSavedSearchDigests();
+  stopFeedRefresh();
+  stopListingLifecycle();
+  unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+};
@@ -0,0 +1,21 @@
+import { eventBus } from './eventBus';
+import { Commission } from '../models/Commission';
+import { ElectronicInvoice } from '../models/ElectronicInvoice';
+import { logger } from '../utils/logger';
+
+// Issues the electronic invoice for the platform fee once a sale completes
+export const registerInvoicingSubscribers = (): (() => void) =>
+  eventBus.subscribe('transaction.completed', async ({ transactionId }) => {
+    const commission = await Commission.query()
+      .where('transaction_id', transactionId)
+      .whereNull('reversal_of_id')
+      .first();
+
+    if (!commission || Number(commission.amount) <= 0) {
+      logger.info(`Transaction ${transactionId} has no commission to invoice`);
+      return;
+    }
+
+    const invoice = await ElectronicInvoice.issueForCommission(commission.id);
+    logger.info(`Invoice ${invoice.getNumber()} issued for transaction ${transactionId} (${invoice.status})`);
+  });
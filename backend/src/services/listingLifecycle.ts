@@ -0,0 +1,114 @@
+import { Vehicle, ListingStatus } from '../models/Vehicle';
+import { Notification } from '../models/Notification';
+import { eventBus } from './eventBus';
+import { logger } from '../utils/logger';
+import { PeriodicJob, startPeriodicJob } from '../utils/periodicJob';
+
+const LIFECYCLE_BATCH_SIZE = 100;
+
+let job: PeriodicJob | undefined;
+
+const formatDate = (date: Date): string =>
+  new Date(date).toLocaleString('es-EC', { timeZone: 'America/Guayaquil', dateStyle: 'long', timeStyle: 'short' });
+
+// Tells the seller how the review of their listing went, or that it went live
+export const notifyListingStatus = async (vehicleId: string, status: ListingStatus): Promise<void> => {
+  const vehicle = await Vehicle.query().findById(vehicleId);
+
+  if (!vehicle) {
+    return;
+  }
+
+  const notes = vehicle.moderation_notes ? ` Nota del moderador: ${vehicle.moderation_notes}` : '';
+  const messages: Partial<Record<ListingStatus, [string, string]>> = {
+    [ListingStatus.SCHEDULED]: [
+      'Tu anuncio fue aprobado',
+      `"${vehicle.title}" fue aprobado y se publicará el ${formatDate(vehicle.scheduled_publish_at!)}.${notes}`,
+    ],
+    [ListingStatus.PUBLISHED]: ['Tu anuncio está publicado', `"${vehicle.title}" ya es visible en el catálogo.${notes}`],
+    [ListingStatus.REJECTED]: [
+      'Tu anuncio fue rechazado',
+      `"${vehicle.title}" no fue aprobado.${notes} Puedes corregirlo y enviarlo de nuevo a revisión.`,
+    ],
+  };
+  const message = messages[status];
+
+  if (!message) {
+    return;
+  }
+
+  await Notification.notify(vehicle.seller_id, `listing.${status}`, message[0], message[1], {
+    vehicle_id: vehicle.id,
+    listing_status: status,
+  });
+};
+
+// Listings whose scheduled go-live has arrived
+export const publishScheduledListings = async (): Promise<number> => {
+  const due = await Vehicle.findDueForPublishing(LIFECYCLE_BATCH_SIZE);
+  let published = 0;
+
+  for (const vehicle of due) {
+    try {
+      await vehicle.publish();
+      published++;
+    } catch (error) {
+      logger.error(`Failed to publish scheduled vehicle ${vehicle.id}:`, error);
+    }
+  }
+
+  return published;
+};
+
+// Listings past their period go inactive until the seller renews them
+export const expireStaleListings = async (): Promise<number> => {
+  const expired = await Vehicle.findExpired(LIFECYCLE_BATCH_SIZE);
+  let count = 0;
+
+  for (const vehicle of expired) {
+    try {
+      await Vehicle.transaction(async (trx) => {
+        await vehicle.expire(trx);
+        await Notification.notify(
+          vehicle.seller_id,
+          'listing.expired',
+          'Tu anuncio ha expirado',
+          `"${vehicle.title}" ya no aparece en el catálogo. Renuévalo para volver a publicarlo.`,
+          { vehicle_id: vehicle.id },
+          trx
+        );
+      });
+
+      count++;
+    } catch (error) {
+      logger.error(`Failed to expire vehicle ${vehicle.id}:`, error);
+    }
+  }
+
+  return count;
+};
+
+const runLifecycle = async (): Promise<void> => {
+  const published = await publishScheduledListings();
+  const expired = await expireStaleListings();
+
+  if (published || expired) {
+    logger.info(`Listing lifecycle published ${published} scheduled and expired ${expired} listing(s)`);
+  }
+};
+
+export const startListingLifecycle = (intervalMs: number): void => {
+  if (job) return;
+
+  job = startPeriodicJob('Listing lifecycle run', intervalMs, runLifecycle);
+};
+
+export const stopListingLifecycle = (): void => {
+  job?.stop();
+  job = undefined;
+};
+
+export const registerListingLifecycleSubscribers = (): (() => void) =>
+  eventBus.subscribe('vehicle.listing_status_changed', async ({ vehicleId, toStatus }) => {
+    await notifyListingStatus(vehicleId, toStatus as ListingStatus);
+  });
@@ -0,0 +1,255 @@
+import { raw } from 'objection';
+import { ListingStatus, Vehicle, VehicleCondition, VehicleStatus, QualityFlag, QualityReport } from '../models/Vehicle';
+import { listingConfig } from '../config/listings';
+import { imageConfig } from '../config/images';
+import { lookupVin } from './vinDecoder';
+import { normalizePlate, parsePlate, plateMatchesProvince } from '../utils/licensePlate';
+
+const SEVERITY_PENALTY: Record<QualityFlag['severity'], number> = { low: 10, medium: 20, high: 40 };
+
+// Shorter descriptions ("Excelente estado, único dueño") are reused innocently
+const MIN_REUSED_DESCRIPTION_LENGTH = 80;
+
+// Must match the expressions of the indexes from migration 019
+const PLATE_SQL = "regexp_replace(upper(license_plate), '[^A-Z0-9]', '', 'g')";
+const DESCRIPTION_HASH_SQL = "md5(lower(regexp_replace(description, '\\s+', ' ', 'g')))";
+
+const CONTACT_PATTERNS: Array<[string, RegExp]> = [
+  ['email', /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i],
+  // Ecuadorian mobiles (09…, +593 9…) and landlines (02…), with or without separators
+  ['phone', /(?:\+\s?593|\b0)[\s.-]?[2-9](?:[\s.-]?\d){7,8}\b/],
+  ['link', /\b(?:https?:\/\/|www\.)\S+|\b(?:wa\.me|t\.me)\/|\bwhats\s?app\b|\btelegram\b/i],
+];
+
+// Other live listings (not sold) from a different seller
+const otherSellersListings = (vehicle: Vehicle) =>
+  Vehicle.query()
+    .select('id', 'seller_id', 'listing_status', 'status')
+    .whereNot('id', vehicle.id)
+    .whereNot('seller_id', vehicle.seller_id)
+    .whereNot('status', VehicleStatus.SOLD);
+
+const checkPrice = async (vehicle: Vehicle): Promise<QualityFlag | null> => {
+  const [stats]: any[] = await Vehicle.query()
+    .select(raw('percentile_cont(0.5) WITHIN GROUP (ORDER BY price) AS median'), raw('count(*) AS samples'))
+    .where('model_id', vehicle.model_id)
+    .whereBetween('year', [vehicle.year - 1, vehicle.year + 1])
+    .whereNot('id', vehicle.id)
+    .where('listing_status', ListingStatus.PUBLISHED);
+
+  const median = Number(stats?.median);
+  const samples = Number(stats?.samples);
+  const ratio = Number(vehicle.price) / median;
+
+  if (samples < listingConfig.priceMinSamples || !median || ratio >= listingConfig.priceFlagRatio) {
+    return null;
+  }
+
+  return {
+    code: 'price_below_median',
+    severity: ratio < listingConfig.priceFlagRatio * 0.66 ? 'high' : 'medium',
+    message: `El precio está ${Math.round((1 - ratio) * 100)}% por debajo de la mediana del modelo y año`,
+    details: { median: Math.round(median), samples },
+  };
+};
+
+const checkDuplicateVin = async (vehicle: Vehicle): Promise<QualityFlag | null> => {
+  if (!vehicle.vin) {
+    return null;
+  }
+
+  const matches = await otherSellersListings(vehicle).whereRaw('upper(vin) = ?', [vehicle.vin.trim().toUpperCase()]);
+
+  return matches.length
+    ? {
+        code: 'duplicate_vin',
+        severity: 'high',
+        message: 'El VIN aparece en un anuncio activo de otro vendedor',
+        details: { vehicle_ids: matches.map((match) => match.id) },
+      }
+    : null;
+};
+
+// Brand or model year that contradict the VIN usually mean a typo, or a VIN copied
+// from another car
+const checkVinMismatch = async (vehicle: Vehicle): Promise<QualityFlag | null> => {
+  if (!vehicle.vin) {
+    return null;
+  }
+
+  const { valid, errors, warnings } = await lookupVin(vehicle.vin, { brand_id: vehicle.brand_id, year: vehicle.year });
+
+  if (!valid) {
+    return { code: 'vin_mismatch', severity: 'medium', message: 'El VIN no es válido', details: { errors } };
+  }
+
+  return warnings.length
+    ? {
+        code: 'vin_mismatch',
+        severity: 'medium',
+        message: warnings.map((warning) => warning.message).join('; '),
+        details: { warnings },
+      }
+    : null;
+};
+
+const checkDuplicatePlate = async (vehicle: Vehicle): Promise<QualityFlag | null> => {
+  const plate = vehicle.license_plate ? normalizePlate(vehicle.license_plate) : '';
+
+  if (!plate) {
+    return null;
+  }
+
+  const matches = await otherSellersListings(vehicle)
+    .whereNotNull('license_plate')
+    .whereRaw(`${PLATE_SQL} = ?`, [plate]);
+
+  return matches.length
+    ? {
+        code: 'duplicate_license_plate',
+        severity: 'high',
+        message: 'La placa aparece en un anuncio activo de otro vendedor',
+        details: { vehicle_ids: matches.map((match) => match.id) },
+      }
+    : null;
+};
+
+// Plates keep the letter of the province they were issued in, even after the owner
+// moves, so a different province alone is only worth a look
+const checkPlateProvince = (vehicle: Vehicle): QualityFlag | null => {
+  const parsed = vehicle.license_plate ? parsePlate(vehicle.license_plate) : null;
+
+  if (!parsed?.province || plateMatchesProvince(vehicle.license_plate!, vehicle.location_province)) {
+    return null;
+  }
+
+  return {
+    code: 'plate_province_mismatch',
+    severity: 'low',
+    message: `La placa es de ${parsed.province} y el anuncio está en ${vehicle.location_province}`,
+    details: { plate_province: parsed.province, location_province: vehicle.location_province },
+  };
+};
+
+const checkMileage = (vehicle: Vehicle): QualityFlag | null => {
+  if (vehicle.mileage == null) {
+    return null;
+  }
+
+  const age = Math.max(0, new Date().getFullYear() - vehicle.year);
+  const mileage = vehicle.mileage;
+  const details = { mileage, year: vehicle.year };
+
+  if (vehicle.condition === VehicleCondition.NEW && mileage > 1000) {
+    return { code: 'mileage_inconsistent', severity: 'medium', message: 'Vehículo nuevo con kilometraje de usado', details };
+  }
+  if (mileage > (age + 1) * listingConfig.maxKmPerYear) {
+    return { code: 'mileage_inconsistent', severity: 'medium', message: 'Kilometraje demasiado alto para el año', details };
+  }
+  // Rolled-back odometers show up as a few hundred km a year on an old car
+  if (vehicle.condition !== VehicleCondition.NEW && age >= 3 && mileage < age * 1000) {
+    return { code: 'mileage_inconsistent', severity: 'low', message: 'Kilometraje demasiado bajo para el año', details };
+  }
+
+  return null;
+};
+
+const checkReusedDescription = async (vehicle: Vehicle): Promise<QualityFlag | null> => {
+  if (!vehicle.description || vehicle.description.trim().length < MIN_REUSED_DESCRIPTION_LENGTH) {
+    return null;
+  }
+
+  const matches = await Vehicle.query()
+    .select('id', 'seller_id')
+    .whereNot('seller_id', vehicle.seller_id)
+    .whereNotNull('description')
+    .whereRaw(`${DESCRIPTION_HASH_SQL} = md5(lower(regexp_replace(?, '\\s+', ' ', 'g')))`, [vehicle.description])
+    .limit(10);
+
+  return matches.length
+    ? {
+        code: 'duplicate_description',
+        severity: 'medium',
+        message: 'La descripción es idéntica a la de anuncios de otras cuentas',
+        details: {
+          vehicle_ids: matches.map((match) => match.id),
+          seller_ids: [...new Set(matches.map((match) => match.seller_id))],
+        },
+      }
+    : null;
+};
+
+// Photos lifted from another seller's listing; compares the perceptual hashes
+// stored by the upload pipeline
+const checkDuplicateImages = async (vehicle: Vehicle): Promise<QualityFlag | null> => {
+  const result = await Vehicle.knex().raw(
+    `SELECT DISTINCT other.vehicle_id
+     FROM vehicle_images mine
+     JOIN vehicle_images other ON other.vehicle_id <> mine.vehicle_id AND other.phash IS NOT NULL
+       AND bit_count(('x' || mine.phash)::bit(64) # ('x' || other.phash)::bit(64)) <= ?
+     JOIN vehicles ON vehicles.id = other.vehicle_id AND vehicles.seller_id <> ?
+     WHERE mine.vehicle_id = ? AND mine.phash IS NOT NULL
+     LIMIT 10`,
+    [imageConfig.duplicateDistance, vehicle.seller_id, vehicle.id]
+  );
+
+  return result.rows.length
+    ? {
+        code: 'duplicate_image',
+        severity: 'medium',
+        message: 'Las fotos aparecen en anuncios de otras cuentas',
+        details: { vehicle_ids: result.rows.map((row: { vehicle_id: string }) => row.vehicle_id) },
+      }
+    : null;
+};
+
+// Buyers must contact sellers through the platform (messages and offers)
+const checkContactDetails = (vehicle: Vehicle): QualityFlag | null => {
+  const text = `${vehicle.title}\n${vehicle.description || ''}`;
+  const kinds = CONTACT_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([kind]) => kind);
+
+  return kinds.length
+    ? {
+        code: 'contact_in_description',
+        severity: 'medium',
+        message: 'El anuncio incluye datos de contacto',
+        details: { kinds },
+      }
+    : null;
+};
+
+// Rule-based plausibility checks run before a listing goes live
+export const checkListing = async (vehicle: Vehicle): Promise<QualityReport> => {
+  const results = await Promise.all([
+    checkPrice(vehicle),
+    checkDuplicateVin(vehicle),
+    checkVinMismatch(vehicle),
+    checkDuplicatePlate(vehicle),
+    checkPlateProvince(vehicle),
+    checkMileage(vehicle),
+    checkReusedDescription(vehicle),
+    checkContactDetails(vehicle),
+    checkDuplicateImages(vehicle),
+  ]);
+  const flags = results.filter((flag): flag is QualityFlag => flag !== null);
+  const penalty = flags.reduce((sum, flag) => sum + SEVERITY_PENALTY[flag.severity], 0);
+
+  return { score: Math.max(0, 100 - penalty), flags };
+};
+
+// Checks the listing and sends it to review. Clean listings are approved on the spot
+// (unless LISTING_AUTO_APPROVE=false); flagged ones wait in the moderation queue.
+export const submitListing = async (vehicle: Vehicle, publishAt?: Date | null): Promise<QualityReport> => {
+  const report = await checkListing(vehicle);
+
+  await Vehicle.transaction(async (trx) => {
+    await vehicle.recordQuality(report, trx);
+    await vehicle.submitForReview(publishAt, trx);
+
+    if (!report.flags.length && listingConfig.autoApproveClean) {
+      await vehicle.approve(null, {}, trx);
+    }
+  });
+
+  return report;
+};
@@ -0,0 +1,38 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { mailConfig } from '../config/mail';
+import { logger } from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+let transporter: Transporter | undefined;
+
+const getTransporter = (): Transporter | undefined => {
+  if (!mailConfig.host) return undefined;
+
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: mailConfig.host,
+      port: mailConfig.port,
+      secure: mailConfig.secure,
+      auth: mailConfig.user ? { user: mailConfig.user, pass: mailConfig.password } : undefined,
+    });
+  }
+
+  return transporter;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  const transport = getTransporter();
+
+  if (!transport) {
+    logger.info(`Mail to ${message.to} not sent (SMTP_HOST not set): ${message.subject}`);
+    return;
+  }
+
+  await transport.sendMail({ from: mailConfig.from, ...message });
+};
@@ -0,0 +1,63 @@
+// Contract every payment processor adapter implements. Funds are authorized (held in escrow)
+// when the buyer pays and only captured once the buyer confirms delivery.
+
+export enum PaymentIntentStatus {
+  AUTHORIZED = 'authorized',
+  CAPTURED = 'captured',
+  VOIDED = 'voided',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
+  FAILED = 'failed',
+}
+
+export interface PaymentIntent {
+  reference: string;
+  status: PaymentIntentStatus;
+  amount: number;
+  currency: string;
+  capturedAmount: number;
+  refundedAmount: number;
+  metadata: Record<string, string>;
+}
+
+export interface AuthorizeRequest {
+  // Used to make retries idempotent, normally the transaction id
+  idempotencyKey: string;
+  amount: number;
+  currency: string;
+  paymentToken: string;
+  description?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentResult {
+  success: boolean;
+  intent?: PaymentIntent;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: 'payment.authorized' | 'payment.captured' | 'payment.voided' | 'payment.refunded' | 'payment.failed';
+  reference: string;
+  amount?: number;
+  createdAt: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+
+  // Captures the held funds; defaults to the full authorized amount
+  capture(reference: string, amount?: number): Promise<PaymentResult>;
+
+  // Releases an authorization that was never captured
+  void(reference: string): Promise<PaymentResult>;
+
+  refund(reference: string, amount: number): Promise<PaymentResult>;
+
+  // Throws when the signature does not match the raw payload
+  verifyWebhook(rawBody: Buffer | string, signature: string | undefined): PaymentWebhookEvent;
+}
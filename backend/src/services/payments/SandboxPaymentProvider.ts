@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import {
+  AuthorizeRequest,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentProvider,
+  PaymentResult,
+  PaymentWebhookEvent,
+} from './PaymentProvider';
+
+// Tokens that make the sandbox fail on purpose
+export const SANDBOX_TOKENS = {
+  success: 'tok_sandbox_success',
+  declined: 'tok_sandbox_declined',
+  insufficientFunds: 'tok_sandbox_insufficient_funds',
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Deterministic in-process processor for development and tests. Nothing leaves the process:
+// references are derived from the idempotency key and intents live in memory.
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = 'sandbox';
+
+  private intents = new Map<string, PaymentIntent>();
+
+  constructor(private readonly webhookSecret: string = process.env.PAYMENT_SANDBOX_WEBHOOK_SECRET || 'sandbox-secret') {}
+
+  async authorize(request: AuthorizeRequest): Promise<PaymentResult> {
+    const reference = `sbx_${crypto.createHash('sha256').update(request.idempotencyKey).digest('hex').slice(0, 24)}`;
+
+    // Only live authorizations are replayed. A retry after a decline (e.g. with another
+    // card) or after the intent was voided by a rollback is a new attempt.
+    const existing = this.intents.get(reference);
+    if (existing && [PaymentIntentStatus.AUTHORIZED, PaymentIntentStatus.CAPTURED].includes(existing.status)) {
+      return { success: true, intent: existing };
+    }
+
+    if (request.paymentToken === SANDBOX_TOKENS.declined) {
+      return this.fail(reference, request, 'card_declined', 'The card was declined');
+    }
+    if (request.paymentToken === SANDBOX_TOKENS.insufficientFunds) {
+      return this.fail(reference, request, 'insufficient_funds', 'Insufficient funds');
+    }
+    if (request.amount <= 0) {
+      return { success: false, errorCode: 'invalid_amount', errorMessage: 'Amount must be greater than 0' };
+    }
+
+    const intent: PaymentIntent = {
+      reference,
+      status: PaymentIntentStatus.AUTHORIZED,
+      amount: round(request.amount),
+      currency: request.currency,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      metadata: request.metadata || {},
+    };
+
+    this.intents.set(reference, intent);
+
+    return { success: true, intent };
+  }
+
+  async capture(reference: string, amount?: number): Promise<PaymentResult> {
+    const intent = this.intents.get(reference);
+
+    if (!intent) {
+      return { success: false, errorCode: 'not_found', errorMessage: 'Unknown payment reference' };
+    }
+    if (intent.status === PaymentIntentStatus.CAPTURED) {
+      return { success: true, intent };
+    }
+    if (intent.status !== PaymentIntentStatus.AUTHORIZED) {
+      return { success: false, intent, errorCode: 'invalid_state', errorMessage: `Payment is ${intent.status}` };
+    }
+
+    const captureAmount = round(amount ?? intent.amount);
+    if (captureAmount > intent.amount) {
+      return { success: false, intent, errorCode: 'amount_too_large', errorMessage: 'Cannot capture more than authorized' };
+    }
+
+    intent.capturedAmount = captureAmount;
+    intent.status = PaymentIntentStatus.CAPTURED;
+
+    return { success: true, intent };
+  }
+
+  async void(reference: string): Promise<PaymentResult> {
+    const intent = this.intents.get(reference);
+
+    if (!intent) {
+      return { success: false, errorCode: 'not_found', errorMessage: 'Unknown payment reference' };
+    }
+    if (intent.status === PaymentIntentStatus.VOIDED) {
+      return { success: true, intent };
+    }
+    if (intent.status !== PaymentIntentStatus.AUTHORIZED) {
+      return { success: false, intent, errorCode: 'invalid_state', errorMessage: `Payment is ${intent.status}` };
+    }
+
+    intent.status = PaymentIntentStatus.VOIDED;
+
+    return { success: true, intent };
+  }
+
+  async refund(reference: string, amount: number): Promise<PaymentResult> {
+    const intent = this.intents.get(reference);
+
+    if (!intent) {
+      return { success: false, errorCode: 'not_found', errorMessage: 'Unknown payment reference' };
+    }
+    if (![PaymentIntentStatus.CAPTURED, PaymentIntentStatus.PARTIALLY_REFUNDED].includes(intent.status)) {
+      return { success: false, intent, errorCode: 'invalid_state', errorMessage: `Payment is ${intent.status}` };
+    }
+
+    const refundable = round(intent.capturedAmount - intent.refundedAmount);
+    if (round(amount) > refundable) {
+      return { success: false, intent, errorCode: 'amount_too_large', errorMessage: `Only ${refundable} can be refunded` };
+    }
+
+    intent.refundedAmount = round(intent.refundedAmount + amount);
+    intent.status = intent.refundedAmount >= intent.capturedAmount
+      ? PaymentIntentStatus.REFUNDED
+      : PaymentIntentStatus.PARTIALLY_REFUNDED;
+
+    return { success: true, intent };
+  }
+
+  verifyWebhook(rawBody: Buffer | string, signature: string | undefined): PaymentWebhookEvent {
+    const expected = this.sign(rawBody);
+
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    return JSON.parse(rawBody.toString()) as PaymentWebhookEvent;
+  }
+
+  // Lets local tooling produce webhooks the sandbox will accept
+  sign(rawBody: Buffer | string): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex');
+  }
+
+  private fail(reference: string, request: AuthorizeRequest, errorCode: string, errorMessage: string): PaymentResult {
+    const intent: PaymentIntent = {
+      reference,
+      status: PaymentIntentStatus.FAILED,
+      amount: round(request.amount),
+      currency: request.currency,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      metadata: request.metadata || {},
+    };
+
+    return { success: false, intent, errorCode, errorMessage };
+  }
+}
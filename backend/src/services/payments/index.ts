@@ -0,0 +1,33 @@
+import { PaymentProvider, PaymentResult } from './PaymentProvider';
+import { SandboxPaymentProvider } from './SandboxPaymentProvider';
+import { PaymentError } from '../../middleware/errorHandler';
+
+export * from './PaymentProvider';
+export { SandboxPaymentProvider, SANDBOX_TOKENS } from './SandboxPaymentProvider';
+
+// Adapters for local bank transfers and card processors register themselves here
+const providers = new Map<string, PaymentProvider>();
+
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+export const getPaymentProvider = (name: string = process.env.PAYMENT_PROVIDER || 'sandbox'): PaymentProvider => {
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new Error(`Payment provider '${name}' is not registered`);
+  }
+
+  return provider;
+};
+
+// Turns a failed provider call into a 402 with the processor's error code
+export const assertPaymentSucceeded = (result: PaymentResult): PaymentResult => {
+  if (!result.success) {
+    throw new PaymentError(result.errorMessage || 'Payment failed', result.errorCode);
+  }
+  return result;
+};
+
+registerPaymentProvider(new SandboxPaymentProvider());
@@ -0,0 +1,40 @@
+import { Transaction, TransactionStatus, EscrowStatus } from '../../models/Transaction';
+import { PaymentWebhookEvent } from './PaymentProvider';
+import { logger } from '../../utils/logger';
+
+// Reconciles our escrow bookkeeping with what the processor reports asynchronously
+export const handlePaymentWebhook = async (provider: string, event: PaymentWebhookEvent): Promise<void> => {
+  const transaction = await Transaction.findByPaymentReference(provider, event.reference);
+
+  if (!transaction) {
+    logger.warn(`Payment webhook ${event.id} (${event.type}) references unknown payment ${event.reference}`);
+    return;
+  }
+
+  switch (event.type) {
+    case 'payment.failed':
+      if (transaction.status === TransactionStatus.PROCESSING && transaction.escrow_status === EscrowStatus.HELD) {
+        await transaction.$query().patch({ escrow_status: EscrowStatus.VOIDED });
+        transaction.escrow_status = EscrowStatus.VOIDED;
+        await transaction.cancel('Payment failed at the processor', {
+          metadata: { webhook_event_id: event.id },
+        });
+      }
+      break;
+
+    case 'payment.voided':
+      if (transaction.escrow_status === EscrowStatus.HELD) {
+        await transaction.$query().patch({ escrow_status: EscrowStatus.VOIDED });
+      }
+      break;
+
+    case 'payment.refunded':
+      if (transaction.escrow_status === EscrowStatus.RELEASED) {
+        await transaction.$query().patch({ escrow_status: EscrowStatus.REFUNDED });
+      }
+      break;
+
+    default:
+      logger.debug(`Payment webhook ${event.id} (${event.type}) needs no action`);
+  }
+};
@@ -0,0 +1,186 @@
+import { PayoutBatch, PayoutBatchStatus } from '../models/PayoutBatch';
+import { parseCsv } from '../utils/csv';
+import { BadRequestError } from '../middleware/errorHandler';
+
+export type ReconciliationIssue =
+  | 'amount_mismatch'
+  | 'already_paid'
+  | 'cancelled_batch'
+  | 'unknown_reference'
+  | 'duplicate_row'
+  | 'invalid_row'
+  | 'missing_payment';
+
+export interface BankStatementRow {
+  line: number;
+  reference: string;
+  amount: number;
+  date?: string;
+  bank_reference?: string;
+}
+
+export interface ReconciliationEntry {
+  issue?: ReconciliationIssue;
+  line?: number;
+  reference?: string;
+  batch_id?: string;
+  expected_amount?: number;
+  bank_amount?: number;
+  difference?: number;
+  message?: string;
+}
+
+export interface ReconciliationReport {
+  rows: number;
+  matched: ReconciliationEntry[];
+  mismatches: ReconciliationEntry[];
+  applied: boolean;
+}
+
+// Accepted header names for each column of the bank file
+const COLUMN_ALIASES: Record<keyof Omit<BankStatementRow, 'line'>, string[]> = {
+  reference: ['reference', 'referencia', 'ref'],
+  amount: ['amount', 'monto', 'valor', 'importe'],
+  date: ['date', 'fecha'],
+  bank_reference: ['bank_reference', 'referencia_banco', 'comprobante', 'transaction_id'],
+};
+
+const AMOUNT_TOLERANCE = 0.005;
+
+// Accepts "1234.56", "1,234.56", "1.234,56" and "$ 1234,56"
+const parseAmount = (raw: string): number => {
+  let value = raw.replace(/[\s$]/g, '');
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  return value === '' ? NaN : Number(value);
+};
+
+export const parseBankStatement = (
+  csv: string
+): { rows: BankStatementRow[]; invalid: ReconciliationEntry[] } => {
+  const delimiter = csv.split(/\r?\n/, 1)[0].includes(';') ? ';' : ',';
+  const [header, ...lines] = parseCsv(csv, delimiter);
+
+  if (!header) {
+    throw new BadRequestError('Bank file is empty');
+  }
+
+  const normalized = header.map((name) => name.trim().toLowerCase());
+  const columnIndex = (column: keyof typeof COLUMN_ALIASES) =>
+    normalized.findIndex((name) => COLUMN_ALIASES[column].includes(name));
+
+  const referenceIndex = columnIndex('reference');
+  const amountIndex = columnIndex('amount');
+  const dateIndex = columnIndex('date');
+  const bankReferenceIndex = columnIndex('bank_reference');
+
+  if (referenceIndex < 0 || amountIndex < 0) {
+    throw new BadRequestError('Bank file must have reference and amount columns');
+  }
+
+  const rows: BankStatementRow[] = [];
+  const invalid: ReconciliationEntry[] = [];
+
+  lines.forEach((cells, index) => {
+    const line = index + 2; // 1-based, after the header
+    const reference = (cells[referenceIndex] || '').trim();
+    const amount = parseAmount(cells[amountIndex] || '');
+
+    if (!reference || Number.isNaN(amount)) {
+      invalid.push({ issue: 'invalid_row', line, reference, message: 'Missing reference or unreadable amount' });
+      return;
+    }
+
+    rows.push({
+      line,
+      reference,
+      amount,
+      date: dateIndex >= 0 ? cells[dateIndex]?.trim() || undefined : undefined,
+      bank_reference: bankReferenceIndex >= 0 ? cells[bankReferenceIndex]?.trim() || undefined : undefined,
+    });
+  });
+
+  return { rows, invalid };
+};
+
+// Compares a bank file against payout batches. Each row is matched on the batch
+// reference; open batches with no row in the file are reported as missing payments.
+// With `apply`, exactly-matching open batches are marked as paid and reconciled.
+export const reconcilePayouts = async (csv: string, apply: boolean = false): Promise<ReconciliationReport> => {
+  const { rows, invalid } = parseBankStatement(csv);
+  const matched: ReconciliationEntry[] = [];
+  const mismatches: ReconciliationEntry[] = [...invalid];
+
+  const batches = rows.length
+    ? await PayoutBatch.query().whereIn('reference', [...new Set(rows.map((row) => row.reference))])
+    : [];
+  const byReference = new Map(batches.map((batch) => [batch.reference, batch]));
+  const seen = new Set<string>();
+  const toPay: Array<{ batch: PayoutBatch; row: BankStatementRow }> = [];
+
+  for (const row of rows) {
+    const batch = byReference.get(row.reference);
+    const base: ReconciliationEntry = { line: row.line, reference: row.reference, bank_amount: row.amount };
+
+    if (seen.has(row.reference)) {
+      mismatches.push({ ...base, issue: 'duplicate_row', batch_id: batch?.id });
+      continue;
+    }
+    seen.add(row.reference);
+
+    if (!batch) {
+      mismatches.push({ ...base, issue: 'unknown_reference' });
+      continue;
+    }
+
+    // The transfer covers the fees plus IVA, less what the seller withheld
+    const expected = Number(batch.total_payable);
+    const difference = Math.round((row.amount - expected) * 100) / 100;
+    const entry = { ...base, batch_id: batch.id, expected_amount: expected, difference };
+
+    if (batch.status === PayoutBatchStatus.CANCELLED) {
+      mismatches.push({ ...entry, issue: 'cancelled_batch' });
+    } else if (batch.status === PayoutBatchStatus.PAID) {
+      mismatches.push({ ...entry, issue: 'already_paid' });
+    } else if (Math.abs(difference) > AMOUNT_TOLERANCE) {
+      mismatches.push({ ...entry, issue: 'amount_mismatch' });
+    } else {
+      matched.push(entry);
+      toPay.push({ batch, row });
+    }
+  }
+
+  const openBatches = await PayoutBatch.findOpen();
+  for (const batch of openBatches) {
+    if (!seen.has(batch.reference)) {
+      mismatches.push({
+        issue: 'missing_payment',
+        reference: batch.reference,
+        batch_id: batch.id,
+        expected_amount: Number(batch.total_payable),
+      });
+    }
+  }
+
+  if (apply && toPay.length) {
+    await PayoutBatch.transaction(async (trx) => {
+      for (const { batch, row } of toPay) {
+        await batch.markAsPaid(row.bank_reference, { reconciled: true, trx });
+      }
+    });
+  }
+
+  return {
+    rows: rows.length + invalid.length,
+    matched,
+    mismatches,
+    applied: apply && toPay.length > 0,
+  };
+};
@@ -0,0 +1,94 @@
+import { PayoutBatch } from '../models/PayoutBatch';
+import { toCsv, CsvValue } from '../utils/csv';
+import { renderTextPdf } from '../utils/pdf';
+
+const money = (value: number | string | undefined | null): string => Number(value || 0).toFixed(2);
+
+const day = (value: Date | string | undefined | null): string =>
+  value ? new Date(value).toISOString().slice(0, 10) : '';
+
+// Expects a batch loaded through PayoutBatch.findWithDetails()
+export const buildStatementCsv = (batch: PayoutBatch): string => {
+  const rows: CsvValue[][] = [
+    ['batch_reference', 'seller_id', 'period_start', 'period_end', 'status', 'commission_id', 'transaction_id',
+      'vehicle', 'sale_date', 'sale_price', 'percentage', 'commission_amount', 'iva_amount', 'withholding_amount', 'type'],
+  ];
+
+  for (const commission of batch.commissions || []) {
+    const transaction = commission.transaction;
+
+    rows.push([
+      batch.reference,
+      batch.seller_id,
+      batch.period_start,
+      batch.period_end,
+      batch.status,
+      commission.id,
+      commission.transaction_id,
+      transaction?.vehicle?.title,
+      day(transaction?.completed_at),
+      money(transaction?.price),
+      commission.percentage != null ? Number(commission.percentage).toFixed(2) : '',
+      money(commission.amount),
+      money(commission.tax_amount),
+      money(commission.withholding_amount),
+      commission.isReversal() ? 'reversal' : 'commission',
+    ]);
+  }
+
+  rows.push([]);
+  rows.push(['total_sales', money(batch.total_sales)]);
+  rows.push(['total_commission', money(batch.total_amount)]);
+  rows.push(['total_iva', money(batch.total_tax_amount)]);
+  rows.push(['total_withholding', money(batch.total_withholding_amount)]);
+  rows.push(['total_payable', money(batch.total_payable)]);
+  rows.push(['commission_count', batch.commission_count]);
+
+  return toCsv(rows);
+};
+
+export const buildStatementPdf = (batch: PayoutBatch): Buffer => {
+  const seller = batch.seller;
+  const line = '-'.repeat(88);
+  const lines: string[] = [
+    'AutoMarket Quito - Estado de cuenta de comisiones',
+    line,
+    `Referencia:   ${batch.reference}`,
+    `Vendedor:     ${seller ? `${seller.getFullName()} <${seller.email}>` : batch.seller_id}`,
+    `Periodo:      ${batch.period_start} a ${batch.period_end}`,
+    `Estado:       ${batch.status}${batch.paid_at ? ` (pagado ${day(batch.paid_at)})` : ''}`,
+    ...(batch.bank_reference ? [`Ref. banco:   ${batch.bank_reference}`] : []),
+    line,
+    `${'Fecha'.padEnd(11)}${'Vehiculo'.padEnd(23)}${'Precio'.padStart(12)}${'%'.padStart(7)}` +
+      `${'Comision'.padStart(12)}${'IVA'.padStart(11)}${'Retencion'.padStart(12)}`,
+    line,
+  ];
+
+  for (const commission of batch.commissions || []) {
+    const transaction = commission.transaction;
+    const title = (commission.isReversal() ? `[Reverso] ` : '') + (transaction?.vehicle?.title || commission.transaction_id);
+
+    lines.push(
+      day(transaction?.completed_at).padEnd(11) +
+      title.slice(0, 21).padEnd(23) +
+      money(transaction?.price).padStart(12) +
+      (commission.percentage != null ? Number(commission.percentage).toFixed(2) : '').padStart(7) +
+      money(commission.amount).padStart(12) +
+      money(commission.tax_amount).padStart(11) +
+      money(commission.withholding_amount).padStart(12)
+    );
+  }
+
+  lines.push(
+    line,
+    `${'Ventas del periodo'.padEnd(34)}${money(batch.total_sales).padStart(12)}`,
+    `${'Totales'.padEnd(53)}${money(batch.total_amount).padStart(12)}` +
+      `${money(batch.total_tax_amount).padStart(11)}${money(batch.total_withholding_amount).padStart(12)}`,
+    `${'Total a pagar (comisiones + IVA - retenciones)'.padEnd(76)}${money(batch.total_payable).padStart(12)}`,
+    `Operaciones: ${batch.commission_count}`,
+    '',
+    `Generado el ${new Date().toISOString()}`
+  );
+
+  return renderTextPdf(lines, `Estado de cuenta ${batch.reference}`);
+};
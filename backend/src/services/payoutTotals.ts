@@ -0,0 +1,44 @@
+// Totals of a payout batch, from the commissions grouped into it
+
+export interface PayoutCommissionLine {
+  amount: number | string;
+  tax_amount?: number | string | null;
+  withholding_amount?: number | string | null;
+  reversal_of_id?: string | null;
+  // Price of the sale the commission belongs to
+  sale_price?: number | string | null;
+}
+
+export interface PayoutTotals {
+  commission_count: number;
+  total_sales: number;
+  // Platform fees
+  total_amount: number;
+  // IVA charged on the fees
+  total_tax_amount: number;
+  // Withheld by the seller as withholding agent
+  total_withholding_amount: number;
+  // What the seller actually owes: fees + IVA - withholdings
+  total_payable: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const sum = (lines: PayoutCommissionLine[], pick: (line: PayoutCommissionLine) => unknown): number =>
+  round2(lines.reduce((total, line) => total + Number(pick(line) || 0), 0));
+
+// Reversals carry negative amounts, so refunds net off every total; they add no sales
+export const summarizeCommissions = (lines: PayoutCommissionLine[]): PayoutTotals => {
+  const totalAmount = sum(lines, (line) => line.amount);
+  const totalTax = sum(lines, (line) => line.tax_amount);
+  const totalWithholding = sum(lines, (line) => line.withholding_amount);
+
+  return {
+    commission_count: lines.length,
+    total_sales: sum(lines.filter((line) => !line.reversal_of_id), (line) => line.sale_price),
+    total_amount: totalAmount,
+    total_tax_amount: totalTax,
+    total_withholding_amount: totalWithholding,
+    total_payable: round2(totalAmount + totalTax - totalWithholding),
+  };
+};
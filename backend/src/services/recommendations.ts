@@ -0,0 +1,92 @@
+import { Vehicle, SimilarityFactor } from '../models/Vehicle';
+import { similarVehiclesConfig } from '../config/recommendations';
+import { cache, cacheKeys, cacheTTL } from '../config/redis';
+
+export const SIMILAR_DEFAULT_LIMIT = 6;
+export const SIMILAR_MAX_LIMIT = 20;
+
+export interface SimilarityMatch {
+  factor: SimilarityFactor;
+  points: number;
+  label: string;
+}
+
+export interface SimilarVehicle {
+  vehicle: Vehicle;
+  // Share of the maximum possible score, 0..1
+  score: number;
+  matches: SimilarityMatch[];
+}
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const signed = (value: number): string => (value > 0 ? `+${value}` : String(value));
+
+// Short Spanish reason shown next to each suggestion
+const describe = (factor: SimilarityFactor, target: Vehicle, candidate: Vehicle): string => {
+  switch (factor) {
+    case 'model':
+      return 'Mismo modelo';
+    case 'brand':
+      return 'Misma marca';
+    case 'year': {
+      const diff = candidate.year - target.year;
+      return diff === 0 ? 'Mismo año' : `Año ${candidate.year} (${signed(diff)})`;
+    }
+    case 'price': {
+      const percent = Math.round(((Number(candidate.price) - Number(target.price)) / Number(target.price)) * 100);
+      return percent === 0 || !Number.isFinite(percent) ? 'Precio similar' : `Precio similar (${signed(percent)}%)`;
+    }
+    case 'fuelType':
+      return 'Mismo combustible';
+    case 'transmission':
+      return 'Misma transmisión';
+    case 'distance':
+      return `A ${Math.round(candidate.distance_km ?? 0)} km`;
+  }
+};
+
+// Listings similar to `vehicle`, best first, each with the factors it matched on.
+// Results are cached briefly per listing; a stale price shifts the ranking only slightly.
+export const findSimilarVehicles = async (
+  vehicle: Vehicle,
+  limit: number = SIMILAR_DEFAULT_LIMIT
+): Promise<SimilarVehicle[]> => {
+  const cacheKey = cacheKeys.vehicle(`${vehicle.id}:similar:${limit}`);
+  const cached = await cache.get<SimilarVehicle[]>(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
+  const { weights } = similarVehiclesConfig;
+  const maxScore = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+  const candidates = await Vehicle.findSimilarTo(vehicle, { ...similarVehiclesConfig, limit })
+    .withGraphFetched('[brand, model, images]');
+
+  const results: SimilarVehicle[] = candidates.map((candidate) => {
+    const factors = candidate.similarity_factors || ({} as Record<SimilarityFactor, number>);
+    const matches = (Object.keys(weights) as SimilarityFactor[])
+      .map((factor) => ({
+        factor,
+        points: round(weights[factor] * Number(factors[factor] || 0), 1),
+        label: describe(factor, vehicle, candidate),
+      }))
+      .filter((match) => match.points > 0)
+      .sort((a, b) => b.points - a.points);
+
+    return {
+      vehicle: candidate,
+      score: maxScore > 0 ? round(Number(candidate.similarity_score) / maxScore, 2) : 0,
+      matches,
+    };
+  });
+
+  await cache.set(cacheKey, results, cacheTTL.short);
+
+  return results;
+};
@@ -0,0 +1,34 @@
+import { BadRequestError } from '../middleware/errorHandler';
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export interface RefundPlan {
+  // What this refund gives back
+  amount: number;
+  // Everything refunded so far, this refund included
+  refundedTotal: number;
+  // The sale stands until the whole price has been refunded
+  partial: boolean;
+}
+
+// Checks a refund against what earlier refunds left; without an amount the rest is refunded
+export const planRefund = (price: number, alreadyRefunded: number, requested?: number): RefundPlan => {
+  const remaining = round2(price - alreadyRefunded);
+  const amount = round2(requested ?? remaining);
+
+  if (amount <= 0 || amount > remaining) {
+    throw new BadRequestError('Refund amount must be greater than 0 and not exceed the amount not yet refunded');
+  }
+
+  const refundedTotal = round2(alreadyRefunded + amount);
+
+  return { amount, refundedTotal, partial: refundedTotal < price };
+};
+
+// Part of `total` (a commission) that follows a refund of the price. Rounded on the running
+// total, so several partial refunds add up to exactly `total`.
+export const refundShare = (total: number, price: number, alreadyRefunded: number, amount: number): number => {
+  const shareOf = (refunded: number) => round2(total * Math.min(1, refunded / price));
+
+  return round2(shareOf(alreadyRefunded + amount) - shareOf(alreadyRefunded));
+};
@@ -0,0 +1,90 @@
+import { VehicleReservation } from '../models/VehicleReservation';
+import { TransactionStatus } from '../models/Transaction';
+import { Notification } from '../models/Notification';
+import { Offer } from '../models/Offer';
+import { logger } from '../utils/logger';
+import { PeriodicJob, startPeriodicJob } from '../utils/periodicJob';
+
+const SWEEP_BATCH_SIZE = 100;
+const EXPIRY_REASON = 'Reservation expired';
+
+let job: PeriodicJob | undefined;
+
+// Returns expired holds to the catalog and tells the holder and the seller about it.
+// A hold whose sale is already being paid for is left alone: the escrow flow decides its fate.
+export const sweepExpiredReservations = async (): Promise<number> => {
+  const expired = await VehicleReservation.findExpired(SWEEP_BATCH_SIZE);
+  let swept = 0;
+
+  for (const reservation of expired) {
+    const transaction = reservation.transaction;
+
+    if (transaction && transaction.status === TransactionStatus.PROCESSING) {
+      logger.info(`Reservation ${reservation.id} expired while payment is processing; keeping hold`);
+      continue;
+    }
+
+    try {
+      await VehicleReservation.transaction(async (trx) => {
+        await reservation.expire(trx);
+
+        if (transaction && transaction.status === TransactionStatus.PENDING) {
+          await transaction.cancel(EXPIRY_REASON, { trx, reason: EXPIRY_REASON });
+        }
+
+        const data = {
+          reservation_id: reservation.id,
+          vehicle_id: reservation.vehicle_id,
+          transaction_id: reservation.transaction_id || null,
+        };
+        const title = reservation.vehicle?.title || 'Vehículo';
+
+        await Notification.notify(
+          reservation.user_id,
+          'reservation.expired',
+          'Tu reserva ha expirado',
+          `La reserva de "${title}" ha expirado y el vehículo vuelve a estar disponible.`,
+          data,
+          trx
+        );
+
+        if (reservation.vehicle) {
+          await Notification.notify(
+            reservation.vehicle.seller_id,
+            'reservation.expired',
+            'Reserva expirada',
+            `La reserva de "${title}" ha expirado y el vehículo vuelve a estar disponible.`,
+            data,
+            trx
+          );
+        }
+      });
+
+      swept++;
+    } catch (error) {
+      logger.error(`Failed to expire reservation ${reservation.id}:`, error);
+    }
+  }
+
+  return swept;
+};
+
+const runSweep = async (): Promise<void> => {
+  const reservations = await sweepExpiredReservations();
+  const offers = await Offer.expireStale();
+
+  if (reservations || offers) {
+    logger.info(`Sweeper expired ${reservations} reservation(s) and ${offers} offer(s)`);
+  }
+};
+
+export const startReservationSweeper = (intervalMs: number): void => {
+  if (job) return;
+
+  job = startPeriodicJob('Reservation sweep', intervalMs, runSweep);
+};
+
+export const stopReservationSweeper = (): void => {
+  job?.stop();
+  job = undefined;
+};
@@ -0,0 +1,167 @@
+import { SavedSearch, AlertFrequency } from '../models/SavedSearch';
+import { SavedSearchMatch } from '../models/SavedSearchMatch';
+import { Vehicle, VehicleStatus } from '../models/Vehicle';
+import { Notification } from '../models/Notification';
+import { User } from '../models/User';
+import { eventBus } from './eventBus';
+import { sendMail } from './mailer';
+import { mailConfig } from '../config/mail';
+import { logger } from '../utils/logger';
+import { PeriodicJob, startPeriodicJob } from '../utils/periodicJob';
+
+const DIGEST_BATCH_SIZE = 100;
+const DIGEST_FREQUENCIES = [AlertFrequency.DAILY, AlertFrequency.WEEKLY] as const;
+
+let job: PeriodicJob | undefined;
+
+const describe = (vehicle: Vehicle): string =>
+  `${vehicle.title} - $${Number(vehicle.price).toFixed(2)} - ${vehicle.location_city}`;
+
+const vehicleUrl = (vehicle: Vehicle): string => `${mailConfig.frontendUrl}/vehicles/${vehicle.id}`;
+
+// Emails the owner of a saved search unless they turned email notifications off.
+// Mail failures are logged; the in-app notification has already been stored.
+const emailOwner = async (search: SavedSearch, subject: string, vehicles: Vehicle[]): Promise<void> => {
+  const user = await User.query().findById(search.user_id).withGraphFetched('profile');
+
+  if (!user || user.profile?.preferences?.notifications?.email === false) {
+    return;
+  }
+
+  const text = [
+    `Hola ${user.first_name},`,
+    '',
+    `Hay ${vehicles.length === 1 ? 'un vehículo nuevo' : `${vehicles.length} vehículos nuevos`} para tu búsqueda "${search.name}":`,
+    '',
+    ...vehicles.map((vehicle) => `- ${describe(vehicle)}\n  ${vehicleUrl(vehicle)}`),
+    '',
+    `Puedes cambiar la frecuencia de estas alertas en ${mailConfig.frontendUrl}/saved-searches`,
+  ].join('\n');
+
+  await sendMail({ to: user.email, subject, text }).catch((error) =>
+    logger.error(`Failed to email saved search ${search.id} alert:`, error)
+  );
+};
+
+const sendInstantAlert = async (search: SavedSearch, vehicle: Vehicle, match: SavedSearchMatch): Promise<void> => {
+  const title = `Nuevo vehículo para "${search.name}"`;
+
+  await Notification.notify(search.user_id, 'saved_search.match', title, describe(vehicle), {
+    saved_search_id: search.id,
+    vehicle_id: vehicle.id,
+  });
+  await SavedSearchMatch.markNotified([match.id]);
+  await search.$query().patch({ last_notified_at: new Date() });
+
+  await emailOwner(search, title, [vehicle]);
+};
+
+// Records the published vehicle against every saved search it satisfies. Instant
+// searches are notified right away; the others wait for their digest.
+export const matchPublishedVehicle = async (vehicleId: string): Promise<number> => {
+  const vehicle = await Vehicle.query().findById(vehicleId);
+
+  if (!vehicle) {
+    return 0;
+  }
+
+  const candidates = await SavedSearch.findCandidates(vehicle);
+  let matched = 0;
+
+  for (const search of candidates) {
+    try {
+      if (!(await search.matchesVehicle(vehicle.id))) continue;
+
+      const match = await SavedSearchMatch.record(search.id, vehicle.id);
+      if (!match) continue;
+
+      matched++;
+
+      if (search.alert_frequency === AlertFrequency.INSTANT) {
+        await sendInstantAlert(search, vehicle, match);
+      }
+    } catch (error) {
+      logger.error(`Failed to match vehicle ${vehicle.id} against saved search ${search.id}:`, error);
+    }
+  }
+
+  return matched;
+};
+
+// One notification and one email with everything matched since the last digest.
+// Vehicles that sold or were withdrawn in the meantime are left out.
+export const sendDigest = async (search: SavedSearch): Promise<number> => {
+  const pending = await SavedSearchMatch.query()
+    .where('saved_search_id', search.id)
+    .whereNull('notified_at')
+    .withGraphFetched('vehicle')
+    .orderBy('created_at', 'asc');
+
+  const vehicles = pending
+    .map((match) => match.vehicle)
+    .filter((vehicle): vehicle is Vehicle => Boolean(vehicle && vehicle.status === VehicleStatus.AVAILABLE));
+
+  if (vehicles.length) {
+    const title = `${vehicles.length} ${vehicles.length === 1 ? 'vehículo nuevo' : 'vehículos nuevos'} para "${search.name}"`;
+
+    await Notification.notify(
+      search.user_id,
+      'saved_search.digest',
+      title,
+      vehicles.slice(0, 3).map(describe).join('; '),
+      { saved_search_id: search.id, vehicle_ids: vehicles.map((vehicle) => vehicle.id) }
+    );
+    await emailOwner(search, title, vehicles);
+  }
+
+  await SavedSearchMatch.markNotified(pending.map((match) => match.id));
+  await search.$query().patch({ last_notified_at: new Date() });
+
+  return vehicles.length;
+};
+
+export const sendDueDigests = async (): Promise<number> => {
+  let sent = 0;
+
+  for (const frequency of DIGEST_FREQUENCIES) {
+    const due = await SavedSearch.findDueDigests(frequency, DIGEST_BATCH_SIZE);
+
+    for (const search of due) {
+      try {
+        if (await sendDigest(search)) sent++;
+      } catch (error) {
+        logger.error(`Failed to send digest for saved search ${search.id}:`, error);
+      }
+    }
+  }
+
+  return sent;
+};
+
+export const registerSavedSearchSubscribers = (): (() => void) =>
+  eventBus.subscribe('vehicle.published', async ({ vehicleId }) => {
+    const matched = await matchPublishedVehicle(vehicleId);
+
+    if (matched) {
+      logger.info(`Vehicle ${vehicleId} matched ${matched} saved search(es)`);
+    }
+  });
+
+const runDigests = async (): Promise<void> => {
+  const sent = await sendDueDigests();
+
+  if (sent) {
+    logger.info(`Sent ${sent} saved search digest(s)`);
+  }
+};
+
+export const startSavedSearchDigests = (intervalMs: number): void => {
+  if (job) return;
+
+  job = startPeriodicJob('Saved search digest run', intervalMs, runDigests);
+};
+
+export const stopSavedSearchDigests = (): void => {
+  job?.stop();
+  job = undefined;
+};
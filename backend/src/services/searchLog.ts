@@ -0,0 +1,28 @@
+import { anonymizeIp } from '../utils/ip';
+
+// One call of the vehicle search, as reported by the route
+export interface SearchLogInput {
+  query?: string;
+  filters: Record<string, any>;
+  resultsCount: number;
+  userId?: string;
+  ip?: string;
+}
+
+export interface SearchLogRow {
+  user_id: string | null;
+  search_query: string;
+  filters: Record<string, any>;
+  results_count: number;
+  ip_address: string | null;
+}
+
+// Searches made only with filters keep an empty query, which the query analytics skip.
+// The IP is truncated before it is stored.
+export const searchLogRow = (data: SearchLogInput): SearchLogRow => ({
+  user_id: data.userId || null,
+  search_query: (data.query || '').trim(),
+  filters: data.filters,
+  results_count: data.resultsCount,
+  ip_address: anonymizeIp(data.ip),
+});
@@ -0,0 +1,66 @@
+import { Brand } from '../models/Brand';
+import { VehicleModel } from '../models/VehicleModel';
+import { Vehicle } from '../models/Vehicle';
+import { SearchHistory, PopularQuery } from '../models/SearchHistory';
+import { cache, cacheKeys, cacheTTL } from '../config/redis';
+import { normalizeSearchText } from '../utils/textSearch';
+
+export const SUGGEST_MIN_LENGTH = 2;
+export const SUGGEST_DEFAULT_LIMIT = 5;
+
+export interface SearchSuggestions {
+  query: string;
+  brands: Array<{ id: string; name: string; logo_url?: string }>;
+  models: Array<{ id: string; name: string; brand_id: string; brand_name?: string }>;
+  queries: PopularQuery[];
+  vehicles: Array<{ id: string; title: string; price: number; year: number }>;
+}
+
+// Suggestions for what the user is typing: brands, "brand model" pairs, popular past
+// searches and listing titles, all matched by trigram similarity so typos still hit.
+// Everyone types the same first letters, so results are cached per normalized prefix;
+// the short TTL keeps new listings from waiting long to show up.
+export const suggest = async (q: string, limit: number = SUGGEST_DEFAULT_LIMIT): Promise<SearchSuggestions> => {
+  const normalized = normalizeSearchText(q);
+  const empty: SearchSuggestions = { query: normalized, brands: [], models: [], queries: [], vehicles: [] };
+
+  if (normalized.length < SUGGEST_MIN_LENGTH) {
+    return empty;
+  }
+
+  const cacheKey = cacheKeys.searchResults(`suggest:${limit}:${normalized}`);
+  const cached = await cache.get<SearchSuggestions>(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
+  const [brands, models, queries, vehicles] = await Promise.all([
+    Brand.findSimilar(normalized, limit),
+    VehicleModel.findSimilar(normalized, limit),
+    SearchHistory.findPopularMatching(normalized, limit),
+    Vehicle.findSimilarTitles(normalized, limit),
+  ]);
+
+  const suggestions: SearchSuggestions = {
+    query: normalized,
+    brands: brands.map((brand) => ({ id: brand.id, name: brand.name, logo_url: brand.logo_url })),
+    models: models.map((model) => ({
+      id: model.id,
+      name: model.name,
+      brand_id: model.brand_id,
+      brand_name: model.brand?.name,
+    })),
+    queries,
+    vehicles: vehicles.map((vehicle) => ({
+      id: vehicle.id,
+      title: vehicle.title,
+      price: Number(vehicle.price),
+      year: vehicle.year,
+    })),
+  };
+
+  await cache.set(cacheKey, suggestions, cacheTTL.short);
+
+  return suggestions;
+};
@@ -0,0 +1,71 @@
+import { taxConfig } from '../config/tax';
+
+// Fiscal breakdown of the platform fee on a sale
+export interface TaxBreakdown {
+  currency: string;
+  base: number;
+  iva_rate: number;
+  iva_amount: number;
+  withholding_agent: boolean;
+  tax_id: string | null;
+  iva_withholding_rate: number;
+  iva_withholding_amount: number;
+  income_tax_withholding_rate: number;
+  income_tax_withholding_amount: number;
+  total_withholding: number;
+  // Fee plus IVA, as invoiced to the seller
+  total_invoiced: number;
+  // What the seller actually owes the platform once withholdings are deducted
+  total_payable: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// A RUC is 13 digits ending in an establishment code, usually 001. Cédulas (10 digits)
+// and passports do not make the holder a withholding agent.
+export const isRuc = (taxId?: string | null): boolean =>
+  !!taxId && /^\d{10}(?!000)\d{3}$/.test(taxId.trim());
+
+export const isWithholdingAgent = (taxId?: string | null): boolean =>
+  taxConfig.withholdingEnabled && isRuc(taxId);
+
+export const calculateCommissionTax = (base: number, taxId?: string | null): TaxBreakdown => {
+  const amount = round2(base);
+  const ivaAmount = round2(amount * (taxConfig.ivaRate / 100));
+  const agent = isWithholdingAgent(taxId);
+
+  const ivaWithholdingRate = agent ? taxConfig.ivaWithholdingRate : 0;
+  const incomeTaxWithholdingRate = agent ? taxConfig.incomeTaxWithholdingRate : 0;
+  const ivaWithholding = round2(ivaAmount * (ivaWithholdingRate / 100));
+  const incomeTaxWithholding = round2(amount * (incomeTaxWithholdingRate / 100));
+  const totalWithholding = round2(ivaWithholding + incomeTaxWithholding);
+
+  return {
+    currency: taxConfig.currency,
+    base: amount,
+    iva_rate: taxConfig.ivaRate,
+    iva_amount: ivaAmount,
+    withholding_agent: agent,
+    tax_id: taxId ? taxId.trim() : null,
+    iva_withholding_rate: ivaWithholdingRate,
+    iva_withholding_amount: ivaWithholding,
+    income_tax_withholding_rate: incomeTaxWithholdingRate,
+    income_tax_withholding_amount: incomeTaxWithholding,
+    total_withholding: totalWithholding,
+    total_invoiced: round2(amount + ivaAmount),
+    total_payable: round2(amount + ivaAmount - totalWithholding),
+  };
+};
+
+// Same breakdown scaled by a ratio, e.g. for the refunded share of a sale. Signs follow
+// the ratio so a negative ratio produces a reversing breakdown.
+export const scaleTaxBreakdown = (breakdown: TaxBreakdown, ratio: number): TaxBreakdown => ({
+  ...breakdown,
+  base: round2(breakdown.base * ratio),
+  iva_amount: round2(breakdown.iva_amount * ratio),
+  iva_withholding_amount: round2(breakdown.iva_withholding_amount * ratio),
+  income_tax_withholding_amount: round2(breakdown.income_tax_withholding_amount * ratio),
+  total_withholding: round2(breakdown.total_withholding * ratio),
+  total_invoiced: round2(breakdown.total_invoiced * ratio),
+  total_payable: round2(breakdown.total_payable * ratio),
+});
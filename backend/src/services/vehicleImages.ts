@@ -0,0 +1,228 @@
+import sharp from 'sharp';
+import { encode as encodeBlurhash } from 'blurhash';
+import { v4 as uuidv4 } from 'uuid';
+import { Vehicle } from '../models/Vehicle';
+import { VehicleImage, ImageVariantUrls } from '../models/VehicleImage';
+import { IMAGE_VARIANTS, ImageVariant, imageConfig } from '../config/images';
+import { storageClient, storageConfig } from '../config/storage';
+import { BadRequestError } from '../middleware/errorHandler';
+import { hammingDistance, perceptualHash, PHASH_INPUT_SIZE } from '../utils/imageHash';
+import { logger } from '../utils/logger';
+
+const FORMATS = ['avif', 'webp', 'jpeg'] as const;
+type ImageFormat = (typeof FORMATS)[number];
+
+const CONTENT_TYPES: Record<ImageFormat, string> = { avif: 'image/avif', webp: 'image/webp', jpeg: 'image/jpeg' };
+
+// Object keys contain the image id, so a stored file never changes
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// 4x3 components are enough for a placeholder and keep the string around 30 characters
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+const BLURHASH_INPUT_SIZE = 32;
+
+export interface UploadedImage {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface SkippedImage {
+  filename: string;
+  reason: 'duplicate' | 'unreadable';
+  duplicate_of?: string;
+}
+
+export interface ImageUploadResult {
+  images: VehicleImage[];
+  skipped: SkippedImage[];
+}
+
+interface RenderedFile {
+  key: string;
+  body: Buffer;
+  format: ImageFormat;
+}
+
+// Upright sRGB pixels, no larger than the biggest variant
+interface DecodedImage {
+  data: Buffer;
+  info: sharp.OutputInfo;
+  phash: string;
+}
+
+interface RenderedImage {
+  blurhash: string;
+  variants: Record<ImageVariant, ImageVariantUrls>;
+  files: RenderedFile[];
+}
+
+const LARGEST_VARIANT = Math.max(...Object.values(IMAGE_VARIANTS));
+
+const objectUrl = (key: string): string => `${storageConfig.publicUrl}/${key}`;
+
+const fromRaw = (data: Buffer, info: sharp.OutputInfo): sharp.Sharp =>
+  sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+
+const encodeAs = (pipeline: sharp.Sharp, format: ImageFormat): sharp.Sharp => {
+  switch (format) {
+    case 'avif':
+      return pipeline.avif({ quality: imageConfig.quality.avif });
+    case 'webp':
+      return pipeline.webp({ quality: imageConfig.quality.webp });
+    case 'jpeg':
+      return pipeline.jpeg({ quality: imageConfig.quality.jpeg, mozjpeg: true, progressive: true });
+  }
+};
+
+// Decodes the upload once; every output is rendered from these pixels. sharp writes
+// no metadata unless asked to, so EXIF (GPS position, camera serial…) never reaches
+// the stored files.
+const decodeImage = async (input: Buffer): Promise<DecodedImage> => {
+  const { data, info } = await sharp(input, { failOn: 'error' })
+    .rotate()
+    .resize({ width: LARGEST_VARIANT, height: LARGEST_VARIANT, fit: 'inside', withoutEnlargement: true })
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const grayscale = await fromRaw(data, info)
+    .removeAlpha()
+    .greyscale()
+    .resize(PHASH_INPUT_SIZE, PHASH_INPUT_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  return { data, info, phash: perceptualHash(grayscale) };
+};
+
+const renderImage = async ({ data, info }: DecodedImage, vehicleId: string, imageId: string): Promise<RenderedImage> => {
+  const preview = await fromRaw(data, info)
+    .resize(BLURHASH_INPUT_SIZE, BLURHASH_INPUT_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const files: RenderedFile[] = [];
+  const variants = {} as Record<ImageVariant, ImageVariantUrls>;
+
+  for (const [variant, size] of Object.entries(IMAGE_VARIANTS) as Array<[ImageVariant, number]>) {
+    const resized = await fromRaw(data, info)
+      .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const urls: Partial<ImageVariantUrls> = { width: resized.info.width, height: resized.info.height };
+
+    for (const format of FORMATS) {
+      const key = `vehicles/${vehicleId}/${imageId}/${variant}.${format === 'jpeg' ? 'jpg' : format}`;
+      const body = await encodeAs(fromRaw(resized.data, resized.info), format).toBuffer();
+
+      files.push({ key, body, format });
+      urls[format] = objectUrl(key);
+    }
+
+    variants[variant] = urls as ImageVariantUrls;
+  }
+
+  return {
+    blurhash: encodeBlurhash(
+      new Uint8ClampedArray(preview.data),
+      preview.info.width,
+      preview.info.height,
+      BLURHASH_COMPONENTS.x,
+      BLURHASH_COMPONENTS.y
+    ),
+    variants,
+    files,
+  };
+};
+
+// Adds the key of each file to `stored` once it is uploaded, so a failure halfway
+// through leaves a list of what has to be removed
+const storeFiles = async (files: RenderedFile[], stored: string[]): Promise<void> => {
+  for (const file of files) {
+    await storageClient.putObject(storageConfig.bucket, file.key, file.body, file.body.length, {
+      'Content-Type': CONTENT_TYPES[file.format],
+      'Cache-Control': CACHE_CONTROL,
+    });
+    stored.push(file.key);
+  }
+};
+
+const removeFiles = async (keys: string[]): Promise<void> => {
+  if (!keys.length) {
+    return;
+  }
+
+  try {
+    await storageClient.removeObjects(storageConfig.bucket, keys);
+  } catch (error) {
+    logger.error('Failed to remove stored image files:', error);
+  }
+};
+
+// Processes and stores photos of a listing, in upload order. A photo that matches
+// one the listing already has (re-encoded, resized or lightly edited) is skipped,
+// and so is a file that is not a readable image.
+export const addVehicleImages = async (vehicle: Vehicle, uploads: UploadedImage[]): Promise<ImageUploadResult> => {
+  const existing = await VehicleImage.findByVehicle(vehicle.id);
+
+  if (existing.length + uploads.length > imageConfig.maxPerVehicle) {
+    throw new BadRequestError(`A vehicle can have at most ${imageConfig.maxPerVehicle} images`);
+  }
+
+  const known = existing.filter((image) => image.phash);
+  const result: ImageUploadResult = { images: [], skipped: [] };
+  let displayOrder = existing.reduce((max, image) => Math.max(max, image.display_order + 1), 0);
+
+  for (const upload of uploads) {
+    let decoded: DecodedImage;
+
+    try {
+      decoded = await decodeImage(upload.buffer);
+    } catch (error) {
+      logger.warn(`Could not process image "${upload.originalname}" for vehicle ${vehicle.id}:`, error);
+      result.skipped.push({ filename: upload.originalname, reason: 'unreadable' });
+      continue;
+    }
+
+    const duplicate = known.find(
+      (image) => hammingDistance(image.phash!, decoded.phash) <= imageConfig.duplicateDistance
+    );
+
+    if (duplicate) {
+      result.skipped.push({ filename: upload.originalname, reason: 'duplicate', duplicate_of: duplicate.id });
+      continue;
+    }
+
+    const imageId = uuidv4();
+    const rendered = await renderImage(decoded, vehicle.id, imageId);
+    const stored: string[] = [];
+
+    // Files of a photo that did not make it into the listing are not left behind
+    try {
+      await storeFiles(rendered.files, stored);
+
+      const image = await VehicleImage.query().insertAndFetch({
+        id: imageId,
+        vehicle_id: vehicle.id,
+        url: rendered.variants.full.jpeg,
+        thumbnail_url: rendered.variants.thumbnail.jpeg,
+        is_primary: !existing.length && !result.images.length,
+        display_order: displayOrder++,
+        width: decoded.info.width,
+        height: decoded.info.height,
+        variants: rendered.variants,
+        blurhash: rendered.blurhash,
+        phash: decoded.phash,
+      });
+
+      known.push(image);
+      result.images.push(image);
+    } catch (error) {
+      await removeFiles(stored);
+      throw error;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,90 @@
+import { Brand } from '../models/Brand';
+import { decodeVin, validateVin } from '../utils/vin';
+
+export interface VinWarning {
+  field: 'brand_id' | 'year';
+  message: string;
+  decoded: string | number;
+}
+
+// What a VIN tells about a car, with the brand resolved against the catalogue so
+// the create form can prefill brand_id, year and manufacture_country
+export interface VinLookup {
+  vin: string;
+  valid: boolean;
+  errors: string[];
+  decoded: {
+    wmi: string;
+    manufacturer: string | null;
+    brand_id: string | null;
+    brand_name: string | null;
+    manufacture_country: string | null;
+    country: string | null;
+    year: number | null;
+    year_candidates: number[];
+    plant_code: string;
+    serial_number: string;
+  } | null;
+  warnings: VinWarning[];
+}
+
+const findBrand = async (manufacturer: string | null): Promise<Brand | undefined> =>
+  manufacturer
+    ? Brand.query().whereRaw('search_normalize(name) = search_normalize(?)', [manufacturer]).first()
+    : undefined;
+
+// Differences between the decoded VIN and what the seller entered. A model year can
+// stand for several years 30 years apart, so any of them counts as a match.
+const compare = (lookup: VinLookup, entered: { brand_id?: string; year?: number }): VinWarning[] => {
+  const { decoded } = lookup;
+  const warnings: VinWarning[] = [];
+
+  if (!decoded) {
+    return warnings;
+  }
+
+  if (entered.brand_id && decoded.brand_id && entered.brand_id !== decoded.brand_id) {
+    warnings.push({
+      field: 'brand_id',
+      message: `El VIN corresponde a un vehículo ${decoded.brand_name}`,
+      decoded: decoded.brand_name!,
+    });
+  }
+  if (entered.year && decoded.year && !decoded.year_candidates.includes(entered.year)) {
+    warnings.push({
+      field: 'year',
+      message: `El VIN corresponde al año modelo ${decoded.year}`,
+      decoded: decoded.year,
+    });
+  }
+
+  return warnings;
+};
+
+export const lookupVin = async (vin: string, entered: { brand_id?: string; year?: number } = {}): Promise<VinLookup> => {
+  const validation = validateVin(vin);
+  const lookup: VinLookup = { vin: validation.vin, valid: validation.valid, errors: validation.errors, decoded: null, warnings: [] };
+
+  if (!validation.valid) {
+    return lookup;
+  }
+
+  const decoded = decodeVin(validation.vin);
+  const brand = await findBrand(decoded.manufacturer);
+
+  lookup.decoded = {
+    wmi: decoded.wmi,
+    manufacturer: decoded.manufacturer,
+    brand_id: brand?.id || null,
+    brand_name: brand?.name || decoded.manufacturer,
+    manufacture_country: decoded.countryCode,
+    country: decoded.country,
+    year: decoded.modelYear,
+    year_candidates: decoded.modelYearCandidates,
+    plant_code: decoded.plantCode,
+    serial_number: decoded.serialNumber,
+  };
+  lookup.warnings = compare(lookup, entered);
+
+  return lookup;
+};
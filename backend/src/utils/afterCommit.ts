@@ -0,0 +1,12 @@
+import { Knex } from 'knex';
+
+// Runs `callback` once the surrounding transaction commits and never if it rolls back.
+// Outside a transaction it runs right away.
+export const afterCommit = (trx: Knex | Knex.Transaction | undefined, callback: () => void): void => {
+  if (trx?.isTransaction) {
+    (trx as Knex.Transaction).executionPromise.then(callback, () => undefined);
+    return;
+  }
+
+  callback();
+};
@@ -0,0 +1,53 @@
+// Great-circle helpers for radius searches
+
+export const EARTH_RADIUS_KM = 6371;
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+export const haversineKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Smallest lat/lng box containing the circle, used as an index-friendly prefilter
+// before the exact distance check. Near the poles or across the antimeridian the
+// longitude range is widened to the whole globe rather than wrapped.
+export const boundingBox = (center: GeoPoint, radiusKm: number): BoundingBox => {
+  const latDelta = toDegrees(radiusKm / EARTH_RADIUS_KM);
+  const minLat = Math.max(-90, center.lat - latDelta);
+  const maxLat = Math.min(90, center.lat + latDelta);
+
+  if (minLat <= -90 || maxLat >= 90) {
+    return { minLat, maxLat, minLng: -180, maxLng: 180 };
+  }
+
+  const lngDelta = toDegrees(
+    Math.asin(Math.min(1, Math.sin(radiusKm / EARTH_RADIUS_KM) / Math.cos(toRadians(center.lat))))
+  );
+  const minLng = center.lng - lngDelta;
+  const maxLng = center.lng + lngDelta;
+
+  if (minLng < -180 || maxLng > 180) {
+    return { minLat, maxLat, minLng: -180, maxLng: 180 };
+  }
+
+  return { minLat, maxLat, minLng, maxLng };
+};
@@ -0,0 +1,56 @@
+// Perceptual hash (pHash) of a photo: the low frequencies of its 32x32 grayscale
+// DCT compared with their median. Re-encoded, resized or slightly retouched copies
+// of a photo end up a few bits apart, unrelated photos around 32.
+
+export const PHASH_INPUT_SIZE = 32;
+const HASH_SIZE = 8;
+
+// cos((2x + 1) * u * π / 2N) for every x, u; the same for every image
+const COSINES = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: PHASH_INPUT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_INPUT_SIZE)))
+);
+
+// `pixels` holds PHASH_INPUT_SIZE² grayscale values, row by row. Returns 64 bits as
+// 16 hex characters.
+export const perceptualHash = (pixels: ArrayLike<number>): string => {
+  const size = PHASH_INPUT_SIZE;
+
+  if (pixels.length !== size * size) {
+    throw new Error(`perceptualHash expects ${size}x${size} grayscale pixels`);
+  }
+
+  // Only the top-left 8x8 block of the 2D DCT is needed, so rows go first
+  const rows = Array.from({ length: size }, (_, y) =>
+    COSINES.map((cosines) => cosines.reduce((sum, cos, x) => sum + pixels[y * size + x] * cos, 0))
+  );
+  const coefficients: number[] = [];
+
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      coefficients.push(rows.reduce((sum, row, y) => sum + row[u] * COSINES[v][y], 0));
+    }
+  }
+
+  // The DC term is the average brightness and says nothing about the content
+  const ac = coefficients.slice(1);
+  const median = [...ac].sort((a, b) => a - b)[Math.floor(ac.length / 2)];
+  let hash = 0n;
+
+  for (const coefficient of coefficients) {
+    hash = (hash << 1n) | (coefficient > median ? 1n : 0n);
+  }
+
+  return hash.toString(16).padStart(16, '0');
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let bits = 0;
+
+  while (diff) {
+    bits += Number(diff & 1n);
+    diff >>= 1n;
+  }
+
+  return bits;
+};
@@ -0,0 +1,33 @@
+import net from 'net';
+
+// Drops the host part of an address before it is stored: IPv4 keeps its /24 and
+// IPv6 its /48. Anything that is not an IP address is discarded.
+export const anonymizeIp = (ip?: string | null): string | null => {
+  if (!ip) {
+    return null;
+  }
+
+  let address = ip.split('%')[0];
+
+  // IPv4 clients seen through a dual-stack socket (::ffff:203.0.113.7)
+  if (address.toLowerCase().startsWith('::ffff:') && net.isIPv4(address.slice(7))) {
+    address = address.slice(7);
+  }
+
+  if (net.isIPv4(address)) {
+    return address.replace(/\.\d+$/, '.0');
+  }
+
+  if (net.isIPv6(address)) {
+    const [head, tail] = address.split('::');
+    const left = head ? head.split(':') : [];
+    const right = tail ? tail.split(':') : [];
+    const groups = tail === undefined
+      ? left
+      : [...left, ...new Array(Math.max(0, 8 - left.length - right.length)).fill('0'), ...right];
+
+    return `${groups.slice(0, 3).join(':')}::`;
+  }
+
+  return null;
+};
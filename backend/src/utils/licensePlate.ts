@@ -0,0 +1,108 @@
+// Ecuadorian license plates (ANT formats). Cars carry three letters and three or four
+// digits (PBA-1234; three digits on plates issued before 2012), motorcycles two
+// letters, three digits and a letter (IB-123A). The first letter is the province the
+// plate was issued in and, on cars, the second one tells what the vehicle is used for.
+
+import { normalizeSearchText } from './textSearch';
+
+export type PlateType = 'private' | 'commercial' | 'government' | 'municipal' | 'motorcycle' | 'diplomatic';
+
+export const PLATE_PROVINCES: Record<string, string> = {
+  A: 'Azuay',
+  B: 'Bolívar',
+  C: 'Carchi',
+  E: 'Esmeraldas',
+  G: 'Guayas',
+  H: 'Chimborazo',
+  I: 'Imbabura',
+  J: 'Santo Domingo de los Tsáchilas',
+  K: 'Sucumbíos',
+  L: 'Loja',
+  M: 'Manabí',
+  N: 'Napo',
+  O: 'El Oro',
+  P: 'Pichincha',
+  Q: 'Orellana',
+  R: 'Los Ríos',
+  S: 'Pastaza',
+  T: 'Tungurahua',
+  U: 'Cañar',
+  V: 'Morona Santiago',
+  W: 'Galápagos',
+  X: 'Cotopaxi',
+  Y: 'Santa Elena',
+  Z: 'Zamora Chinchipe',
+};
+
+// Second letter of car plates: taxis, buses and trucks for hire, the central
+// government and local governments (GAD)
+const USE_LETTERS: Record<string, PlateType> = {
+  A: 'commercial',
+  U: 'commercial',
+  Z: 'commercial',
+  E: 'government',
+  X: 'government',
+  M: 'municipal',
+};
+
+const CAR_PATTERN = /^([A-Z])([A-Z])([A-Z])(\d{3,4})$/;
+const MOTORCYCLE_PATTERN = /^([A-Z])([A-Z])(\d{3})([A-Z])$/;
+// Diplomatic and consular corps, international organisations, technical assistance
+// and temporary import; none of them belongs to a province
+const DIPLOMATIC_PATTERN = /^(CD|CC|OI|AT|IT)(\d{4})$/;
+
+export interface ParsedPlate {
+  // Display form, e.g. PBA-1234
+  plate: string;
+  type: PlateType;
+  provinceCode: string | null;
+  province: string | null;
+}
+
+// What duplicate lookups compare: upper case without separators
+export const normalizePlate = (plate: string): string => plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// null when the plate matches none of the Ecuadorian formats
+export const parsePlate = (input: string): ParsedPlate | null => {
+  const value = normalizePlate(input);
+  let match = value.match(DIPLOMATIC_PATTERN);
+
+  if (match) {
+    return { plate: `${match[1]}-${match[2]}`, type: 'diplomatic', provinceCode: null, province: null };
+  }
+
+  match = value.match(CAR_PATTERN) || value.match(MOTORCYCLE_PATTERN);
+
+  if (!match || !PLATE_PROVINCES[match[1]]) {
+    return null;
+  }
+
+  const isMotorcycle = MOTORCYCLE_PATTERN.test(value);
+
+  return {
+    plate: isMotorcycle ? `${value.slice(0, 2)}-${value.slice(2)}` : `${value.slice(0, 3)}-${value.slice(3)}`,
+    type: isMotorcycle ? 'motorcycle' : USE_LETTERS[match[2]] || 'private',
+    provinceCode: match[1],
+    province: PLATE_PROVINCES[match[1]],
+  };
+};
+
+export const isValidPlate = (input: string): boolean => parsePlate(input) !== null;
+
+// Plates travel with the car when its owner moves, so this is a hint, not an error
+export const plateMatchesProvince = (input: string, province: string): boolean => {
+  const parsed = parsePlate(input);
+
+  return !parsed?.province || normalizeSearchText(parsed.province) === normalizeSearchText(province);
+};
+
+// Keeps the province letter and the last character: PBA-1234 -> P**-***4
+export const maskPlate = (input: string): string => {
+  const plate = parsePlate(input)?.plate || input;
+  const last = plate.length - 1;
+
+  return plate
+    .split('')
+    .map((char, index) => (index === 0 || index === last || char === '-' ? char : '*'))
+    .join('');
+};
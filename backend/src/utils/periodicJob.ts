@@ -0,0 +1,28 @@
+import { logger } from './logger';
+
+export interface PeriodicJob {
+  stop(): void;
+}
+
+// Runs `fn` every `intervalMs` in the background. Failures are logged as "<name> failed"
+// and the next tick runs as usual.
+export const startPeriodicJob = (name: string, intervalMs: number, fn: () => Promise<void>): PeriodicJob => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap with a slow previous run
+    if (running) return;
+    running = true;
+
+    try {
+      await fn();
+    } catch (error) {
+      logger.error(`${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return { stop: () => clearInterval(timer) };
+};
@@ -0,0 +1,21 @@
+// Helpers for typo-tolerant (trigram) matching, see migration 015
+
+// Lowest word similarity at which a brand or model name is still suggested; lets
+// through a typo or two in short names ("toyta" -> "Toyota" scores 0.67)
+export const NAME_SIMILARITY_THRESHOLD = 0.4;
+
+// Same result as the search_normalize() SQL function (migration 025): lower case, no accents,
+// single spaces, trimmed
+export const normalizeSearchText = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Similarity of the typed text and a name in both directions, so that a partial name
+// ("toy") and a query that contains the name ("toyota hilux") both rank high.
+// Takes the typed text twice as bindings.
+export const nameSimilaritySql = (expression: string): string =>
+  `GREATEST(word_similarity(?, search_normalize(${expression})), word_similarity(search_normalize(${expression}), ?))`;
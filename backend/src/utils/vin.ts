@@ -0,0 +1,290 @@
+// VIN validation and offline decoding (ISO 3779/3780). Only the parts that are the
+// same for every manufacturer are decoded: who built the car (WMI), where, the model
+// year and the plant code. Model and trim sit in the manufacturer-specific section.
+
+export const VIN_LENGTH = 17;
+
+// I, O and Q are never used, so they cannot be mistaken for 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+const CHECK_DIGIT_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Position 10 cycles every 30 years; these are the codes from 1980 on
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+const MODEL_YEAR_BASE = 1980;
+
+// Order of the second character in the ISO 3780 country ranges
+const REGION_ORDER = 'ABCDEFGHJKLMNPRSTUVWXYZ1234567890';
+
+// [first character, second character from, to, ISO 3166 country code]
+const COUNTRY_RANGES: Array<[string, string, string, string]> = [
+  ['A', 'A', 'H', 'ZA'],
+  ['J', 'A', '0', 'JP'],
+  ['K', 'L', 'R', 'KR'],
+  ['L', 'A', '0', 'CN'],
+  ['M', 'A', 'E', 'IN'],
+  ['M', 'F', 'K', 'ID'],
+  ['M', 'L', 'R', 'TH'],
+  ['1', 'A', '0', 'US'],
+  ['4', 'A', '0', 'US'],
+  ['5', 'A', '0', 'US'],
+  ['2', 'A', '0', 'CA'],
+  ['3', 'A', 'W', 'MX'],
+  ['8', 'A', 'E', 'AR'],
+  ['8', 'F', 'J', 'CL'],
+  ['8', 'L', 'R', 'EC'],
+  ['8', 'S', 'W', 'PE'],
+  ['8', 'X', '2', 'VE'],
+  ['9', 'A', 'E', 'BR'],
+  ['9', '3', '9', 'BR'],
+  ['9', 'F', 'J', 'CO'],
+  ['S', 'A', 'M', 'GB'],
+  ['T', 'A', 'H', 'CH'],
+  ['T', 'J', 'P', 'CZ'],
+  ['V', 'A', 'E', 'AT'],
+  ['V', 'F', 'R', 'FR'],
+  ['V', 'S', 'W', 'ES'],
+  ['W', 'A', '0', 'DE'],
+  ['Y', 'A', 'E', 'BE'],
+  ['Y', 'F', 'K', 'FI'],
+  ['Y', 'S', 'W', 'SE'],
+  ['Z', 'A', 'R', 'IT'],
+];
+
+export const COUNTRY_NAMES: Record<string, string> = {
+  ZA: 'Sudáfrica',
+  JP: 'Japón',
+  KR: 'Corea del Sur',
+  CN: 'China',
+  IN: 'India',
+  ID: 'Indonesia',
+  TH: 'Tailandia',
+  US: 'Estados Unidos',
+  CA: 'Canadá',
+  MX: 'México',
+  AR: 'Argentina',
+  CL: 'Chile',
+  EC: 'Ecuador',
+  PE: 'Perú',
+  VE: 'Venezuela',
+  BR: 'Brasil',
+  CO: 'Colombia',
+  GB: 'Reino Unido',
+  CH: 'Suiza',
+  CZ: 'República Checa',
+  AT: 'Austria',
+  FR: 'Francia',
+  ES: 'España',
+  DE: 'Alemania',
+  BE: 'Bélgica',
+  FI: 'Finlandia',
+  SE: 'Suecia',
+  IT: 'Italia',
+};
+
+// World manufacturer identifiers of the brands sold in Ecuador, by prefix. The
+// longest matching prefix wins. Names match the brand catalogue.
+const MANUFACTURERS: Record<string, string> = {
+  JT: 'Toyota',
+  '2T': 'Toyota',
+  '4T': 'Toyota',
+  '5TD': 'Toyota',
+  '5TF': 'Toyota',
+  '8AJ': 'Toyota',
+  '9BR': 'Toyota',
+  MR0: 'Toyota',
+  JN: 'Nissan',
+  '1N': 'Nissan',
+  '3N': 'Nissan',
+  MNT: 'Nissan',
+  VSK: 'Nissan',
+  JM: 'Mazda',
+  JH: 'Honda',
+  '1HG': 'Honda',
+  '2HG': 'Honda',
+  '93H': 'Honda',
+  JS: 'Suzuki',
+  MA3: 'Suzuki',
+  JA: 'Mitsubishi',
+  JF: 'Subaru',
+  KMH: 'Hyundai',
+  KM8: 'Hyundai',
+  MAL: 'Hyundai',
+  '5NP': 'Hyundai',
+  KNA: 'Kia',
+  KND: 'Kia',
+  '5XY': 'Kia',
+  KL: 'Chevrolet',
+  '1G1': 'Chevrolet',
+  '1GC': 'Chevrolet',
+  '1GN': 'Chevrolet',
+  '3G': 'Chevrolet',
+  '9BG': 'Chevrolet',
+  KPT: 'SsangYong',
+  '1FA': 'Ford',
+  '1FM': 'Ford',
+  '1FT': 'Ford',
+  '3FA': 'Ford',
+  '8AF': 'Ford',
+  WVW: 'Volkswagen',
+  WV1: 'Volkswagen',
+  WV2: 'Volkswagen',
+  '3VW': 'Volkswagen',
+  '9BW': 'Volkswagen',
+  WBA: 'BMW',
+  WBS: 'BMW',
+  WDB: 'Mercedes-Benz',
+  WDD: 'Mercedes-Benz',
+  WAU: 'Audi',
+  WP0: 'Porsche',
+  VF1: 'Renault',
+  VF3: 'Peugeot',
+  VF7: 'Citroën',
+  VSS: 'SEAT',
+  TMB: 'Škoda',
+  ZFA: 'Fiat',
+  '8AP': 'Fiat',
+  '9BD': 'Fiat',
+  SAL: 'Land Rover',
+  SAJ: 'Jaguar',
+  YV1: 'Volvo',
+  '5YJ': 'Tesla',
+};
+
+export interface VinValidation {
+  vin: string;
+  valid: boolean;
+  errors: string[];
+  // Position 9; only mandatory for vehicles built for North America
+  checkDigit: { expected: string; actual: string; required: boolean } | null;
+}
+
+export interface DecodedVin {
+  wmi: string;
+  manufacturer: string | null;
+  countryCode: string | null;
+  country: string | null;
+  // Best guess; `modelYearCandidates` lists every year the code can stand for
+  modelYear: number | null;
+  modelYearCandidates: number[];
+  plantCode: string;
+  serialNumber: string;
+}
+
+export const normalizeVin = (vin: string): string => vin.replace(/[\s-]/g, '').toUpperCase();
+
+export const computeCheckDigit = (vin: string): string => {
+  const sum = vin
+    .split('')
+    .reduce((total, char, index) => total + (/\d/.test(char) ? Number(char) : TRANSLITERATION[char] || 0) * CHECK_DIGIT_WEIGHTS[index], 0);
+  const remainder = sum % 11;
+
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+// North American VINs (1-5) must carry a valid check digit; elsewhere it is optional
+const requiresCheckDigit = (vin: string): boolean => /^[1-5]/.test(vin);
+
+export const validateVin = (input: string): VinValidation => {
+  const vin = normalizeVin(input);
+  const errors: string[] = [];
+
+  if (vin.length !== VIN_LENGTH) {
+    errors.push(`VIN must have ${VIN_LENGTH} characters`);
+  }
+  if (/[IOQ]/.test(vin)) {
+    errors.push('VIN cannot contain the letters I, O or Q');
+  }
+  if (/[^A-Z0-9]/.test(vin)) {
+    errors.push('VIN can only contain letters and digits');
+  }
+
+  if (!VIN_PATTERN.test(vin)) {
+    return { vin, valid: false, errors, checkDigit: null };
+  }
+
+  const checkDigit = { expected: computeCheckDigit(vin), actual: vin[8], required: requiresCheckDigit(vin) };
+
+  if (checkDigit.required && checkDigit.expected !== checkDigit.actual) {
+    errors.push(`Invalid check digit: expected ${checkDigit.expected} at position 9`);
+  }
+
+  return { vin, valid: errors.length === 0, errors, checkDigit };
+};
+
+export const countryFromVin = (vin: string): string | null => {
+  const [first, second] = vin;
+  const position = REGION_ORDER.indexOf(second);
+  const range = COUNTRY_RANGES.find(
+    ([char, from, to]) =>
+      char === first && position >= REGION_ORDER.indexOf(from) && position <= REGION_ORDER.indexOf(to)
+  );
+
+  return range ? range[3] : null;
+};
+
+export const manufacturerFromVin = (vin: string): string | null => {
+  const prefix = [3, 2].map((length) => vin.slice(0, length)).find((candidate) => MANUFACTURERS[candidate]);
+
+  return prefix ? MANUFACTURERS[prefix] : null;
+};
+
+// Years the position 10 code can stand for, up to next year's models
+export const modelYearCandidates = (vin: string): number[] => {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  const latest = new Date().getFullYear() + 1;
+
+  if (index < 0) {
+    return [];
+  }
+
+  const years: number[] = [];
+
+  for (let year = MODEL_YEAR_BASE + index; year <= latest; year += MODEL_YEAR_CODES.length) {
+    years.push(year);
+  }
+
+  return years;
+};
+
+// North American cars and light trucks tell the cycle apart at position 7: a digit
+// for 1980-2009, a letter from 2010. Elsewhere the most recent candidate is assumed.
+const guessModelYear = (vin: string, candidates: number[]): number | null => {
+  if (!candidates.length) {
+    return null;
+  }
+
+  if (requiresCheckDigit(vin)) {
+    const secondCycle = /[A-Z]/.test(vin[6]);
+    const match = candidates.find((year) => (year >= 2010) === secondCycle);
+
+    if (match) {
+      return match;
+    }
+  }
+
+  return candidates[candidates.length - 1];
+};
+
+// Expects a VIN that passed validateVin()
+export const decodeVin = (input: string): DecodedVin => {
+  const vin = normalizeVin(input);
+  const countryCode = countryFromVin(vin);
+  const candidates = modelYearCandidates(vin);
+
+  return {
+    wmi: vin.slice(0, 3),
+    manufacturer: manufacturerFromVin(vin),
+    countryCode,
+    country: countryCode ? COUNTRY_NAMES[countryCode] : null,
+    modelYear: guessModelYear(vin, candidates),
+    modelYearCandidates: candidates,
+    plantCode: vin[10],
+    serialNumber: vin.slice(11),
+  };
+};
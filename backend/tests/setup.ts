@@ -0,0 +1,3 @@
+// Runs before every test file. Unit tests only exercise pure helpers and in-memory
+// adapters, so no database or Redis connection is opened here.
+process.env.NODE_ENV = 'test';
@@ -0,0 +1,67 @@
+import { splitIntoBands, tiersError } from '../../../src/services/commissionTiers';
+
+const tiers = [
+  { up_to: 10000, rate: 6 },
+  { up_to: 30000, rate: 4 },
+  { up_to: null, rate: 2.5 },
+];
+
+const total = (price: number, rules = tiers) =>
+  splitIntoBands(rules, price).reduce((sum, band) => sum + band.amount, 0);
+
+describe('splitIntoBands', () => {
+  it('charges each part of the price at the rate of its band', () => {
+    expect(splitIntoBands(tiers, 45000)).toEqual([
+      { from: 0, to: 10000, rate: 6, taxable: 10000, amount: 600 },
+      { from: 10000, to: 30000, rate: 4, taxable: 20000, amount: 800 },
+      { from: 30000, to: null, rate: 2.5, taxable: 15000, amount: 375 },
+    ]);
+  });
+
+  it('stops at the band the price falls in', () => {
+    expect(splitIntoBands(tiers, 8000)).toEqual([{ from: 0, to: 10000, rate: 6, taxable: 8000, amount: 480 }]);
+    expect(total(10000)).toBe(600);
+  });
+
+  it('does not depend on the order the bands were stored in', () => {
+    expect(splitIntoBands([...tiers].reverse(), 45000)).toEqual(splitIntoBands(tiers, 45000));
+  });
+
+  it('charges the price above a closed last band at its rate', () => {
+    const closed = [
+      { up_to: 10000, rate: 6 },
+      { up_to: 30000, rate: 4 },
+    ];
+
+    expect(splitIntoBands(closed, 50000)).toEqual([
+      { from: 0, to: 10000, rate: 6, taxable: 10000, amount: 600 },
+      { from: 10000, to: null, rate: 4, taxable: 40000, amount: 1600 },
+    ]);
+  });
+
+  it('charges nothing on a zero price', () => {
+    expect(splitIntoBands(tiers, 0)).toEqual([]);
+  });
+});
+
+describe('tiersError', () => {
+  it('accepts bands ending in an open-ended one', () => {
+    expect(tiersError(tiers)).toBeNull();
+    expect(tiersError([{ up_to: null, rate: 5 }])).toBeNull();
+  });
+
+  it('requires an open-ended last band', () => {
+    expect(tiersError([{ up_to: 10000, rate: 6 }])).toMatch(/open-ended/);
+  });
+
+  it('rejects several open-ended or repeated bands', () => {
+    expect(tiersError([{ up_to: null, rate: 6 }, { up_to: null, rate: 4 }])).toMatch(/Only the last band/);
+    expect(tiersError([{ up_to: 10000, rate: 6 }, { up_to: 10000, rate: 4 }, { up_to: null, rate: 2 }])).toMatch(
+      /same up_to/
+    );
+  });
+
+  it('rejects an empty set of bands', () => {
+    expect(tiersError([])).not.toBeNull();
+  });
+});
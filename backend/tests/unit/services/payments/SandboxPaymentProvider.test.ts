@@ -0,0 +1,98 @@
+import { SandboxPaymentProvider, SANDBOX_TOKENS } from '../../../../src/services/payments/SandboxPaymentProvider';
+import { PaymentIntentStatus } from '../../../../src/services/payments/PaymentProvider';
+
+const authorizeRequest = (paymentToken: string, idempotencyKey = 'transaction-1') => ({
+  idempotencyKey,
+  amount: 15000,
+  currency: 'USD',
+  paymentToken,
+});
+
+describe('SandboxPaymentProvider', () => {
+  let provider: SandboxPaymentProvider;
+
+  beforeEach(() => {
+    provider = new SandboxPaymentProvider('test-secret');
+  });
+
+  describe('authorize', () => {
+    it('holds the funds', async () => {
+      const result = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+
+      expect(result.success).toBe(true);
+      expect(result.intent).toMatchObject({ status: PaymentIntentStatus.AUTHORIZED, amount: 15000, capturedAmount: 0 });
+    });
+
+    it('returns the same intent when a successful authorization is retried', async () => {
+      const first = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+      const retry = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+
+      expect(retry.success).toBe(true);
+      expect(retry.intent).toBe(first.intent);
+    });
+
+    it('lets the buyer retry with another card after a decline', async () => {
+      const declined = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.declined));
+      const retry = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+
+      expect(declined).toMatchObject({ success: false, errorCode: 'card_declined' });
+      expect(retry.success).toBe(true);
+      expect(retry.intent!.status).toBe(PaymentIntentStatus.AUTHORIZED);
+      expect(retry.intent!.reference).toBe(declined.intent!.reference);
+    });
+
+    it('authorizes again after a rollback voided the first attempt', async () => {
+      const first = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+      await provider.void(first.intent!.reference);
+
+      const retry = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+
+      expect(retry.success).toBe(true);
+      expect(retry.intent).toMatchObject({ reference: first.intent!.reference, status: PaymentIntentStatus.AUTHORIZED });
+      expect((await provider.capture(retry.intent!.reference)).success).toBe(true);
+    });
+  });
+
+  describe('escrow release', () => {
+    it('captures the held amount once', async () => {
+      const { intent } = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+      const captured = await provider.capture(intent!.reference);
+      const again = await provider.capture(intent!.reference);
+
+      expect(captured.intent).toMatchObject({ status: PaymentIntentStatus.CAPTURED, capturedAmount: 15000 });
+      expect(again.success).toBe(true);
+    });
+
+    it('gives captured funds back in parts up to the captured amount', async () => {
+      const { intent } = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+      await provider.capture(intent!.reference);
+
+      const partial = await provider.refund(intent!.reference, 5000);
+      expect(partial.intent).toMatchObject({ status: PaymentIntentStatus.PARTIALLY_REFUNDED, refundedAmount: 5000 });
+
+      const tooMuch = await provider.refund(intent!.reference, 10000.01);
+      expect(tooMuch).toMatchObject({ success: false, errorCode: 'amount_too_large' });
+
+      const rest = await provider.refund(intent!.reference, 10000);
+      expect(rest.intent).toMatchObject({ status: PaymentIntentStatus.REFUNDED, refundedAmount: 15000 });
+    });
+
+    it('cannot refund funds that were never captured', async () => {
+      const { intent } = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success));
+
+      await expect(provider.refund(intent!.reference, 100)).resolves.toMatchObject({
+        success: false,
+        errorCode: 'invalid_state',
+      });
+    });
+
+    it('voids held funds, but not captured ones', async () => {
+      const held = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success, 'transaction-1'));
+      const released = await provider.authorize(authorizeRequest(SANDBOX_TOKENS.success, 'transaction-2'));
+      await provider.capture(released.intent!.reference);
+
+      expect((await provider.void(held.intent!.reference)).intent!.status).toBe(PaymentIntentStatus.VOIDED);
+      expect(await provider.void(released.intent!.reference)).toMatchObject({ success: false, errorCode: 'invalid_state' });
+    });
+  });
+});
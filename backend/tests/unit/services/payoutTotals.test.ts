@@ -0,0 +1,43 @@
+import { summarizeCommissions } from '../../../src/services/payoutTotals';
+
+describe('summarizeCommissions', () => {
+  it('adds IVA and deducts withholdings from what the seller pays', () => {
+    const totals = summarizeCommissions([
+      { amount: '1250.00', tax_amount: '187.50', withholding_amount: '165.63', sale_price: '25000.00' },
+      { amount: 490, tax_amount: 73.5, withholding_amount: 0, sale_price: 9800 },
+    ]);
+
+    expect(totals).toEqual({
+      commission_count: 2,
+      total_sales: 34800,
+      total_amount: 1740,
+      total_tax_amount: 261,
+      total_withholding_amount: 165.63,
+      total_payable: 1835.37,
+    });
+  });
+
+  it('nets reversals off every total without counting their sale', () => {
+    const totals = summarizeCommissions([
+      { amount: 1250, tax_amount: 187.5, withholding_amount: 165.63, sale_price: 25000 },
+      { amount: -625, tax_amount: -93.75, withholding_amount: -82.82, sale_price: 25000, reversal_of_id: 'c1' },
+    ]);
+
+    expect(totals).toEqual({
+      commission_count: 2,
+      total_sales: 25000,
+      total_amount: 625,
+      total_tax_amount: 93.75,
+      total_withholding_amount: 82.81,
+      total_payable: 635.94,
+    });
+  });
+
+  it('treats missing tax columns as zero', () => {
+    expect(summarizeCommissions([{ amount: 100, sale_price: 2000 }])).toMatchObject({
+      total_tax_amount: 0,
+      total_withholding_amount: 0,
+      total_payable: 100,
+    });
+  });
+});
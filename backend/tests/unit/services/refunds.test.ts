@@ -0,0 +1,58 @@
+import { planRefund, refundShare } from '../../../src/services/refunds';
+import { BadRequestError } from '../../../src/middleware/errorHandler';
+
+describe('planRefund', () => {
+  it('refunds the whole price by default', () => {
+    expect(planRefund(20000, 0)).toEqual({ amount: 20000, refundedTotal: 20000, partial: false });
+  });
+
+  it('keeps a partial refund partial', () => {
+    expect(planRefund(20000, 0, 1500)).toEqual({ amount: 1500, refundedTotal: 1500, partial: true });
+  });
+
+  it('adds partial refunds up and finishes once the price is reached', () => {
+    const first = planRefund(20000, 0, 5000);
+    const second = planRefund(20000, first.refundedTotal, 5000);
+    const rest = planRefund(20000, second.refundedTotal);
+
+    expect(second).toEqual({ amount: 5000, refundedTotal: 10000, partial: true });
+    expect(rest).toEqual({ amount: 10000, refundedTotal: 20000, partial: false });
+  });
+
+  it('rounds amounts to cents', () => {
+    expect(planRefund(100, 0, 33.333)).toEqual({ amount: 33.33, refundedTotal: 33.33, partial: true });
+  });
+
+  it('rejects amounts above what is left to refund', () => {
+    expect(() => planRefund(20000, 15000, 5000.01)).toThrow(BadRequestError);
+  });
+
+  it('rejects empty refunds and refunds of an already refunded sale', () => {
+    expect(() => planRefund(20000, 0, 0)).toThrow(BadRequestError);
+    expect(() => planRefund(20000, 20000)).toThrow(BadRequestError);
+  });
+});
+
+describe('refundShare', () => {
+  it('follows the refunded share of the price', () => {
+    expect(refundShare(1000, 20000, 0, 5000)).toBe(250);
+    expect(refundShare(1000, 20000, 0, 20000)).toBe(1000);
+  });
+
+  it('adds up to the whole commission over several partial refunds', () => {
+    const refunds = [1, 1, 1];
+    let refunded = 0;
+    let total = 0;
+
+    for (const amount of refunds) {
+      total += refundShare(100, 3, refunded, amount);
+      refunded += amount;
+    }
+
+    expect(Math.round(total * 100) / 100).toBe(100);
+  });
+
+  it('never goes beyond the commission', () => {
+    expect(refundShare(1000, 20000, 19000, 5000)).toBe(50);
+  });
+});
@@ -0,0 +1,22 @@
+import { searchLogRow } from '../../../src/services/searchLog';
+
+describe('searchLogRow', () => {
+  it('logs searches made only with filters with an empty query', () => {
+    expect(searchLogRow({ filters: { brand_id: 'b1', price_max: 20000 }, resultsCount: 12 })).toEqual({
+      user_id: null,
+      search_query: '',
+      filters: { brand_id: 'b1', price_max: 20000 },
+      results_count: 12,
+      ip_address: null,
+    });
+  });
+
+  it('treats a blank query like no query', () => {
+    expect(searchLogRow({ query: '   ', filters: {}, resultsCount: 0 }).search_query).toBe('');
+  });
+
+  it('trims the query and truncates the IP', () => {
+    expect(searchLogRow({ query: '  toyota hilux ', filters: {}, resultsCount: 3, userId: 'u1', ip: '203.0.113.7' }))
+      .toMatchObject({ user_id: 'u1', search_query: 'toyota hilux', ip_address: '203.0.113.0' });
+  });
+});
@@ -0,0 +1,35 @@
+import { parseCsv, toCsv } from '../../../src/utils/csv';
+
+describe('toCsv', () => {
+  it('quotes cells with separators, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 3, null]])).toBe('"a,b","say ""hi""","two\nlines",3,\r\n');
+  });
+
+  it.each(['=HYPERLINK("http://evil")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'])(
+    'neutralises %j so spreadsheets do not run it',
+    (value) => {
+      const [[cell]] = parseCsv(toCsv([[value]]));
+
+      expect(cell).toBe(`'${value}`);
+    }
+  );
+
+  it('leaves numbers alone, negative ones included', () => {
+    expect(toCsv([[-150.25, '-150.25', '+3', '12.00']])).toBe('-150.25,-150.25,+3,12.00\r\n');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted cells, escaped quotes, CRLF and a BOM', () => {
+    expect(parseCsv('﻿ref,amount\r\n"PB-1, a","say ""hi"""\r\n\r\n')).toEqual([
+      ['ref', 'amount'],
+      ['PB-1, a', 'say "hi"'],
+    ]);
+  });
+
+  it('round-trips what toCsv writes', () => {
+    const rows = [['a,b', 'c"d', 'plain']];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,60 @@
+import { isValidPlate, maskPlate, normalizePlate, parsePlate, plateMatchesProvince } from '../../../src/utils/licensePlate';
+
+describe('parsePlate', () => {
+  it('formats a private car plate and reads its province', () => {
+    expect(parsePlate('pba1234')).toEqual({ plate: 'PBA-1234', type: 'private', provinceCode: 'P', province: 'Pichincha' });
+  });
+
+  it('accepts the three-digit plates issued before 2012', () => {
+    expect(parsePlate('GSD 123')).toMatchObject({ plate: 'GSD-123', province: 'Guayas' });
+  });
+
+  it.each([
+    ['PAA-1234', 'commercial'],
+    ['GUB-1234', 'commercial'],
+    ['AZC-123', 'commercial'],
+    ['PEA-1234', 'government'],
+    ['PXA-1234', 'government'],
+    ['PMA-1234', 'municipal'],
+  ])('reads the use of %s from its second letter', (plate, type) => {
+    expect(parsePlate(plate)?.type).toBe(type);
+  });
+
+  it('recognises motorcycle plates', () => {
+    expect(parsePlate('ib123a')).toEqual({ plate: 'IB-123A', type: 'motorcycle', provinceCode: 'I', province: 'Imbabura' });
+  });
+
+  it('recognises diplomatic plates, which have no province', () => {
+    expect(parsePlate('CD-1234')).toEqual({ plate: 'CD-1234', type: 'diplomatic', provinceCode: null, province: null });
+  });
+
+  it.each(['', 'PBA-12', 'PBA-12345', '1234-PBA', 'DBA-1234', 'CD-123'])('returns null for %j', (plate) => {
+    expect(parsePlate(plate)).toBeNull();
+    expect(isValidPlate(plate)).toBe(false);
+  });
+});
+
+describe('normalizePlate', () => {
+  it('drops separators and upper-cases', () => {
+    expect(normalizePlate(' pba-1234 ')).toBe('PBA1234');
+  });
+});
+
+describe('plateMatchesProvince', () => {
+  it('compares provinces regardless of case and accents', () => {
+    expect(plateMatchesProvince('MBA-1234', 'manabi')).toBe(true);
+    expect(plateMatchesProvince('PBA-1234', 'Guayas')).toBe(false);
+  });
+
+  it('does not hold plates without a province against the listing', () => {
+    expect(plateMatchesProvince('CD-1234', 'Guayas')).toBe(true);
+  });
+});
+
+describe('maskPlate', () => {
+  it('keeps the province letter and the last character', () => {
+    expect(maskPlate('PBA-1234')).toBe('P**-***4');
+    expect(maskPlate('pba1234')).toBe('P**-***4');
+    expect(maskPlate('IB-123A')).toBe('I*-***A');
+  });
+});
@@ -0,0 +1,78 @@
+import { computeCheckDigit, countryFromVin, decodeVin, normalizeVin, validateVin } from '../../../src/utils/vin';
+
+describe('validateVin', () => {
+  it('accepts a North American VIN with a correct check digit', () => {
+    const result = validateVin('1HGCM82633A004352');
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.checkDigit).toEqual({ expected: '3', actual: '3', required: true });
+  });
+
+  it('normalizes spaces, dashes and case before checking', () => {
+    expect(normalizeVin(' 1hgcm826-33a004352 ')).toBe('1HGCM82633A004352');
+    expect(validateVin('1hgcm826 33a004352').valid).toBe(true);
+  });
+
+  it.each(['I', 'O', 'Q'])('rejects the letter %s', (letter) => {
+    const result = validateVin(`1HGCM82633A00435${letter}`);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('VIN cannot contain the letters I, O or Q');
+    expect(result.checkDigit).toBeNull();
+  });
+
+  it('rejects VINs of the wrong length', () => {
+    expect(validateVin('1HGCM82633A00435').errors).toContain('VIN must have 17 characters');
+  });
+
+  it('rejects a bad check digit on North American VINs', () => {
+    const result = validateVin('1HGCM82643A004352');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Invalid check digit: expected 3 at position 9']);
+  });
+
+  it('does not require the check digit elsewhere', () => {
+    const result = validateVin('JTDB4MEE6NJ123456');
+
+    expect(result.valid).toBe(true);
+    expect(result.checkDigit).toMatchObject({ required: false });
+  });
+});
+
+describe('computeCheckDigit', () => {
+  it('uses X for a remainder of 10', () => {
+    expect(computeCheckDigit('1M8GDM9AXKP042788')).toBe('X');
+  });
+});
+
+describe('decodeVin', () => {
+  it('decodes a Honda built in the United States', () => {
+    expect(decodeVin('1HGCM82633A004352')).toEqual({
+      wmi: '1HG',
+      manufacturer: 'Honda',
+      countryCode: 'US',
+      country: 'Estados Unidos',
+      modelYear: 2003,
+      modelYearCandidates: [2003],
+      plantCode: 'A',
+      serialNumber: '004352',
+    });
+  });
+
+  it('takes the most recent model year outside North America', () => {
+    expect(decodeVin('JTDB4MEE6NJ123456')).toMatchObject({
+      manufacturer: 'Toyota',
+      countryCode: 'JP',
+      country: 'Japón',
+      modelYear: 2022,
+      modelYearCandidates: [1992, 2022],
+    });
+  });
+
+  it('leaves unknown manufacturers and regions empty', () => {
+    expect(countryFromVin('0AAAAAAAAAA000000')).toBeNull();
+    expect(decodeVin('XXXAAAAAAAA000000')).toMatchObject({ manufacturer: null });
+  });
+});
@@ -5,6 +5,18 @@
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+
+-- Spanish full-text search that ignores accents
+CREATE TEXT SEARCH CONFIGURATION es_unaccent (COPY = spanish);
+ALTER TEXT SEARCH CONFIGURATION es_unaccent
+    ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+
+-- Lower-case, accent-free text with single spaces for trigram matching (IMMUTABLE so it can be indexed)
+CREATE OR REPLACE FUNCTION search_normalize(value TEXT)
+RETURNS TEXT AS $$
+    SELECT btrim(regexp_replace(lower(public.unaccent('public.unaccent'::regdictionary, value)), '\s+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
 
 -- Create custom types
 CREATE TYPE user_role AS ENUM ('buyer', 'seller', 'dealer', 'admin');
@@ -14,7 +26,15 @@ CREATE TYPE transmission_type AS ENUM ('manual', 'automatic', 'cvt', 'dual-clutc
 CREATE TYPE fuel_type AS ENUM ('gasoline', 'diesel', 'electric', 'hybrid', 'plug-in-hybrid', 'lpg');
 CREATE TYPE drivetrain_type AS ENUM ('fwd', 'rwd', 'awd', '4wd');
 CREATE TYPE transaction_status AS ENUM ('pending', 'processing', 'completed', 'cancelled', 'refunded');
-CREATE TYPE commission_type AS ENUM ('percentage', 'fixed');
+CREATE TYPE commission_type AS ENUM ('percentage', 'fixed', 'tiered');
+CREATE TYPE escrow_status AS ENUM ('held', 'released', 'voided', 'refunded');
+CREATE TYPE clawback_status AS ENUM ('pending', 'recovered');
+CREATE TYPE offer_status AS ENUM ('pending', 'countered', 'accepted', 'rejected', 'expired', 'withdrawn');
+CREATE TYPE reservation_status AS ENUM ('active', 'released', 'expired', 'converted');
+CREATE TYPE payout_batch_status AS ENUM ('open', 'paid', 'cancelled');
+CREATE TYPE invoice_status AS ENUM ('generated', 'signed', 'in_process', 'authorized', 'rejected');
+CREATE TYPE alert_frequency AS ENUM ('instant', 'daily', 'weekly');
+CREATE TYPE listing_status AS ENUM ('draft', 'pending_review', 'scheduled', 'published', 'rejected');
 
 -- Users table
 CREATE TABLE users (
@@ -97,8 +117,10 @@ CREATE TABLE vehicles (
     negotiable BOOLEAN DEFAULT TRUE,
     mileage INTEGER CHECK (mileage >= 0),
     color VARCHAR(50),
-    vin VARCHAR(17) UNIQUE,
+    vin VARCHAR(17),
+    manufacture_country CHAR(2),
     license_plate VARCHAR(20),
+    show_license_plate BOOLEAN NOT NULL DEFAULT FALSE,
     engine_size VARCHAR(20),
     engine_type VARCHAR(50),
     transmission transmission_type,
@@ -120,6 +142,17 @@ CREATE TABLE vehicles (
     featured_until TIMESTAMP WITH TIME ZONE,
     published_at TIMESTAMP WITH TIME ZONE,
     sold_at TIMESTAMP WITH TIME ZONE,
+    listing_status listing_status NOT NULL DEFAULT 'draft',
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    moderation_notes TEXT,
+    scheduled_publish_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    quality_score INTEGER,
+    quality_flags JSONB NOT NULL DEFAULT '[]',
+    quality_checked_at TIMESTAMP WITH TIME ZONE,
+    search_vector TSVECTOR,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -132,7 +165,19 @@ CREATE INDEX idx_vehicles_status ON vehicles(status);
 CREATE INDEX idx_vehicles_price ON vehicles(price);
 CREATE INDEX idx_vehicles_year ON vehicles(year);
 CREATE INDEX idx_vehicles_location ON vehicles(location_city, location_province);
-CREATE INDEX idx_vehicles_search ON vehicles USING gin(to_tsvector('spanish', title || ' ' || COALESCE(description, '')));
+CREATE INDEX idx_vehicles_search ON vehicles USING gin(search_vector);
+CREATE INDEX idx_vehicles_geo ON vehicles USING gist(point(location_lng::float8, location_lat::float8))
+    WHERE location_lat IS NOT NULL AND location_lng IS NOT NULL;
+CREATE INDEX idx_vehicles_title_trgm ON vehicles USING gin(search_normalize(title) gin_trgm_ops);
+CREATE INDEX idx_vehicles_moderation_queue ON vehicles(submitted_at) WHERE listing_status = 'pending_review';
+CREATE INDEX idx_vehicles_scheduled ON vehicles(scheduled_publish_at) WHERE listing_status = 'scheduled';
+CREATE INDEX idx_vehicles_expiry ON vehicles(expires_at) WHERE listing_status = 'published' AND status = 'available';
+-- Lookups of the listing quality checks; a VIN is not unique since resold cars are listed again
+CREATE INDEX idx_vehicles_vin ON vehicles(upper(vin)) WHERE vin IS NOT NULL;
+CREATE INDEX idx_vehicles_license_plate ON vehicles(regexp_replace(upper(license_plate), '[^A-Z0-9]', '', 'g'))
+    WHERE license_plate IS NOT NULL;
+CREATE INDEX idx_vehicles_description_hash ON vehicles(md5(lower(regexp_replace(description, '\s+', ' ', 'g'))))
+    WHERE description IS NOT NULL;
 
 -- Vehicle images
 CREATE TABLE vehicle_images (
@@ -142,7 +187,13 @@ CREATE TABLE vehicle_images (
     thumbnail_url VARCHAR(500),
     is_primary BOOLEAN DEFAULT FALSE,
     display_order INTEGER DEFAULT 0,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    width INTEGER,
+    height INTEGER,
+    variants JSONB NOT NULL DEFAULT '{}',
+    blurhash VARCHAR(100),
+    phash CHAR(16),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX idx_vehicle_images_vehicle ON vehicle_images(vehicle_id);
@@ -171,6 +222,19 @@ CREATE TABLE vehicle_views (
 
 CREATE INDEX idx_vehicle_views_vehicle ON vehicle_views(vehicle_id);
 CREATE INDEX idx_vehicle_views_date ON vehicle_views(viewed_at);
+CREATE INDEX idx_vehicle_views_user ON vehicle_views(user_id, viewed_at) WHERE user_id IS NOT NULL;
+
+-- Asking prices a listing has had (old_price is empty for the first one)
+CREATE TABLE vehicle_price_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+    old_price DECIMAL(12, 2),
+    new_price DECIMAL(12, 2) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_vehicle_price_history_vehicle ON vehicle_price_history(vehicle_id, created_at);
 
 -- Messages/Chat
 CREATE TABLE conversations (
@@ -212,14 +276,24 @@ CREATE TABLE transactions (
     seller_id UUID NOT NULL REFERENCES users(id),
     price DECIMAL(12, 2) NOT NULL,
     commission_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    commission_tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    withholding_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    tax_breakdown JSONB,
     net_amount DECIMAL(12, 2) NOT NULL,
     status transaction_status DEFAULT 'pending',
     payment_method VARCHAR(50),
     payment_reference VARCHAR(255),
+    payment_provider VARCHAR(50),
+    escrow_status escrow_status,
+    escrow_held_at TIMESTAMP WITH TIME ZONE,
+    escrow_released_at TIMESTAMP WITH TIME ZONE,
     notes TEXT,
     completed_at TIMESTAMP WITH TIME ZONE,
     cancelled_at TIMESTAMP WITH TIME ZONE,
     cancelled_reason TEXT,
+    refunded_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    refunded_at TIMESTAMP WITH TIME ZONE,
+    refund_reason TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -229,6 +303,71 @@ CREATE INDEX idx_transactions_buyer ON transactions(buyer_id);
 CREATE INDEX idx_transactions_seller ON transactions(seller_id);
 CREATE INDEX idx_transactions_status ON transactions(status);
 CREATE INDEX idx_transactions_number ON transactions(transaction_number);
+CREATE INDEX idx_transactions_payment ON transactions(payment_provider, payment_reference);
+
+-- Transaction status history
+CREATE TABLE transaction_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    from_status transaction_status,
+    to_status transaction_status NOT NULL,
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    reason TEXT,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_transaction_events_transaction ON transaction_events(transaction_id, created_at);
+
+-- Offers and counter-offers
+CREATE TABLE offers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+    buyer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    seller_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL,
+    parent_offer_id UUID REFERENCES offers(id) ON DELETE SET NULL,
+    proposed_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    message TEXT,
+    status offer_status DEFAULT 'pending',
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    transaction_id UUID REFERENCES transactions(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_offers_vehicle ON offers(vehicle_id);
+CREATE INDEX idx_offers_buyer ON offers(buyer_id);
+CREATE INDEX idx_offers_seller ON offers(seller_id);
+CREATE INDEX idx_offers_conversation ON offers(conversation_id);
+CREATE INDEX idx_offers_parent ON offers(parent_offer_id);
+CREATE INDEX idx_offers_status_expiry ON offers(status, expires_at);
+
+-- Vehicle reservation holds
+CREATE TABLE vehicle_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    deposit_amount DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (deposit_amount >= 0),
+    deposit_provider VARCHAR(50),
+    deposit_reference VARCHAR(255),
+    deposit_status escrow_status,
+    status reservation_status DEFAULT 'active',
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    released_at TIMESTAMP WITH TIME ZONE,
+    release_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_vehicle_reservations_active ON vehicle_reservations(vehicle_id) WHERE status = 'active';
+CREATE INDEX idx_vehicle_reservations_user ON vehicle_reservations(user_id);
+CREATE INDEX idx_vehicle_reservations_transaction ON vehicle_reservations(transaction_id);
+CREATE INDEX idx_vehicle_reservations_status_expiry ON vehicle_reservations(status, expires_at);
 
 -- Commission settings
 CREATE TABLE commission_settings (
@@ -240,12 +379,48 @@ CREATE TABLE commission_settings (
     min_price DECIMAL(12, 2),
     max_price DECIMAL(12, 2),
     user_role user_role,
+    brand_id UUID REFERENCES brands(id) ON DELETE CASCADE,
+    location_province VARCHAR(100),
+    vehicle_condition vehicle_condition,
+    min_seller_tenure_days INTEGER,
+    max_seller_tenure_days INTEGER,
+    valid_from TIMESTAMP WITH TIME ZONE,
+    valid_to TIMESTAMP WITH TIME ZONE,
+    tiers JSONB,
     is_active BOOLEAN DEFAULT TRUE,
     priority INTEGER DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE INDEX idx_commission_settings_active ON commission_settings(is_active, priority);
+
+-- Commission payout batches
+CREATE TABLE payout_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reference VARCHAR(50) UNIQUE NOT NULL,
+    seller_id UUID NOT NULL REFERENCES users(id),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    status payout_batch_status DEFAULT 'open',
+    commission_count INTEGER NOT NULL DEFAULT 0,
+    total_sales DECIMAL(14, 2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    total_tax_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    total_withholding_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    total_payable DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    bank_reference VARCHAR(255),
+    paid_at TIMESTAMP WITH TIME ZONE,
+    reconciled_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_payout_batches_seller ON payout_batches(seller_id);
+CREATE INDEX idx_payout_batches_status ON payout_batches(status);
+CREATE INDEX idx_payout_batches_period ON payout_batches(period_start, period_end);
+
 -- Commission history
 CREATE TABLE commissions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -256,11 +431,63 @@ CREATE TABLE commissions (
     is_paid BOOLEAN DEFAULT FALSE,
     paid_at TIMESTAMP WITH TIME ZONE,
     payment_reference VARCHAR(255),
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    reversal_of_id UUID REFERENCES commissions(id),
+    clawback_amount DECIMAL(10, 2),
+    clawback_status clawback_status,
+    clawback_reason TEXT,
+    payout_batch_id UUID REFERENCES payout_batches(id) ON DELETE SET NULL,
+    tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    withholding_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    tax_breakdown JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX idx_commissions_transaction ON commissions(transaction_id);
 CREATE INDEX idx_commissions_paid ON commissions(is_paid);
+CREATE INDEX idx_commissions_reversal ON commissions(reversal_of_id);
+CREATE INDEX idx_commissions_clawback ON commissions(clawback_status);
+CREATE INDEX idx_commissions_payout_batch ON commissions(payout_batch_id);
+
+-- Electronic invoice numbering (last sequential per establishment, emission point and document type)
+CREATE TABLE invoice_sequences (
+    establishment VARCHAR(3) NOT NULL,
+    emission_point VARCHAR(3) NOT NULL,
+    document_type VARCHAR(2) NOT NULL,
+    last_value INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (establishment, emission_point, document_type)
+);
+
+-- SRI electronic invoices for platform fees
+CREATE TABLE electronic_invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    commission_id UUID UNIQUE NOT NULL REFERENCES commissions(id),
+    transaction_id UUID NOT NULL REFERENCES transactions(id),
+    customer_id UUID NOT NULL REFERENCES users(id),
+    environment CHAR(1) NOT NULL,
+    establishment CHAR(3) NOT NULL,
+    emission_point CHAR(3) NOT NULL,
+    sequential CHAR(9) NOT NULL,
+    access_key VARCHAR(49) UNIQUE NOT NULL,
+    issue_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    subtotal DECIMAL(12, 2) NOT NULL,
+    tax_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    total DECIMAL(12, 2) NOT NULL,
+    status invoice_status DEFAULT 'generated',
+    xml TEXT NOT NULL,
+    signed_xml TEXT,
+    authorization_number VARCHAR(49),
+    authorized_at TIMESTAMP WITH TIME ZONE,
+    messages JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(establishment, emission_point, sequential)
+);
+
+CREATE INDEX idx_electronic_invoices_transaction ON electronic_invoices(transaction_id);
+CREATE INDEX idx_electronic_invoices_customer ON electronic_invoices(customer_id);
+CREATE INDEX idx_electronic_invoices_status ON electronic_invoices(status);
 
 -- Reviews and ratings
 CREATE TABLE reviews (
@@ -289,7 +516,8 @@ CREATE TABLE notifications (
     data JSONB DEFAULT '{}',
     is_read BOOLEAN DEFAULT FALSE,
     read_at TIMESTAMP WITH TIME ZONE,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX idx_notifications_user ON notifications(user_id);
@@ -314,6 +542,36 @@ CREATE INDEX idx_audit_logs_user ON audit_logs(user_id);
 CREATE INDEX idx_audit_logs_entity ON audit_logs(entity_type, entity_id);
 CREATE INDEX idx_audit_logs_created ON audit_logs(created_at);
 
+-- Saved searches with new-match alerts
+CREATE TABLE saved_searches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}',
+    alert_frequency alert_frequency NOT NULL DEFAULT 'daily',
+    alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    last_notified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_saved_searches_user ON saved_searches(user_id);
+CREATE INDEX idx_saved_searches_alerts ON saved_searches(alerts_enabled, alert_frequency);
+
+-- Vehicles matched by a saved search (notified_at is empty until an alert covers them)
+CREATE TABLE saved_search_matches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+    notified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(saved_search_id, vehicle_id)
+);
+
+CREATE INDEX idx_saved_search_matches_vehicle ON saved_search_matches(vehicle_id);
+CREATE INDEX idx_saved_search_matches_pending ON saved_search_matches(saved_search_id) WHERE notified_at IS NULL;
+
 -- Search history
 CREATE TABLE search_history (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -322,11 +580,14 @@ CREATE TABLE search_history (
     filters JSONB DEFAULT '{}',
     results_count INTEGER DEFAULT 0,
     ip_address INET,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX idx_search_history_user ON search_history(user_id);
 CREATE INDEX idx_search_history_created ON search_history(created_at);
+CREATE INDEX idx_search_history_zero_results ON search_history(created_at) WHERE results_count = 0;
+CREATE INDEX idx_search_history_query_trgm ON search_history USING gin(search_normalize(search_query) gin_trgm_ops);
 
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -337,6 +598,66 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+-- Vehicle search document: title (A), brand and model names (B), description (C)
+CREATE OR REPLACE FUNCTION vehicle_search_document(p_title TEXT, p_description TEXT, p_brand_id UUID, p_model_id UUID)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector('es_unaccent', COALESCE(p_title, '')), 'A')
+        || setweight(to_tsvector('es_unaccent',
+             COALESCE((SELECT name FROM brands WHERE id = p_brand_id), '') || ' ' ||
+             COALESCE((SELECT name FROM models WHERE id = p_model_id), '')), 'B')
+        || setweight(to_tsvector('es_unaccent', COALESCE(p_description, '')), 'C');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_vehicle_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector = vehicle_search_document(NEW.title, NEW.description, NEW.brand_id, NEW.model_id);
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Re-index a brand's or model's vehicles when it is renamed
+CREATE OR REPLACE FUNCTION refresh_vehicle_search_vectors()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'brands' THEN
+        UPDATE vehicles SET search_vector = vehicle_search_document(title, description, brand_id, model_id)
+        WHERE brand_id = NEW.id;
+    ELSE
+        UPDATE vehicles SET search_vector = vehicle_search_document(title, description, brand_id, model_id)
+        WHERE model_id = NEW.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_vehicles_search_vector BEFORE INSERT OR UPDATE OF title, description, brand_id, model_id ON vehicles
+    FOR EACH ROW EXECUTE FUNCTION update_vehicle_search_vector();
+
+CREATE TRIGGER refresh_brand_vehicle_search_vectors AFTER UPDATE OF name ON brands
+    FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name) EXECUTE FUNCTION refresh_vehicle_search_vectors();
+
+CREATE TRIGGER refresh_model_vehicle_search_vectors AFTER UPDATE OF name ON models
+    FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name) EXECUTE FUNCTION refresh_vehicle_search_vectors();
+
+-- Record every asking price of a vehicle
+CREATE OR REPLACE FUNCTION record_vehicle_price_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO vehicle_price_history (vehicle_id, old_price, new_price)
+        VALUES (NEW.id, NULL, NEW.price);
+    ELSIF OLD.price IS DISTINCT FROM NEW.price THEN
+        INSERT INTO vehicle_price_history (vehicle_id, old_price, new_price)
+        VALUES (NEW.id, OLD.price, NEW.price);
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER record_vehicles_price_history AFTER INSERT OR UPDATE OF price ON vehicles
+    FOR EACH ROW EXECUTE FUNCTION record_vehicle_price_change();
+
 -- Apply updated_at trigger to tables
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -347,6 +668,9 @@ CREATE TRIGGER update_user_profiles_updated_at BEFORE UPDATE ON user_profiles
 CREATE TRIGGER update_vehicles_updated_at BEFORE UPDATE ON vehicles
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_vehicle_images_updated_at BEFORE UPDATE ON vehicle_images
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_conversations_updated_at BEFORE UPDATE ON conversations
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -356,9 +680,39 @@ CREATE TRIGGER update_transactions_updated_at BEFORE UPDATE ON transactions
 CREATE TRIGGER update_commission_settings_updated_at BEFORE UPDATE ON commission_settings
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_commissions_updated_at BEFORE UPDATE ON commissions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_reviews_updated_at BEFORE UPDATE ON reviews
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_offers_updated_at BEFORE UPDATE ON offers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_vehicle_reservations_updated_at BEFORE UPDATE ON vehicle_reservations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_notifications_updated_at BEFORE UPDATE ON notifications
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_payout_batches_updated_at BEFORE UPDATE ON payout_batches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_electronic_invoices_updated_at BEFORE UPDATE ON electronic_invoices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_saved_searches_updated_at BEFORE UPDATE ON saved_searches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_saved_search_matches_updated_at BEFORE UPDATE ON saved_search_matches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_vehicle_price_history_updated_at BEFORE UPDATE ON vehicle_price_history
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_search_history_updated_at BEFORE UPDATE ON search_history
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Create view for vehicle statistics
 CREATE VIEW vehicle_statistics AS
 SELECT 